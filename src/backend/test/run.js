@@ -0,0 +1,67 @@
+// Runs every test/*.test.mo file in the Motoko interpreter with the compiler flags of the
+// canister build, against the core package bundled with the `motoko` npm package, then checks
+// that the canister build can upgrade the deployed canister.
+import { readdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import mo from 'motoko';
+
+const require = createRequire(import.meta.url);
+const backendDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+function sourceFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name === 'node_modules') return [];
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? sourceFiles(path) : entry.name.endsWith('.mo') ? [path] : [];
+  });
+}
+
+mo.loadPackage(require('motoko/packages/latest/core.json'));
+for (const path of sourceFiles(backendDir)) {
+  mo.write(relative(backendDir, path), readFileSync(path, 'utf8'));
+}
+const flags = ['--implicit-package', 'core', '-E', 'M0236', '-E', 'M0235', '-E', 'M0223', '-E', 'M0237'];
+mo.setExtraFlags(flags);
+
+const tests = readdirSync(join(backendDir, 'test')).filter((name) => name.endsWith('.test.mo')).sort();
+let failed = 0;
+for (const name of tests) {
+  const { stderr, result } = mo.run(`test/${name}`);
+  if (result.error) {
+    failed++;
+    console.error(`FAIL test/${name}\n${stderr}`);
+  } else {
+    console.log(`PASS test/${name}`);
+  }
+}
+
+console.log(`${tests.length - failed} of ${tests.length} test files passed`);
+
+// Upgrade checks on stable signatures. The build must accept the state of the deployed
+// canister, recorded in test/stable/v1.most. The build without its migration must accept the
+// state the build leaves behind: that is the release after it, once the migration is removed.
+mo.setExtraFlags([...flags, '--default-persistent-actors']);
+mo.write('test/stable/v1.most', readFileSync(join(backendDir, 'test/stable/v1.most'), 'utf8'));
+mo.write('test/stable/build.most', mo.wasm('main.mo', 'ic').stable);
+mo.write('next.mo', readFileSync(join(backendDir, 'main.mo'), 'utf8').replace('(with migration = Migration.run)\n', ''));
+mo.write('test/stable/next.most', mo.wasm('next.mo', 'ic').stable);
+
+const upgrades = [
+  ['deployed version 1', 'test/stable/v1.most', 'test/stable/build.most'],
+  ['build without migration', 'test/stable/build.most', 'test/stable/next.most'],
+];
+let incompatible = 0;
+for (const [name, from, to] of upgrades) {
+  const errors = mo.compiler.stableCompatible(from, to).diagnostics.filter((diagnostic) => diagnostic.severity === 1);
+  if (errors.length > 0) {
+    incompatible++;
+    console.error(`FAIL upgrade to ${name}\n${errors.map((error) => error.message).join('\n')}`);
+  } else {
+    console.log(`PASS upgrade to ${name}`);
+  }
+}
+
+console.log(`${upgrades.length - incompatible} of ${upgrades.length} upgrade checks passed`);
+process.exit(failed > 0 || incompatible > 0 ? 1 : 0);
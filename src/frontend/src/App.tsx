@@ -3,7 +3,10 @@ import { Footer } from './components/Footer';
 import { Dashboard } from './pages/Dashboard';
 import { AnalysisPage } from './pages/AnalysisPage';
 import { MetricsPage } from './pages/MetricsPage';
+import { LabelingPage } from './pages/LabelingPage';
 import { SettingsPage } from './pages/SettingsPage';
+import { AccessControlPage } from './pages/AccessControlPage';
+import { SlangLexiconPage } from './pages/SlangLexiconPage';
 import { PurchaseIntentionPage } from './pages/PurchaseIntentionPage';
 import { StrategicRecommendationReportPage } from './pages/StrategicRecommendationReportPage';
 import { Toaster } from '@/components/ui/sonner';
@@ -44,12 +47,30 @@ const metricsRoute = createRoute({
   component: MetricsPage,
 });
 
+const labelingRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/labeling',
+  component: LabelingPage,
+});
+
 const settingsRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/settings',
   component: SettingsPage,
 });
 
+const accessRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/access',
+  component: AccessControlPage,
+});
+
+const lexiconRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/lexicon',
+  component: SlangLexiconPage,
+});
+
 const purchaseIntentionRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/purchase-intention',
@@ -66,7 +87,10 @@ const routeTree = rootRoute.addChildren([
   indexRoute,
   analysisRoute,
   metricsRoute,
+  labelingRoute,
   settingsRoute,
+  accessRoute,
+  lexiconRoute,
   purchaseIntentionRoute,
   reportRoute,
 ]);
@@ -7,88 +7,321 @@ export interface None {
     __kind__: "None";
 }
 export type Option<T> = Some<T> | None;
-export interface IntentionTrend {
-    id: bigint;
-    trend: bigint;
-    intentionLevel: string;
-}
 export interface ConfusionMatrixResult {
     model: string;
     confusionMatrix: Array<Array<number>>;
     emotions: Array<string>;
     confusionMatrixRaw: Array<Array<bigint>>;
 }
-export interface PurchaseIntention {
-    level: string;
-    score: bigint;
-    gender?: string;
-    brand?: string;
-    location?: string;
-}
 export interface Document {
     id: bigint;
     content: string;
+    datasetId: bigint;
+    metadata: DocumentMetadata;
     author: Principal;
     timestamp: bigint;
+    analysis: BertResult;
+}
+export interface DocumentInput {
+    content: string;
+    metadata: DocumentMetadata;
 }
 export type Principal = Principal;
-export interface PurchaseIntentionDistribution {
-    low: bigint;
-    high: bigint;
-    medium: bigint;
+export interface DocumentMetadata {
+    region?: string;
+    likeCount?: bigint;
+    originalDate?: string;
+    intentionLevel?: string;
+    aspectCategory?: string;
+    intentionScore?: bigint;
+    source?: string;
+    externalId?: string;
+    user?: string;
+    publishedAt?: bigint;
+    keywords: Array<string>;
+    goldEmotion?: string;
+    replyCount?: bigint;
+    replyToId?: string;
+    threadId?: string;
 }
 export interface BertResult {
     emotion: string;
     brandSpecific?: string;
+    scores: Array<EmotionScore>;
     confidence: number;
 }
-export interface BrandIntentionCorrelation {
-    low: bigint;
-    high: bigint;
-    brand: string;
-    medium: bigint;
+export interface EmotionScore {
+    probability: number;
+    emotion: string;
 }
-export interface IntentionResult {
-    brandCorrelation: Array<BrandIntentionCorrelation>;
-    trends: Array<IntentionTrend>;
-    individual: PurchaseIntention;
-    distribution: PurchaseIntentionDistribution;
+export interface CleaningLog {
+    status: string;
+    step: string;
+    charactersRemoved: bigint;
+    timestamp: bigint;
+    rowsAffected: bigint;
+    samples: Array<CleaningSample>;
 }
-export interface GeoLocationDistribution {
-    data: Array<Array<number>>;
-    emotions: Array<string>;
-    locations: Array<string>;
+export interface CleaningSample {
+    after: string;
+    before: string;
+}
+export interface ModelPrediction {
+    model: string;
+    emotion: string;
+    predictedAt: bigint;
+    scores: Array<EmotionScore>;
+    modelVersion: string;
+    documentId: bigint;
+    confidence: number;
 }
-export interface GenderDistribution {
-    emotionDistribution: Array<GenderDistributionEntry>;
-    brandDistribution: Array<GenderDistributionEntry>;
+export interface ModelInfo {
+    name: string;
+    description: string;
+    version: string;
+    enabled: boolean;
 }
-export interface GenderDistributionEntry {
-    maleCount: number;
-    femaleCount: number;
-    category: string;
+export interface ModelWeight {
+    weight: number;
+    model: string;
 }
-export interface CleaningLog {
-    status: string;
-    step: string;
+export interface EnsembleInfo {
+    name: string;
+    description: string;
+    weights: Array<ModelWeight>;
+    version: string;
+    isDefault: boolean;
+}
+export interface Annotation {
+    emotion: string;
+    annotatedAt: bigint;
+    documentId: bigint;
+    annotator: Principal;
+}
+export interface AnnotationCandidate {
+    content: string;
+    disagreement: number;
+    emotion: string;
+    predictions: Array<ModelPrediction>;
+    documentId: bigint;
+    priority: number;
+    confidence: number;
+}
+export interface AgreementScore {
+    emotion: string;
+    fleissKappa: number;
+    krippendorffAlpha: number;
+}
+export interface AgreementReport {
+    documents: bigint;
+    fleissKappa: number;
+    annotations: bigint;
+    annotators: bigint;
+    krippendorffAlpha: number;
+    perEmotion: Array<AgreementScore>;
+}
+export interface ContestedDocument {
+    content: string;
+    agreement: number;
+    goldEmotion: string;
+    annotations: Array<Annotation>;
+    documentId: bigint;
+    adjudicated: boolean;
+}
+export interface DatasetInfo {
+    id: bigint;
+    name: string;
+    createdAt: bigint;
+    archived: boolean;
+    documentCount: bigint;
+}
+export enum Role {
+    owner = "owner",
+    analyst = "analyst",
+    viewer = "viewer"
+}
+export interface DatasetMember {
+    principal: Principal;
+    assignedAt: bigint;
+    assignedBy: Principal;
+    role: Role;
+}
+export interface AuditEntry {
+    id: bigint;
+    action: string;
+    datasetId?: bigint;
+    target: string;
     timestamp: bigint;
+    caller: Principal;
+}
+export interface AuditFilter {
+    action?: string;
+    datasetId?: bigint;
+    since?: bigint;
+    until?: bigint;
+    caller?: Principal;
+}
+export interface AuditPage {
+    total: bigint;
+    entries: Array<AuditEntry>;
+}
+export interface TrashedDocumentInfo {
+    content: string;
+    expiresAt: bigint;
+    datasetId: bigint;
+    author: Principal;
+    documentId: bigint;
+    deletedAt: bigint;
+    deletedBy: Principal;
+}
+export interface TrashedDatasetInfo {
+    id: bigint;
+    expiresAt: bigint;
+    name: string;
+    deletedAt: bigint;
+    deletedBy: Principal;
+    documentCount: bigint;
+}
+export interface DocumentFilter {
+    region?: string;
+    source?: string;
+    text?: string;
+    emotion?: string;
+    until?: bigint;
+    since?: bigint;
+    brand?: string;
+}
+export enum DocumentSort {
+    newest = "newest",
+    oldest = "oldest",
+    mostConfident = "mostConfident",
+    leastConfident = "leastConfident"
+}
+export interface DocumentCursor {
+    date: bigint;
+    documentId: bigint;
+    confidence: number;
+}
+export interface SnippetSegment {
+    text: string;
+    highlighted: boolean;
+}
+export interface DocumentSnippet {
+    segments: Array<SnippetSegment>;
+    documentId: bigint;
+}
+export interface DocumentPage {
+    total: bigint;
+    nextCursor?: DocumentCursor;
+    documents: Array<Document>;
+    snippets: Array<DocumentSnippet>;
+}
+export interface UploadSessionInfo {
+    id: bigint;
+    createdAt: bigint;
+    totalChunks: bigint;
+    datasetId: bigint;
+    receivedChunks: Array<bigint>;
+    documentCount: bigint;
+}
+export interface FileDiagnostics {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn?: bigint;
+}
+export interface DatasetFileInput {
+    contentHash: string;
+    blob: ExternalBlob;
+    size: bigint;
+    filename: string;
+    diagnostics: FileDiagnostics;
+}
+export interface DatasetFile {
+    id: bigint;
+    contentHash: string;
+    blob: ExternalBlob;
+    documentIds: Array<bigint>;
+    size: bigint;
+    filename: string;
+    datasetId: bigint;
+    diagnostics: FileDiagnostics;
+    processedAt?: bigint;
+    uploadedAt: bigint;
+    uploadedBy: Principal;
+}
+export interface UploadSource {
+    fileId: bigint;
+    diagnostics: FileDiagnostics;
+}
+export interface SlangEntry {
+    updatedAt: bigint;
+    updatedBy: Principal;
+    slang: string;
+    standard: string;
 }
 export interface backendInterface {
-    addCleaningLog(_logs: Array<CleaningLog>): Promise<bigint>;
-    analyzeGenderDistribution(): Promise<GenderDistribution>;
-    analyzeGeoDistribution(_texts: Array<Array<string>>): Promise<GeoLocationDistribution>;
+    abortUploadSession(sessionId: bigint): Promise<void>;
+    addCleaningLog(datasetId: bigint, _logs: Array<CleaningLog>): Promise<bigint>;
+    addDatasetFile(datasetId: bigint, input: DatasetFileInput): Promise<bigint>;
+    adjudicateDocument(documentId: bigint, emotion: string): Promise<void>;
     analyzeText(input: string): Promise<BertResult>;
-    batchUploadDocuments(contents: Array<string>): Promise<Array<bigint>>;
-    calculateIntention(input: string, gender: string, location: string, brand: string): Promise<IntentionResult>;
+    annotateDocument(documentId: bigint, emotion: string): Promise<Annotation>;
+    appendUploadChunk(sessionId: bigint, chunkIndex: bigint, records: Array<DocumentInput>): Promise<Array<bigint>>;
+    assignDatasetRole(datasetId: bigint, principal: Principal, role: Role): Promise<void>;
+    batchUploadDocumentRecords(datasetId: bigint, records: Array<DocumentInput>): Promise<Array<bigint>>;
+    batchUploadDocuments(datasetId: bigint, contents: Array<string>): Promise<Array<bigint>>;
+    beginUploadSession(datasetId: bigint, totalChunks: bigint, source: UploadSource | null): Promise<bigint>;
+    commitUploadSession(sessionId: bigint): Promise<Array<bigint>>;
+    createDataset(name: string): Promise<DatasetInfo>;
+    deleteDataset(datasetId: bigint): Promise<void>;
     deleteDocument(id: bigint): Promise<boolean>;
-    getAllDocuments(): Promise<Array<Document>>;
+    getAgreementReport(datasetId: bigint): Promise<AgreementReport>;
+    getAllDocuments(datasetId: bigint): Promise<Array<Document>>;
+    getAnnotationQueue(datasetId: bigint, limit: bigint): Promise<Array<AnnotationCandidate>>;
+    getAnnotations(documentId: bigint): Promise<Array<Annotation>>;
+    getAuditLog(filter: AuditFilter, offset: bigint, limit: bigint): Promise<AuditPage>;
+    getCallerRole(datasetId: bigint): Promise<Role | null>;
     getCleaningLog(id: bigint): Promise<Array<CleaningLog> | null>;
-    getConfusionMatrix(modelName: string): Promise<ConfusionMatrixResult>;
+    getConfusionMatrix(datasetId: bigint, modelName: string): Promise<ConfusionMatrixResult>;
+    getContestedDocuments(datasetId: bigint): Promise<Array<ContestedDocument>>;
     getDocument(id: bigint): Promise<Document | null>;
-    getLatestCleaningLog(): Promise<Array<CleaningLog> | null>;
+    getDocumentPredictions(documentId: bigint): Promise<Array<ModelPrediction>>;
+    getEnsemblePredictions(documentId: bigint): Promise<Array<ModelPrediction>>;
+    getLatestCleaningLog(datasetId: bigint): Promise<Array<CleaningLog> | null>;
+    getModelPredictions(datasetId: bigint, model: string): Promise<Array<ModelPrediction>>;
+    getStateVersion(): Promise<bigint>;
+    getUploadSession(sessionId: bigint): Promise<UploadSessionInfo | null>;
+    isCallerAdministrator(): Promise<boolean>;
+    listAnnotations(datasetId: bigint): Promise<Array<Annotation>>;
+    listDatasetFiles(datasetId: bigint): Promise<Array<DatasetFile>>;
+    listDatasetMembers(datasetId: bigint): Promise<Array<DatasetMember>>;
+    listDatasets(): Promise<Array<DatasetInfo>>;
+    listEnsembles(): Promise<Array<EnsembleInfo>>;
+    listModels(): Promise<Array<ModelInfo>>;
+    listSlangEntries(): Promise<Array<SlangEntry>>;
+    listTrashedDatasets(): Promise<Array<TrashedDatasetInfo>>;
+    listTrashedDocuments(datasetId: bigint): Promise<Array<TrashedDocumentInfo>>;
     processCorrect(text: string): Promise<void>;
-    processIncorrect(_content: string, model: string, actualEmotion: string, predictedEmotion: string): Promise<void>;
+    processIncorrect(datasetId: bigint, _content: string, model: string, actualEmotion: string, predictedEmotion: string): Promise<void>;
+    purgeDataset(datasetId: bigint): Promise<void>;
+    purgeDocument(id: bigint): Promise<void>;
+    purgeExpiredTrash(): Promise<bigint>;
+    queryDocuments(datasetId: bigint, filter: DocumentFilter, sort: DocumentSort, cursor: DocumentCursor | null, limit: bigint): Promise<DocumentPage>;
+    recordFeedback(documentId: bigint, goldEmotion: string): Promise<void>;
+    removeDatasetMember(datasetId: bigint, principal: Principal): Promise<void>;
+    removeSlangEntry(slang: string): Promise<void>;
+    renameDataset(datasetId: bigint, name: string): Promise<void>;
+    rerunModels(): Promise<bigint>;
     resetAllData(): Promise<void>;
-    resetModelData(modelName: string): Promise<void>;
-    uploadDocument(content: string): Promise<bigint>;
+    resetModelData(datasetId: bigint, modelName: string): Promise<void>;
+    restoreDataset(datasetId: bigint): Promise<void>;
+    restoreDocument(id: bigint): Promise<void>;
+    setAdministrator(principal: Principal): Promise<void>;
+    setDatasetArchived(datasetId: bigint, archived: boolean): Promise<void>;
+    setDefaultEnsemble(name: string): Promise<void>;
+    setModelEnabled(name: string, enabled: boolean): Promise<void>;
+    setSlangEntry(slang: string, standard: string): Promise<SlangEntry>;
+    uploadDocument(datasetId: bigint, content: string): Promise<bigint>;
 }
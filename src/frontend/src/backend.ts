@@ -89,83 +89,271 @@ export class ExternalBlob {
         return this;
     }
 }
-export interface IntentionTrend {
-    id: bigint;
-    trend: bigint;
-    intentionLevel: string;
-}
 export interface ConfusionMatrixResult {
     model: string;
     confusionMatrix: Array<Array<number>>;
     emotions: Array<string>;
     confusionMatrixRaw: Array<Array<bigint>>;
 }
-export interface PurchaseIntention {
-    level: string;
-    score: bigint;
-    gender?: string;
-    brand?: string;
-    location?: string;
-}
 export interface _CaffeineStorageRefillInformation {
     proposed_top_up_amount?: bigint;
 }
 export interface Document {
     id: bigint;
     content: string;
+    datasetId: bigint;
+    metadata: DocumentMetadata;
     author: Principal;
     timestamp: bigint;
+    analysis: BertResult;
 }
-export type Principal = Principal;
-export interface PurchaseIntentionDistribution {
-    low: bigint;
-    high: bigint;
-    medium: bigint;
+export interface DocumentInput {
+    content: string;
+    metadata: DocumentMetadata;
 }
+export type Principal = Principal;
 export interface _CaffeineStorageCreateCertificateResult {
     method: string;
     blob_hash: string;
 }
+export interface DocumentMetadata {
+    region?: string;
+    likeCount?: bigint;
+    originalDate?: string;
+    intentionLevel?: string;
+    aspectCategory?: string;
+    intentionScore?: bigint;
+    source?: string;
+    externalId?: string;
+    user?: string;
+    publishedAt?: bigint;
+    keywords: Array<string>;
+    goldEmotion?: string;
+    replyCount?: bigint;
+    replyToId?: string;
+    threadId?: string;
+}
 export interface BertResult {
     emotion: string;
     brandSpecific?: string;
+    scores: Array<EmotionScore>;
     confidence: number;
 }
-export interface BrandIntentionCorrelation {
-    low: bigint;
-    high: bigint;
-    brand: string;
-    medium: bigint;
-}
-export interface IntentionResult {
-    brandCorrelation: Array<BrandIntentionCorrelation>;
-    trends: Array<IntentionTrend>;
-    individual: PurchaseIntention;
-    distribution: PurchaseIntentionDistribution;
-}
-export interface GeoLocationDistribution {
-    data: Array<Array<number>>;
-    emotions: Array<string>;
-    locations: Array<string>;
-}
-export interface GenderDistribution {
-    emotionDistribution: Array<GenderDistributionEntry>;
-    brandDistribution: Array<GenderDistributionEntry>;
-}
-export interface GenderDistributionEntry {
-    maleCount: number;
-    femaleCount: number;
-    category: string;
+export interface EmotionScore {
+    probability: number;
+    emotion: string;
 }
 export interface CleaningLog {
     status: string;
     step: string;
+    charactersRemoved: bigint;
     timestamp: bigint;
+    rowsAffected: bigint;
+    samples: Array<CleaningSample>;
+}
+export interface CleaningSample {
+    after: string;
+    before: string;
 }
 export interface _CaffeineStorageRefillResult {
     success?: boolean;
     topped_up_amount?: bigint;
 }
+export interface ModelPrediction {
+    model: string;
+    emotion: string;
+    predictedAt: bigint;
+    scores: Array<EmotionScore>;
+    modelVersion: string;
+    documentId: bigint;
+    confidence: number;
+}
+export interface ModelInfo {
+    name: string;
+    description: string;
+    version: string;
+    enabled: boolean;
+}
+export interface ModelWeight {
+    weight: number;
+    model: string;
+}
+export interface EnsembleInfo {
+    name: string;
+    description: string;
+    weights: Array<ModelWeight>;
+    version: string;
+    isDefault: boolean;
+}
+export interface Annotation {
+    emotion: string;
+    annotatedAt: bigint;
+    documentId: bigint;
+    annotator: Principal;
+}
+export interface AnnotationCandidate {
+    content: string;
+    disagreement: number;
+    emotion: string;
+    predictions: Array<ModelPrediction>;
+    documentId: bigint;
+    priority: number;
+    confidence: number;
+}
+export interface AgreementScore {
+    emotion: string;
+    fleissKappa: number;
+    krippendorffAlpha: number;
+}
+export interface AgreementReport {
+    documents: bigint;
+    fleissKappa: number;
+    annotations: bigint;
+    annotators: bigint;
+    krippendorffAlpha: number;
+    perEmotion: Array<AgreementScore>;
+}
+export interface ContestedDocument {
+    content: string;
+    agreement: number;
+    goldEmotion: string;
+    annotations: Array<Annotation>;
+    documentId: bigint;
+    adjudicated: boolean;
+}
+export interface DatasetInfo {
+    id: bigint;
+    name: string;
+    createdAt: bigint;
+    archived: boolean;
+    documentCount: bigint;
+}
+export enum Role {
+    owner = "owner",
+    analyst = "analyst",
+    viewer = "viewer"
+}
+export interface DatasetMember {
+    principal: Principal;
+    assignedAt: bigint;
+    assignedBy: Principal;
+    role: Role;
+}
+export interface AuditEntry {
+    id: bigint;
+    action: string;
+    datasetId?: bigint;
+    target: string;
+    timestamp: bigint;
+    caller: Principal;
+}
+export interface AuditFilter {
+    action?: string;
+    datasetId?: bigint;
+    since?: bigint;
+    until?: bigint;
+    caller?: Principal;
+}
+export interface AuditPage {
+    total: bigint;
+    entries: Array<AuditEntry>;
+}
+export interface TrashedDocumentInfo {
+    content: string;
+    expiresAt: bigint;
+    datasetId: bigint;
+    author: Principal;
+    documentId: bigint;
+    deletedAt: bigint;
+    deletedBy: Principal;
+}
+export interface TrashedDatasetInfo {
+    id: bigint;
+    expiresAt: bigint;
+    name: string;
+    deletedAt: bigint;
+    deletedBy: Principal;
+    documentCount: bigint;
+}
+export interface DocumentFilter {
+    region?: string;
+    source?: string;
+    text?: string;
+    emotion?: string;
+    until?: bigint;
+    since?: bigint;
+    brand?: string;
+}
+export enum DocumentSort {
+    newest = "newest",
+    oldest = "oldest",
+    mostConfident = "mostConfident",
+    leastConfident = "leastConfident"
+}
+export interface DocumentCursor {
+    date: bigint;
+    documentId: bigint;
+    confidence: number;
+}
+export interface SnippetSegment {
+    text: string;
+    highlighted: boolean;
+}
+export interface DocumentSnippet {
+    segments: Array<SnippetSegment>;
+    documentId: bigint;
+}
+export interface DocumentPage {
+    total: bigint;
+    nextCursor?: DocumentCursor;
+    documents: Array<Document>;
+    snippets: Array<DocumentSnippet>;
+}
+export interface UploadSessionInfo {
+    id: bigint;
+    createdAt: bigint;
+    totalChunks: bigint;
+    datasetId: bigint;
+    receivedChunks: Array<bigint>;
+    documentCount: bigint;
+}
+export interface FileDiagnostics {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn?: bigint;
+}
+export interface DatasetFileInput {
+    contentHash: string;
+    blob: ExternalBlob;
+    size: bigint;
+    filename: string;
+    diagnostics: FileDiagnostics;
+}
+export interface DatasetFile {
+    id: bigint;
+    contentHash: string;
+    blob: ExternalBlob;
+    documentIds: Array<bigint>;
+    size: bigint;
+    filename: string;
+    datasetId: bigint;
+    diagnostics: FileDiagnostics;
+    processedAt?: bigint;
+    uploadedAt: bigint;
+    uploadedBy: Principal;
+}
+export interface UploadSource {
+    fileId: bigint;
+    diagnostics: FileDiagnostics;
+}
+export interface SlangEntry {
+    updatedAt: bigint;
+    updatedBy: Principal;
+    slang: string;
+    standard: string;
+}
 export interface backendInterface {
     _caffeineStorageBlobIsLive(hash: Uint8Array): Promise<boolean>;
     _caffeineStorageBlobsToDelete(): Promise<Array<Uint8Array>>;
@@ -173,25 +361,70 @@ export interface backendInterface {
     _caffeineStorageCreateCertificate(blobHash: string): Promise<_CaffeineStorageCreateCertificateResult>;
     _caffeineStorageRefillCashier(refillInformation: _CaffeineStorageRefillInformation | null): Promise<_CaffeineStorageRefillResult>;
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
-    addCleaningLog(_logs: Array<CleaningLog>): Promise<bigint>;
-    analyzeGenderDistribution(): Promise<GenderDistribution>;
-    analyzeGeoDistribution(_texts: Array<Array<string>>): Promise<GeoLocationDistribution>;
+    abortUploadSession(sessionId: bigint): Promise<void>;
+    addCleaningLog(datasetId: bigint, _logs: Array<CleaningLog>): Promise<bigint>;
+    addDatasetFile(datasetId: bigint, input: DatasetFileInput): Promise<bigint>;
+    adjudicateDocument(documentId: bigint, emotion: string): Promise<void>;
     analyzeText(input: string): Promise<BertResult>;
-    batchUploadDocuments(contents: Array<string>): Promise<Array<bigint>>;
-    calculateIntention(input: string, gender: string, location: string, brand: string): Promise<IntentionResult>;
+    annotateDocument(documentId: bigint, emotion: string): Promise<Annotation>;
+    appendUploadChunk(sessionId: bigint, chunkIndex: bigint, records: Array<DocumentInput>): Promise<Array<bigint>>;
+    assignDatasetRole(datasetId: bigint, principal: Principal, role: Role): Promise<void>;
+    batchUploadDocumentRecords(datasetId: bigint, records: Array<DocumentInput>): Promise<Array<bigint>>;
+    batchUploadDocuments(datasetId: bigint, contents: Array<string>): Promise<Array<bigint>>;
+    beginUploadSession(datasetId: bigint, totalChunks: bigint, source: UploadSource | null): Promise<bigint>;
+    commitUploadSession(sessionId: bigint): Promise<Array<bigint>>;
+    createDataset(name: string): Promise<DatasetInfo>;
+    deleteDataset(datasetId: bigint): Promise<void>;
     deleteDocument(id: bigint): Promise<boolean>;
-    getAllDocuments(): Promise<Array<Document>>;
+    getAgreementReport(datasetId: bigint): Promise<AgreementReport>;
+    getAllDocuments(datasetId: bigint): Promise<Array<Document>>;
+    getAnnotationQueue(datasetId: bigint, limit: bigint): Promise<Array<AnnotationCandidate>>;
+    getAnnotations(documentId: bigint): Promise<Array<Annotation>>;
+    getAuditLog(filter: AuditFilter, offset: bigint, limit: bigint): Promise<AuditPage>;
+    getCallerRole(datasetId: bigint): Promise<Role | null>;
     getCleaningLog(id: bigint): Promise<Array<CleaningLog> | null>;
-    getConfusionMatrix(modelName: string): Promise<ConfusionMatrixResult>;
+    getConfusionMatrix(datasetId: bigint, modelName: string): Promise<ConfusionMatrixResult>;
+    getContestedDocuments(datasetId: bigint): Promise<Array<ContestedDocument>>;
     getDocument(id: bigint): Promise<Document | null>;
-    getLatestCleaningLog(): Promise<Array<CleaningLog> | null>;
+    getDocumentPredictions(documentId: bigint): Promise<Array<ModelPrediction>>;
+    getEnsemblePredictions(documentId: bigint): Promise<Array<ModelPrediction>>;
+    getLatestCleaningLog(datasetId: bigint): Promise<Array<CleaningLog> | null>;
+    getModelPredictions(datasetId: bigint, model: string): Promise<Array<ModelPrediction>>;
+    getStateVersion(): Promise<bigint>;
+    getUploadSession(sessionId: bigint): Promise<UploadSessionInfo | null>;
+    isCallerAdministrator(): Promise<boolean>;
+    listAnnotations(datasetId: bigint): Promise<Array<Annotation>>;
+    listDatasetFiles(datasetId: bigint): Promise<Array<DatasetFile>>;
+    listDatasetMembers(datasetId: bigint): Promise<Array<DatasetMember>>;
+    listDatasets(): Promise<Array<DatasetInfo>>;
+    listEnsembles(): Promise<Array<EnsembleInfo>>;
+    listModels(): Promise<Array<ModelInfo>>;
+    listSlangEntries(): Promise<Array<SlangEntry>>;
+    listTrashedDatasets(): Promise<Array<TrashedDatasetInfo>>;
+    listTrashedDocuments(datasetId: bigint): Promise<Array<TrashedDocumentInfo>>;
     processCorrect(text: string): Promise<void>;
-    processIncorrect(_content: string, model: string, actualEmotion: string, predictedEmotion: string): Promise<void>;
+    processIncorrect(datasetId: bigint, _content: string, model: string, actualEmotion: string, predictedEmotion: string): Promise<void>;
+    purgeDataset(datasetId: bigint): Promise<void>;
+    purgeDocument(id: bigint): Promise<void>;
+    purgeExpiredTrash(): Promise<bigint>;
+    queryDocuments(datasetId: bigint, filter: DocumentFilter, sort: DocumentSort, cursor: DocumentCursor | null, limit: bigint): Promise<DocumentPage>;
+    recordFeedback(documentId: bigint, goldEmotion: string): Promise<void>;
+    removeDatasetMember(datasetId: bigint, principal: Principal): Promise<void>;
+    removeSlangEntry(slang: string): Promise<void>;
+    renameDataset(datasetId: bigint, name: string): Promise<void>;
+    rerunModels(): Promise<bigint>;
     resetAllData(): Promise<void>;
-    resetModelData(modelName: string): Promise<void>;
-    uploadDocument(content: string): Promise<bigint>;
+    resetModelData(datasetId: bigint, modelName: string): Promise<void>;
+    restoreDataset(datasetId: bigint): Promise<void>;
+    restoreDocument(id: bigint): Promise<void>;
+    setAdministrator(principal: Principal): Promise<void>;
+    setDatasetArchived(datasetId: bigint, archived: boolean): Promise<void>;
+    setDefaultEnsemble(name: string): Promise<void>;
+    setModelEnabled(name: string, enabled: boolean): Promise<void>;
+    setSlangEntry(slang: string, standard: string): Promise<SlangEntry>;
+    uploadDocument(datasetId: bigint, content: string): Promise<bigint>;
 }
-import type { BertResult as _BertResult, BrandIntentionCorrelation as _BrandIntentionCorrelation, CleaningLog as _CleaningLog, Document as _Document, IntentionResult as _IntentionResult, IntentionTrend as _IntentionTrend, PurchaseIntention as _PurchaseIntention, PurchaseIntentionDistribution as _PurchaseIntentionDistribution, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { AuditEntry as _AuditEntry, AuditFilter as _AuditFilter, AuditPage as _AuditPage, BertResult as _BertResult, CleaningLog as _CleaningLog, DatasetFile as _DatasetFile, DatasetFileInput as _DatasetFileInput, DatasetMember as _DatasetMember, Document as _Document, DocumentCursor as _DocumentCursor, DocumentFilter as _DocumentFilter, DocumentInput as _DocumentInput, DocumentMetadata as _DocumentMetadata, DocumentPage as _DocumentPage, DocumentSnippet as _DocumentSnippet, DocumentSort as _DocumentSort, EmotionScore as _EmotionScore, ExternalBlob as _ExternalBlob, FileDiagnostics as _FileDiagnostics, Role as _Role, UploadSessionInfo as _UploadSessionInfo, UploadSource as _UploadSource, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -278,45 +511,59 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addCleaningLog(arg0: Array<CleaningLog>): Promise<bigint> {
+    async abortUploadSession(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addCleaningLog(arg0);
+                const result = await this.actor.abortUploadSession(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addCleaningLog(arg0);
+            const result = await this.actor.abortUploadSession(arg0);
             return result;
         }
     }
-    async analyzeGenderDistribution(): Promise<GenderDistribution> {
+    async addCleaningLog(arg0: bigint, arg1: Array<CleaningLog>): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.analyzeGenderDistribution();
+                const result = await this.actor.addCleaningLog(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.analyzeGenderDistribution();
+            const result = await this.actor.addCleaningLog(arg0, arg1);
             return result;
         }
     }
-    async analyzeGeoDistribution(arg0: Array<Array<string>>): Promise<GeoLocationDistribution> {
+    async addDatasetFile(arg0: bigint, arg1: DatasetFileInput): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.analyzeGeoDistribution(arg0);
+                const result = await this.actor.addDatasetFile(arg0, await to_candid_DatasetFileInput_n57(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.analyzeGeoDistribution(arg0);
+            const result = await this.actor.addDatasetFile(arg0, await to_candid_DatasetFileInput_n57(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async adjudicateDocument(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.adjudicateDocument(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.adjudicateDocument(arg0, arg1);
             return result;
         }
     }
@@ -334,32 +581,130 @@ export class Backend implements backendInterface {
             return from_candid_BertResult_n8(this._uploadFile, this._downloadFile, result);
         }
     }
-    async batchUploadDocuments(arg0: Array<string>): Promise<Array<bigint>> {
+    async annotateDocument(arg0: bigint, arg1: string): Promise<Annotation> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.annotateDocument(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.annotateDocument(arg0, arg1);
+            return result;
+        }
+    }
+    async appendUploadChunk(arg0: bigint, arg1: bigint, arg2: Array<DocumentInput>): Promise<Array<bigint>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.appendUploadChunk(arg0, arg1, to_candid_vec_n17(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.appendUploadChunk(arg0, arg1, to_candid_vec_n17(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async assignDatasetRole(arg0: bigint, arg1: Principal, arg2: Role): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.assignDatasetRole(arg0, arg1, to_candid_Role_n34(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.assignDatasetRole(arg0, arg1, to_candid_Role_n34(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async batchUploadDocumentRecords(arg0: bigint, arg1: Array<DocumentInput>): Promise<Array<bigint>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.batchUploadDocumentRecords(arg0, to_candid_vec_n17(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.batchUploadDocumentRecords(arg0, to_candid_vec_n17(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async batchUploadDocuments(arg0: bigint, arg1: Array<string>): Promise<Array<bigint>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.batchUploadDocuments(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.batchUploadDocuments(arg0, arg1);
+            return result;
+        }
+    }
+    async beginUploadSession(arg0: bigint, arg1: bigint, arg2: UploadSource | null): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.beginUploadSession(arg0, arg1, to_candid_opt_n52(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.beginUploadSession(arg0, arg1, to_candid_opt_n52(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async commitUploadSession(arg0: bigint): Promise<Array<bigint>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.commitUploadSession(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.commitUploadSession(arg0);
+            return result;
+        }
+    }
+    async createDataset(arg0: string): Promise<DatasetInfo> {
         if (this.processError) {
             try {
-                const result = await this.actor.batchUploadDocuments(arg0);
+                const result = await this.actor.createDataset(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.batchUploadDocuments(arg0);
+            const result = await this.actor.createDataset(arg0);
             return result;
         }
     }
-    async calculateIntention(arg0: string, arg1: string, arg2: string, arg3: string): Promise<IntentionResult> {
+    async deleteDataset(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.calculateIntention(arg0, arg1, arg2, arg3);
-                return from_candid_IntentionResult_n11(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteDataset(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.calculateIntention(arg0, arg1, arg2, arg3);
-            return from_candid_IntentionResult_n11(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteDataset(arg0);
+            return result;
         }
     }
     async deleteDocument(arg0: bigint): Promise<boolean> {
@@ -376,20 +721,90 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async getAllDocuments(): Promise<Array<Document>> {
+    async getAgreementReport(arg0: bigint): Promise<AgreementReport> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAgreementReport(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAgreementReport(arg0);
+            return result;
+        }
+    }
+    async getAllDocuments(arg0: bigint): Promise<Array<Document>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAllDocuments(arg0);
+                return from_candid_vec_n23(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAllDocuments(arg0);
+            return from_candid_vec_n23(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getAnnotationQueue(arg0: bigint, arg1: bigint): Promise<Array<AnnotationCandidate>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAnnotationQueue(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAnnotationQueue(arg0, arg1);
+            return result;
+        }
+    }
+    async getAnnotations(arg0: bigint): Promise<Array<Annotation>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllDocuments();
+                const result = await this.actor.getAnnotations(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllDocuments();
+            const result = await this.actor.getAnnotations(arg0);
             return result;
         }
     }
+    async getAuditLog(arg0: AuditFilter, arg1: bigint, arg2: bigint): Promise<AuditPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAuditLog(to_candid_AuditFilter_n36(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+                return from_candid_AuditPage_n38(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAuditLog(to_candid_AuditFilter_n36(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+            return from_candid_AuditPage_n38(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerRole(arg0: bigint): Promise<Role | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerRole(arg0);
+                return from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerRole(arg0);
+            return from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async getCleaningLog(arg0: bigint): Promise<Array<CleaningLog> | null> {
         if (this.processError) {
             try {
@@ -404,17 +819,31 @@ export class Backend implements backendInterface {
             return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getConfusionMatrix(arg0: string): Promise<ConfusionMatrixResult> {
+    async getConfusionMatrix(arg0: bigint, arg1: string): Promise<ConfusionMatrixResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getConfusionMatrix(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getConfusionMatrix(arg0, arg1);
+            return result;
+        }
+    }
+    async getContestedDocuments(arg0: bigint): Promise<Array<ContestedDocument>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getConfusionMatrix(arg0);
+                const result = await this.actor.getContestedDocuments(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getConfusionMatrix(arg0);
+            const result = await this.actor.getContestedDocuments(arg0);
             return result;
         }
     }
@@ -432,110 +861,574 @@ export class Backend implements backendInterface {
             return from_candid_opt_n16(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getLatestCleaningLog(): Promise<Array<CleaningLog> | null> {
+    async getDocumentPredictions(arg0: bigint): Promise<Array<ModelPrediction>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getLatestCleaningLog();
-                return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getDocumentPredictions(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getLatestCleaningLog();
-            return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getDocumentPredictions(arg0);
+            return result;
         }
     }
-    async processCorrect(arg0: string): Promise<void> {
+    async getEnsemblePredictions(arg0: bigint): Promise<Array<ModelPrediction>> {
         if (this.processError) {
             try {
-                const result = await this.actor.processCorrect(arg0);
+                const result = await this.actor.getEnsemblePredictions(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.processCorrect(arg0);
+            const result = await this.actor.getEnsemblePredictions(arg0);
             return result;
         }
     }
-    async processIncorrect(arg0: string, arg1: string, arg2: string, arg3: string): Promise<void> {
+    async getLatestCleaningLog(arg0: bigint): Promise<Array<CleaningLog> | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getLatestCleaningLog(arg0);
+                return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getLatestCleaningLog(arg0);
+            return from_candid_opt_n15(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getModelPredictions(arg0: bigint, arg1: string): Promise<Array<ModelPrediction>> {
         if (this.processError) {
             try {
-                const result = await this.actor.processIncorrect(arg0, arg1, arg2, arg3);
+                const result = await this.actor.getModelPredictions(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.processIncorrect(arg0, arg1, arg2, arg3);
+            const result = await this.actor.getModelPredictions(arg0, arg1);
             return result;
         }
     }
-    async resetAllData(): Promise<void> {
+    async getStateVersion(): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.resetAllData();
+                const result = await this.actor.getStateVersion();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.resetAllData();
+            const result = await this.actor.getStateVersion();
             return result;
         }
     }
-    async resetModelData(arg0: string): Promise<void> {
+    async getUploadSession(arg0: bigint): Promise<UploadSessionInfo | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUploadSession(arg0);
+                return from_candid_opt_n51(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUploadSession(arg0);
+            return from_candid_opt_n51(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async isCallerAdministrator(): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.resetModelData(arg0);
+                const result = await this.actor.isCallerAdministrator();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.resetModelData(arg0);
+            const result = await this.actor.isCallerAdministrator();
             return result;
         }
     }
-    async uploadDocument(arg0: string): Promise<bigint> {
+    async listAnnotations(arg0: bigint): Promise<Array<Annotation>> {
         if (this.processError) {
             try {
-                const result = await this.actor.uploadDocument(arg0);
+                const result = await this.actor.listAnnotations(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.uploadDocument(arg0);
+            const result = await this.actor.listAnnotations(arg0);
             return result;
         }
     }
-}
-function from_candid_BertResult_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BertResult): BertResult {
-    return from_candid_record_n9(_uploadFile, _downloadFile, value);
-}
-function from_candid_IntentionResult_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _IntentionResult): IntentionResult {
-    return from_candid_record_n12(_uploadFile, _downloadFile, value);
-}
-function from_candid_PurchaseIntention_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PurchaseIntention): PurchaseIntention {
-    return from_candid_record_n14(_uploadFile, _downloadFile, value);
-}
-function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
-    return from_candid_record_n5(_uploadFile, _downloadFile, value);
-}
-function from_candid_opt_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
-    return value.length === 0 ? null : value[0];
-}
+    async listDatasetFiles(arg0: bigint): Promise<Array<DatasetFile>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDatasetFiles(arg0);
+                return await from_candid_vec_n59(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDatasetFiles(arg0);
+            return await from_candid_vec_n59(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listDatasetMembers(arg0: bigint): Promise<Array<DatasetMember>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDatasetMembers(arg0);
+                return from_candid_vec_n31(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDatasetMembers(arg0);
+            return from_candid_vec_n31(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listDatasets(): Promise<Array<DatasetInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDatasets();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDatasets();
+            return result;
+        }
+    }
+    async listEnsembles(): Promise<Array<EnsembleInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listEnsembles();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listEnsembles();
+            return result;
+        }
+    }
+    async listModels(): Promise<Array<ModelInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listModels();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listModels();
+            return result;
+        }
+    }
+    async listSlangEntries(): Promise<Array<SlangEntry>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listSlangEntries();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listSlangEntries();
+            return result;
+        }
+    }
+    async listTrashedDatasets(): Promise<Array<TrashedDatasetInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTrashedDatasets();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTrashedDatasets();
+            return result;
+        }
+    }
+    async listTrashedDocuments(arg0: bigint): Promise<Array<TrashedDocumentInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listTrashedDocuments(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listTrashedDocuments(arg0);
+            return result;
+        }
+    }
+    async processCorrect(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.processCorrect(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.processCorrect(arg0);
+            return result;
+        }
+    }
+    async processIncorrect(arg0: bigint, arg1: string, arg2: string, arg3: string, arg4: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.processIncorrect(arg0, arg1, arg2, arg3, arg4);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.processIncorrect(arg0, arg1, arg2, arg3, arg4);
+            return result;
+        }
+    }
+    async purgeDataset(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.purgeDataset(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.purgeDataset(arg0);
+            return result;
+        }
+    }
+    async purgeDocument(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.purgeDocument(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.purgeDocument(arg0);
+            return result;
+        }
+    }
+    async purgeExpiredTrash(): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.purgeExpiredTrash();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.purgeExpiredTrash();
+            return result;
+        }
+    }
+    async queryDocuments(arg0: bigint, arg1: DocumentFilter, arg2: DocumentSort, arg3: DocumentCursor | null, arg4: bigint): Promise<DocumentPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.queryDocuments(arg0, to_candid_DocumentFilter_n43(this._uploadFile, this._downloadFile, arg1), to_candid_DocumentSort_n45(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n47(this._uploadFile, this._downloadFile, arg3), arg4);
+                return from_candid_DocumentPage_n48(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.queryDocuments(arg0, to_candid_DocumentFilter_n43(this._uploadFile, this._downloadFile, arg1), to_candid_DocumentSort_n45(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n47(this._uploadFile, this._downloadFile, arg3), arg4);
+            return from_candid_DocumentPage_n48(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async recordFeedback(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.recordFeedback(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.recordFeedback(arg0, arg1);
+            return result;
+        }
+    }
+    async removeDatasetMember(arg0: bigint, arg1: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeDatasetMember(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeDatasetMember(arg0, arg1);
+            return result;
+        }
+    }
+    async removeSlangEntry(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeSlangEntry(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeSlangEntry(arg0);
+            return result;
+        }
+    }
+    async renameDataset(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameDataset(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameDataset(arg0, arg1);
+            return result;
+        }
+    }
+    async rerunModels(): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.rerunModels();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.rerunModels();
+            return result;
+        }
+    }
+    async resetAllData(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetAllData();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetAllData();
+            return result;
+        }
+    }
+    async resetModelData(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetModelData(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetModelData(arg0, arg1);
+            return result;
+        }
+    }
+    async restoreDataset(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreDataset(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreDataset(arg0);
+            return result;
+        }
+    }
+    async restoreDocument(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.restoreDocument(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.restoreDocument(arg0);
+            return result;
+        }
+    }
+    async setAdministrator(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setAdministrator(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setAdministrator(arg0);
+            return result;
+        }
+    }
+    async setDatasetArchived(arg0: bigint, arg1: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setDatasetArchived(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setDatasetArchived(arg0, arg1);
+            return result;
+        }
+    }
+    async setDefaultEnsemble(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setDefaultEnsemble(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setDefaultEnsemble(arg0);
+            return result;
+        }
+    }
+    async setModelEnabled(arg0: string, arg1: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setModelEnabled(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setModelEnabled(arg0, arg1);
+            return result;
+        }
+    }
+    async setSlangEntry(arg0: string, arg1: string): Promise<SlangEntry> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setSlangEntry(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setSlangEntry(arg0, arg1);
+            return result;
+        }
+    }
+    async uploadDocument(arg0: bigint, arg1: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.uploadDocument(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.uploadDocument(arg0, arg1);
+            return result;
+        }
+    }
+}
+function from_candid_AuditEntry_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AuditEntry): AuditEntry {
+    return from_candid_record_n42(_uploadFile, _downloadFile, value);
+}
+function from_candid_AuditPage_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AuditPage): AuditPage {
+    return from_candid_record_n39(_uploadFile, _downloadFile, value);
+}
+function from_candid_BertResult_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BertResult): BertResult {
+    return from_candid_record_n9(_uploadFile, _downloadFile, value);
+}
+async function from_candid_DatasetFile_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DatasetFile): Promise<DatasetFile> {
+    return await from_candid_record_n61(_uploadFile, _downloadFile, value);
+}
+function from_candid_DatasetMember_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DatasetMember): DatasetMember {
+    return from_candid_record_n33(_uploadFile, _downloadFile, value);
+}
+function from_candid_DocumentMetadata_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DocumentMetadata): DocumentMetadata {
+    return from_candid_record_n27(_uploadFile, _downloadFile, value);
+}
+function from_candid_DocumentPage_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DocumentPage): DocumentPage {
+    return from_candid_record_n49(_uploadFile, _downloadFile, value);
+}
+function from_candid_Document_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Document): Document {
+    return from_candid_record_n25(_uploadFile, _downloadFile, value);
+}
+function from_candid_FileDiagnostics_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _FileDiagnostics): FileDiagnostics {
+    return from_candid_record_n63(_uploadFile, _downloadFile, value);
+}
+function from_candid_Role_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Role): Role {
+    return from_candid_variant_n30(_uploadFile, _downloadFile, value);
+}
+function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
+    return from_candid_record_n5(_uploadFile, _downloadFile, value);
+}
+function from_candid_opt_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+    return value.length === 0 ? null : value[0];
+}
 function from_candid_opt_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Array<_CleaningLog>]): Array<CleaningLog> | null {
     return value.length === 0 ? null : value[0];
 }
 function from_candid_opt_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Document]): Document | null {
+    return value.length === 0 ? null : from_candid_Document_n24(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Role]): Role | null {
+    return value.length === 0 ? null : from_candid_Role_n29(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_DocumentCursor]): DocumentCursor | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UploadSessionInfo]): UploadSessionInfo | null {
     return value.length === 0 ? null : value[0];
 }
 function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
@@ -544,43 +1437,154 @@ function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Ar
 function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_record_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    brandCorrelation: Array<_BrandIntentionCorrelation>;
-    trends: Array<_IntentionTrend>;
-    individual: _PurchaseIntention;
-    distribution: _PurchaseIntentionDistribution;
+function from_candid_record_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    content: string;
+    datasetId: bigint;
+    metadata: _DocumentMetadata;
+    author: Principal;
+    timestamp: bigint;
+    analysis: _BertResult;
+}): {
+    id: bigint;
+    content: string;
+    datasetId: bigint;
+    metadata: DocumentMetadata;
+    author: Principal;
+    timestamp: bigint;
+    analysis: BertResult;
+} {
+    return {
+        id: value.id,
+        content: value.content,
+        datasetId: value.datasetId,
+        metadata: from_candid_DocumentMetadata_n26(_uploadFile, _downloadFile, value.metadata),
+        author: value.author,
+        timestamp: value.timestamp,
+        analysis: from_candid_BertResult_n8(_uploadFile, _downloadFile, value.analysis)
+    };
+}
+function from_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    region: [] | [string];
+    likeCount: [] | [bigint];
+    originalDate: [] | [string];
+    intentionLevel: [] | [string];
+    aspectCategory: [] | [string];
+    intentionScore: [] | [bigint];
+    source: [] | [string];
+    externalId: [] | [string];
+    user: [] | [string];
+    publishedAt: [] | [bigint];
+    keywords: Array<string>;
+    goldEmotion: [] | [string];
+    replyCount: [] | [bigint];
+    replyToId: [] | [string];
+    threadId: [] | [string];
 }): {
-    brandCorrelation: Array<BrandIntentionCorrelation>;
-    trends: Array<IntentionTrend>;
-    individual: PurchaseIntention;
-    distribution: PurchaseIntentionDistribution;
+    region?: string;
+    likeCount?: bigint;
+    originalDate?: string;
+    intentionLevel?: string;
+    aspectCategory?: string;
+    intentionScore?: bigint;
+    source?: string;
+    externalId?: string;
+    user?: string;
+    publishedAt?: bigint;
+    keywords: Array<string>;
+    goldEmotion?: string;
+    replyCount?: bigint;
+    replyToId?: string;
+    threadId?: string;
 } {
     return {
-        brandCorrelation: value.brandCorrelation,
-        trends: value.trends,
-        individual: from_candid_PurchaseIntention_n13(_uploadFile, _downloadFile, value.individual),
-        distribution: value.distribution
+        region: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.region)),
+        likeCount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.likeCount)),
+        originalDate: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.originalDate)),
+        intentionLevel: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.intentionLevel)),
+        aspectCategory: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.aspectCategory)),
+        intentionScore: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.intentionScore)),
+        source: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.source)),
+        externalId: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.externalId)),
+        user: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.user)),
+        publishedAt: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.publishedAt)),
+        keywords: value.keywords,
+        goldEmotion: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.goldEmotion)),
+        replyCount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.replyCount)),
+        replyToId: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.replyToId)),
+        threadId: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.threadId))
     };
 }
-function from_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    level: string;
-    score: bigint;
-    gender: [] | [string];
-    brand: [] | [string];
-    location: [] | [string];
+function from_candid_record_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    principal: Principal;
+    assignedAt: bigint;
+    assignedBy: Principal;
+    role: _Role;
 }): {
-    level: string;
-    score: bigint;
-    gender?: string;
-    brand?: string;
-    location?: string;
+    principal: Principal;
+    assignedAt: bigint;
+    assignedBy: Principal;
+    role: Role;
+} {
+    return {
+        principal: value.principal,
+        assignedAt: value.assignedAt,
+        assignedBy: value.assignedBy,
+        role: from_candid_Role_n29(_uploadFile, _downloadFile, value.role)
+    };
+}
+function from_candid_record_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    total: bigint;
+    entries: Array<_AuditEntry>;
+}): {
+    total: bigint;
+    entries: Array<AuditEntry>;
+} {
+    return {
+        total: value.total,
+        entries: from_candid_vec_n40(_uploadFile, _downloadFile, value.entries)
+    };
+}
+function from_candid_record_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    action: string;
+    datasetId: [] | [bigint];
+    target: string;
+    timestamp: bigint;
+    caller: Principal;
+}): {
+    id: bigint;
+    action: string;
+    datasetId?: bigint;
+    target: string;
+    timestamp: bigint;
+    caller: Principal;
+} {
+    return {
+        id: value.id,
+        action: value.action,
+        datasetId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.datasetId)),
+        target: value.target,
+        timestamp: value.timestamp,
+        caller: value.caller
+    };
+}
+function from_candid_record_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    total: bigint;
+    nextCursor: [] | [_DocumentCursor];
+    documents: Array<_Document>;
+    snippets: Array<_DocumentSnippet>;
+}): {
+    total: bigint;
+    nextCursor?: DocumentCursor;
+    documents: Array<Document>;
+    snippets: Array<DocumentSnippet>;
 } {
     return {
-        level: value.level,
-        score: value.score,
-        gender: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.gender)),
-        brand: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.brand)),
-        location: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.location))
+        total: value.total,
+        nextCursor: record_opt_to_undefined(from_candid_opt_n50(_uploadFile, _downloadFile, value.nextCursor)),
+        documents: from_candid_vec_n23(_uploadFile, _downloadFile, value.documents),
+        snippets: value.snippets
     };
 }
 function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
@@ -595,27 +1599,207 @@ function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint
         topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
     };
 }
+async function from_candid_record_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    contentHash: string;
+    blob: _ExternalBlob;
+    documentIds: Array<bigint>;
+    size: bigint;
+    filename: string;
+    datasetId: bigint;
+    diagnostics: _FileDiagnostics;
+    processedAt: [] | [bigint];
+    uploadedAt: bigint;
+    uploadedBy: Principal;
+}): Promise<{
+    id: bigint;
+    contentHash: string;
+    blob: ExternalBlob;
+    documentIds: Array<bigint>;
+    size: bigint;
+    filename: string;
+    datasetId: bigint;
+    diagnostics: FileDiagnostics;
+    processedAt?: bigint;
+    uploadedAt: bigint;
+    uploadedBy: Principal;
+}> {
+    return {
+        id: value.id,
+        contentHash: value.contentHash,
+        blob: await _downloadFile(value.blob),
+        documentIds: value.documentIds,
+        size: value.size,
+        filename: value.filename,
+        datasetId: value.datasetId,
+        diagnostics: from_candid_FileDiagnostics_n62(_uploadFile, _downloadFile, value.diagnostics),
+        processedAt: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.processedAt)),
+        uploadedAt: value.uploadedAt,
+        uploadedBy: value.uploadedBy
+    };
+}
+function from_candid_record_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn: [] | [bigint];
+}): {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn?: bigint;
+} {
+    return {
+        normalizedHeaders: value.normalizedHeaders,
+        recoveryAppliedCount: value.recoveryAppliedCount,
+        skippedCount: value.skippedCount,
+        rowCount: value.rowCount,
+        textColumn: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.textColumn))
+    };
+}
 function from_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     emotion: string;
     brandSpecific: [] | [string];
+    scores: Array<_EmotionScore>;
     confidence: number;
 }): {
     emotion: string;
     brandSpecific?: string;
+    scores: Array<EmotionScore>;
     confidence: number;
 } {
     return {
         emotion: value.emotion,
         brandSpecific: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.brandSpecific)),
+        scores: value.scores,
         confidence: value.confidence
     };
 }
+function from_candid_variant_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    owner: null;
+} | {
+    analyst: null;
+} | {
+    viewer: null;
+}): Role {
+    return "owner" in value ? Role.owner : "analyst" in value ? Role.analyst : "viewer" in value ? Role.viewer : value;
+}
+function from_candid_vec_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Document>): Array<Document> {
+    return value.map((x)=>from_candid_Document_n24(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_DatasetMember>): Array<DatasetMember> {
+    return value.map((x)=>from_candid_DatasetMember_n32(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AuditEntry>): Array<AuditEntry> {
+    return value.map((x)=>from_candid_AuditEntry_n41(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_DatasetFile>): Promise<Array<DatasetFile>> {
+    return await Promise.all(value.map(async (x) => await from_candid_DatasetFile_n60(_uploadFile, _downloadFile, x)));
+}
+function to_candid_AuditFilter_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AuditFilter): _AuditFilter {
+    return to_candid_record_n37(_uploadFile, _downloadFile, value);
+}
+async function to_candid_DatasetFileInput_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DatasetFileInput): Promise<_DatasetFileInput> {
+    return await to_candid_record_n58(_uploadFile, _downloadFile, value);
+}
+function to_candid_DocumentFilter_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentFilter): _DocumentFilter {
+    return to_candid_record_n44(_uploadFile, _downloadFile, value);
+}
+function to_candid_DocumentInput_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentInput): _DocumentInput {
+    return to_candid_record_n19(_uploadFile, _downloadFile, value);
+}
+function to_candid_DocumentMetadata_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentMetadata): _DocumentMetadata {
+    return to_candid_record_n21(_uploadFile, _downloadFile, value);
+}
+function to_candid_DocumentSort_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentSort): _DocumentSort {
+    return to_candid_variant_n46(_uploadFile, _downloadFile, value);
+}
+function to_candid_FileDiagnostics_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: FileDiagnostics): _FileDiagnostics {
+    return to_candid_record_n56(_uploadFile, _downloadFile, value);
+}
+function to_candid_Role_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Role): _Role {
+    return to_candid_variant_n35(_uploadFile, _downloadFile, value);
+}
+function to_candid_UploadSource_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UploadSource): _UploadSource {
+    return to_candid_record_n54(_uploadFile, _downloadFile, value);
+}
 function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation): __CaffeineStorageRefillInformation {
     return to_candid_record_n3(_uploadFile, _downloadFile, value);
 }
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
+function to_candid_opt_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentCursor | null): [] | [_DocumentCursor] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UploadSource | null): [] | [_UploadSource] {
+    return value === null ? candid_none() : candid_some(to_candid_UploadSource_n53(_uploadFile, _downloadFile, value));
+}
+function to_candid_record_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    content: string;
+    metadata: DocumentMetadata;
+}): {
+    content: string;
+    metadata: _DocumentMetadata;
+} {
+    return {
+        content: value.content,
+        metadata: to_candid_DocumentMetadata_n20(_uploadFile, _downloadFile, value.metadata)
+    };
+}
+function to_candid_record_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    region?: string;
+    likeCount?: bigint;
+    originalDate?: string;
+    intentionLevel?: string;
+    aspectCategory?: string;
+    intentionScore?: bigint;
+    source?: string;
+    externalId?: string;
+    user?: string;
+    publishedAt?: bigint;
+    keywords: Array<string>;
+    goldEmotion?: string;
+    replyCount?: bigint;
+    replyToId?: string;
+    threadId?: string;
+}): {
+    region: [] | [string];
+    likeCount: [] | [bigint];
+    originalDate: [] | [string];
+    intentionLevel: [] | [string];
+    aspectCategory: [] | [string];
+    intentionScore: [] | [bigint];
+    source: [] | [string];
+    externalId: [] | [string];
+    user: [] | [string];
+    publishedAt: [] | [bigint];
+    keywords: Array<string>;
+    goldEmotion: [] | [string];
+    replyCount: [] | [bigint];
+    replyToId: [] | [string];
+    threadId: [] | [string];
+} {
+    return {
+        region: value.region ? candid_some(value.region) : candid_none(),
+        likeCount: value.likeCount ? candid_some(value.likeCount) : candid_none(),
+        originalDate: value.originalDate ? candid_some(value.originalDate) : candid_none(),
+        intentionLevel: value.intentionLevel ? candid_some(value.intentionLevel) : candid_none(),
+        aspectCategory: value.aspectCategory ? candid_some(value.aspectCategory) : candid_none(),
+        intentionScore: value.intentionScore ? candid_some(value.intentionScore) : candid_none(),
+        source: value.source ? candid_some(value.source) : candid_none(),
+        externalId: value.externalId ? candid_some(value.externalId) : candid_none(),
+        user: value.user ? candid_some(value.user) : candid_none(),
+        publishedAt: value.publishedAt ? candid_some(value.publishedAt) : candid_none(),
+        keywords: value.keywords,
+        goldEmotion: value.goldEmotion ? candid_some(value.goldEmotion) : candid_none(),
+        replyCount: value.replyCount ? candid_some(value.replyCount) : candid_none(),
+        replyToId: value.replyToId ? candid_some(value.replyToId) : candid_none(),
+        threadId: value.threadId ? candid_some(value.threadId) : candid_none()
+    };
+}
 function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     proposed_top_up_amount?: bigint;
 }): {
@@ -625,6 +1809,145 @@ function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
         proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
     };
 }
+function to_candid_record_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    action?: string;
+    datasetId?: bigint;
+    since?: bigint;
+    until?: bigint;
+    caller?: Principal;
+}): {
+    action: [] | [string];
+    datasetId: [] | [bigint];
+    since: [] | [bigint];
+    until: [] | [bigint];
+    caller: [] | [Principal];
+} {
+    return {
+        action: value.action !== undefined ? candid_some(value.action) : candid_none(),
+        datasetId: value.datasetId !== undefined ? candid_some(value.datasetId) : candid_none(),
+        since: value.since !== undefined ? candid_some(value.since) : candid_none(),
+        until: value.until !== undefined ? candid_some(value.until) : candid_none(),
+        caller: value.caller !== undefined ? candid_some(value.caller) : candid_none()
+    };
+}
+function to_candid_record_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    region?: string;
+    source?: string;
+    text?: string;
+    emotion?: string;
+    until?: bigint;
+    since?: bigint;
+    brand?: string;
+}): {
+    region: [] | [string];
+    source: [] | [string];
+    text: [] | [string];
+    emotion: [] | [string];
+    until: [] | [bigint];
+    since: [] | [bigint];
+    brand: [] | [string];
+} {
+    return {
+        region: value.region !== undefined ? candid_some(value.region) : candid_none(),
+        source: value.source !== undefined ? candid_some(value.source) : candid_none(),
+        text: value.text !== undefined ? candid_some(value.text) : candid_none(),
+        emotion: value.emotion !== undefined ? candid_some(value.emotion) : candid_none(),
+        until: value.until !== undefined ? candid_some(value.until) : candid_none(),
+        since: value.since !== undefined ? candid_some(value.since) : candid_none(),
+        brand: value.brand !== undefined ? candid_some(value.brand) : candid_none()
+    };
+}
+function to_candid_record_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fileId: bigint;
+    diagnostics: FileDiagnostics;
+}): {
+    fileId: bigint;
+    diagnostics: _FileDiagnostics;
+} {
+    return {
+        fileId: value.fileId,
+        diagnostics: to_candid_FileDiagnostics_n55(_uploadFile, _downloadFile, value.diagnostics)
+    };
+}
+function to_candid_record_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn?: bigint;
+}): {
+    normalizedHeaders: Array<string>;
+    recoveryAppliedCount: bigint;
+    skippedCount: bigint;
+    rowCount: bigint;
+    textColumn: [] | [bigint];
+} {
+    return {
+        normalizedHeaders: value.normalizedHeaders,
+        recoveryAppliedCount: value.recoveryAppliedCount,
+        skippedCount: value.skippedCount,
+        rowCount: value.rowCount,
+        textColumn: value.textColumn !== undefined ? candid_some(value.textColumn) : candid_none()
+    };
+}
+async function to_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    contentHash: string;
+    blob: ExternalBlob;
+    size: bigint;
+    filename: string;
+    diagnostics: FileDiagnostics;
+}): Promise<{
+    contentHash: string;
+    blob: _ExternalBlob;
+    size: bigint;
+    filename: string;
+    diagnostics: _FileDiagnostics;
+}> {
+    return {
+        contentHash: value.contentHash,
+        blob: await _uploadFile(value.blob),
+        size: value.size,
+        filename: value.filename,
+        diagnostics: to_candid_FileDiagnostics_n55(_uploadFile, _downloadFile, value.diagnostics)
+    };
+}
+function to_candid_variant_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Role): {
+    owner: null;
+} | {
+    analyst: null;
+} | {
+    viewer: null;
+} {
+    return value == Role.owner ? {
+        owner: null
+    } : value == Role.analyst ? {
+        analyst: null
+    } : value == Role.viewer ? {
+        viewer: null
+    } : value;
+}
+function to_candid_variant_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DocumentSort): {
+    newest: null;
+} | {
+    oldest: null;
+} | {
+    mostConfident: null;
+} | {
+    leastConfident: null;
+} {
+    return value == DocumentSort.newest ? {
+        newest: null
+    } : value == DocumentSort.oldest ? {
+        oldest: null
+    } : value == DocumentSort.mostConfident ? {
+        mostConfident: null
+    } : value == DocumentSort.leastConfident ? {
+        leastConfident: null
+    } : value;
+}
+function to_candid_vec_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<DocumentInput>): Array<_DocumentInput> {
+    return value.map((x)=>to_candid_DocumentInput_n18(_uploadFile, _downloadFile, x));
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
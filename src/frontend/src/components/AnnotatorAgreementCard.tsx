@@ -0,0 +1,91 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Users, AlertCircle } from 'lucide-react';
+import type { AgreementReport } from '../backend';
+import { getEmotionDisplayLabel } from '../lib/visualizationState';
+
+interface AnnotatorAgreementCardProps {
+  report: AgreementReport | null | undefined;
+}
+
+/**
+ * Landis & Koch reading of a kappa-like coefficient
+ */
+function interpretAgreement(value: number): string {
+  if (value < 0) return 'Buruk';
+  if (value <= 0.2) return 'Sangat lemah';
+  if (value <= 0.4) return 'Lemah';
+  if (value <= 0.6) return 'Sedang';
+  if (value <= 0.8) return 'Kuat';
+  return 'Hampir sempurna';
+}
+
+function CoefficientCell({ value }: { value: number }) {
+  return (
+    <td className="py-2 text-right">
+      {value.toFixed(3)}
+      <span className="ml-2 text-xs text-muted-foreground">{interpretAgreement(value)}</span>
+    </td>
+  );
+}
+
+/**
+ * Fleiss' kappa and Krippendorff's alpha between analysts, overall and per emotion
+ */
+export function AnnotatorAgreementCard({ report }: AnnotatorAgreementCardProps) {
+  const hasComparableDocuments = !!report && report.documents > 0n;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Kesepakatan Antar Anotator
+        </CardTitle>
+        <CardDescription>
+          {report
+            ? `${report.documents.toString()} dokumen dengan ≥ 2 anotasi · ${report.annotators.toString()} analis · ${report.annotations.toString()} anotasi`
+            : 'Fleiss kappa dan Krippendorff alpha antar analis'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!hasComparableDocuments ? (
+          <div className="flex h-[120px] flex-col items-center justify-center gap-3 text-center">
+            <AlertCircle className="h-10 w-10 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">
+              Kesepakatan dihitung setelah minimal dua analis memberi label pada dokumen yang sama
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">Fleiss κ {report.fleissKappa.toFixed(3)}</Badge>
+              <Badge variant="secondary">Krippendorff α {report.krippendorffAlpha.toFixed(3)}</Badge>
+              <Badge variant="outline">{interpretAgreement(report.fleissKappa)}</Badge>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="pb-3 text-left font-medium">Emosi</th>
+                    <th className="pb-3 text-right font-medium">Fleiss κ</th>
+                    <th className="pb-3 text-right font-medium">Krippendorff α</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.perEmotion.map((score) => (
+                    <tr key={score.emotion} className="border-b last:border-0">
+                      <td className="py-2 font-medium">{getEmotionDisplayLabel(score.emotion)}</td>
+                      <CoefficientCell value={score.fleissKappa} />
+                      <CoefficientCell value={score.krippendorffAlpha} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollText, ChevronLeft, ChevronRight, RefreshCw, AlertCircle } from 'lucide-react';
+import { useState } from 'react';
+import { Principal } from '@icp-sdk/core/principal';
+import type { AuditFilter } from '../backend';
+import { useActiveDataset } from '../hooks/useActiveDataset';
+import { useGetAuditLog, useListDatasets } from '../hooks/useQueries';
+
+const PAGE_SIZE = 20;
+const ALL = 'all';
+const NANOSECONDS_PER_DAY = 86_400_000_000_000n;
+
+// Mutating backend methods recorded in the audit log
+const AUDIT_ACTIONS = [
+  'resetAllData',
+  'resetModelData',
+  'deleteDocument',
+  'deleteDataset',
+  'restoreDocument',
+  'restoreDataset',
+  'purgeDocument',
+  'purgeDataset',
+  'purgeExpiredTrash',
+  'createDataset',
+  'renameDataset',
+  'setDatasetArchived',
+  'uploadDocument',
+  'batchUploadDocuments',
+  'batchUploadDocumentRecords',
+  'beginUploadSession',
+  'appendUploadChunk',
+  'commitUploadSession',
+  'abortUploadSession',
+  'addDatasetFile',
+  'addCleaningLog',
+  'annotateDocument',
+  'adjudicateDocument',
+  'recordFeedback',
+  'processCorrect',
+  'processIncorrect',
+  'setModelEnabled',
+  'setDefaultEnsemble',
+  'rerunModels',
+  'setSlangEntry',
+  'removeSlangEntry',
+  'assignDatasetRole',
+  'removeDatasetMember',
+  'setAdministrator',
+];
+
+const DESTRUCTIVE_ACTIONS = [
+  'resetAllData',
+  'resetModelData',
+  'deleteDocument',
+  'deleteDataset',
+  'purgeDocument',
+  'purgeDataset',
+  'purgeExpiredTrash',
+  'abortUploadSession',
+  'removeDatasetMember',
+];
+
+/**
+ * Formats a backend timestamp (nanoseconds since the epoch)
+ */
+function formatTimestamp(nanoseconds: bigint): string {
+  return new Date(Number(nanoseconds / 1_000_000n)).toLocaleString();
+}
+
+/**
+ * Start of the given local calendar day (yyyy-mm-dd) in nanoseconds since the epoch
+ */
+function dayStartNanoseconds(date: string): bigint {
+  return BigInt(new Date(`${date}T00:00:00`).getTime()) * 1_000_000n;
+}
+
+function parsePrincipal(text: string): Principal | undefined {
+  try {
+    return Principal.fromText(text.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Append-only trail of mutating calls: who did what, to which target and when. The
+ * administrator sees every dataset, dataset owners only their own
+ */
+export function AuditLogPanel() {
+  const { datasetId } = useActiveDataset();
+  const { data: datasets = [] } = useListDatasets();
+  const [scope, setScope] = useState<'active' | 'all'>('active');
+  const [action, setAction] = useState(ALL);
+  const [principalInput, setPrincipalInput] = useState('');
+  const [sinceDate, setSinceDate] = useState('');
+  const [untilDate, setUntilDate] = useState('');
+  const [page, setPage] = useState(0);
+
+  const principal = principalInput.trim() ? parsePrincipal(principalInput) : undefined;
+  const isPrincipalInvalid = principalInput.trim() !== '' && !principal;
+
+  const filter: AuditFilter = {
+    caller: principal,
+    action: action === ALL ? undefined : action,
+    datasetId: scope === 'active' ? datasetId : undefined,
+    since: sinceDate ? dayStartNanoseconds(sinceDate) : undefined,
+    // Inclusive through the end of the chosen day
+    until: untilDate ? dayStartNanoseconds(untilDate) + NANOSECONDS_PER_DAY - 1n : undefined,
+  };
+
+  const { data, isLoading, isError, refetch, isFetching } = useGetAuditLog(filter, page, PAGE_SIZE);
+  const entries = data?.entries ?? [];
+  const total = Number(data?.total ?? 0n);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const datasetName = (id: bigint | undefined) => {
+    if (id === undefined) return '—';
+    return datasets.find((dataset) => dataset.id === id)?.name ?? `#${id.toString()}`;
+  };
+
+  // Any filter change starts again from the newest entries
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5 text-primary" />
+          Log Audit
+        </CardTitle>
+        <CardDescription>
+          Catatan permanen setiap perubahan data dan konfigurasi: siapa, aksi apa, pada apa dan kapan
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label className="text-xs">Cakupan</Label>
+            <Select value={scope} onValueChange={updateFilter((value: string) => setScope(value as 'active' | 'all'))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Dataset aktif</SelectItem>
+                <SelectItem value="all">Semua (administrator)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Aksi</Label>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua aksi</SelectItem>
+                {AUDIT_ACTIONS.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-principal" className="text-xs">
+              Principal
+            </Label>
+            <Input
+              id="audit-principal"
+              placeholder="Semua principal"
+              value={principalInput}
+              onChange={(e) => updateFilter(setPrincipalInput)(e.target.value)}
+              className={isPrincipalInvalid ? 'border-destructive' : undefined}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-since" className="text-xs">
+              Sejak
+            </Label>
+            <Input
+              id="audit-since"
+              type="date"
+              value={sinceDate}
+              onChange={(e) => updateFilter(setSinceDate)(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-until" className="text-xs">
+              Sampai
+            </Label>
+            <Input
+              id="audit-until"
+              type="date"
+              value={untilDate}
+              onChange={(e) => updateFilter(setUntilDate)(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center">
+            <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : isError ? (
+          <div className="flex h-[120px] flex-col items-center justify-center gap-3 text-center">
+            <AlertCircle className="h-10 w-10 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">
+              Log audit hanya dapat dibaca administrator, atau pemilik dataset untuk dataset mereka sendiri
+            </p>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Tidak ada entri yang cocok dengan filter</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="pb-3 text-left font-medium">Waktu</th>
+                  <th className="pb-3 text-left font-medium">Principal</th>
+                  <th className="pb-3 text-left font-medium">Aksi</th>
+                  <th className="pb-3 text-left font-medium">Target</th>
+                  <th className="pb-3 text-left font-medium">Dataset</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id.toString()} className="border-b last:border-0">
+                    <td className="whitespace-nowrap py-2 pr-4 text-xs text-muted-foreground">
+                      {formatTimestamp(entry.timestamp)}
+                    </td>
+                    <td className="max-w-[180px] py-2 pr-4">
+                      <p className="truncate font-mono text-xs" title={entry.caller.toString()}>
+                        {entry.caller.toString()}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Badge variant={DESTRUCTIVE_ACTIONS.includes(entry.action) ? 'destructive' : 'secondary'}>
+                        {entry.action}
+                      </Badge>
+                    </td>
+                    <td className="max-w-xs py-2 pr-4">
+                      <p className="truncate" title={entry.target}>
+                        {entry.target}
+                      </p>
+                    </td>
+                    <td className="py-2">{datasetName(entry.datasetId)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between border-t pt-4">
+          <p className="text-xs text-muted-foreground">
+            {total} entri · halaman {page + 1} dari {pageCount}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              <ChevronLeft className="h-4 w-4" />
+              Sebelumnya
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+              Berikutnya
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,9 +3,9 @@ import { Package, AlertCircle } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
 import { useMemo } from 'react';
-import { getVisualizationState, sanitizeChartData, normalizeEmotionLabel, getEmotionDisplayLabel } from '../lib/visualizationState';
+import { getVisualizationState, sanitizeChartData } from '../lib/visualizationState';
 
 interface BrandEmotionChartProps {
   documents: Document[];
@@ -21,7 +21,7 @@ export function BrandEmotionChart({ documents }: BrandEmotionChartProps) {
     const brandEmotions: Record<string, Record<string, number>> = {};
     
     documents.forEach((doc) => {
-      const analysis = mockEmotionAnalysis(doc.content);
+      const analysis = getDocumentAnalysis(doc);
       if (analysis.brand) {
         if (!brandEmotions[analysis.brand]) {
           brandEmotions[analysis.brand] = {
@@ -32,8 +32,7 @@ export function BrandEmotionChart({ documents }: BrandEmotionChartProps) {
             fear: 0,
           };
         }
-        // Normalize emotion to English
-        const normalizedEmotion = normalizeEmotionLabel(analysis.primaryEmotion);
+        const normalizedEmotion = analysis.primaryEmotion;
         brandEmotions[analysis.brand][normalizedEmotion] = 
           (brandEmotions[analysis.brand][normalizedEmotion] || 0) + 1;
       }
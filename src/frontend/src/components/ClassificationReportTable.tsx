@@ -0,0 +1,81 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ListChecks } from 'lucide-react';
+import type { AveragedMetrics, EvaluationReport } from '../lib/evaluationMetrics';
+import { getEmotionDisplayLabel } from '../lib/visualizationState';
+
+interface ClassificationReportTableProps {
+  report: EvaluationReport | null;
+  modelName: string;
+}
+
+/**
+ * Formats decimal metric (0-1) to percentage string with 2 decimal places
+ */
+function formatMetricPercentage(value: number): string {
+  return (Math.max(0, Math.min(1, value)) * 100).toFixed(2);
+}
+
+/**
+ * Per-emotion precision, recall and F1 with macro, micro and weighted averages
+ */
+export function ClassificationReportTable({ report, modelName }: ClassificationReportTableProps) {
+  if (!report || report.total === 0) {
+    return null;
+  }
+
+  const averages: Array<{ label: string; metrics: AveragedMetrics }> = [
+    { label: 'Macro avg', metrics: report.macro },
+    { label: 'Micro avg', metrics: report.micro },
+    { label: 'Weighted avg', metrics: report.weighted },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-primary" />
+          Laporan Klasifikasi - {modelName}
+        </CardTitle>
+        <CardDescription>
+          Metrik per emosi dari {report.total} prediksi berlabel · Cohen's kappa {report.cohensKappa.toFixed(3)} · MCC{' '}
+          {report.mcc.toFixed(3)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="pb-3 text-left font-medium">Emosi</th>
+                <th className="pb-3 text-right font-medium">Precision</th>
+                <th className="pb-3 text-right font-medium">Recall</th>
+                <th className="pb-3 text-right font-medium">F1-Score</th>
+                <th className="pb-3 text-right font-medium">Support</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.perClass.map((row) => (
+                <tr key={row.emotion} className="border-b">
+                  <td className="py-2 font-medium">{getEmotionDisplayLabel(row.emotion)}</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(row.precision)}%</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(row.recall)}%</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(row.f1Score)}%</td>
+                  <td className="py-2 text-right text-muted-foreground">{row.support}</td>
+                </tr>
+              ))}
+              {averages.map(({ label, metrics }) => (
+                <tr key={label} className="border-b last:border-0 bg-muted/30">
+                  <td className="py-2 font-semibold">{label}</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(metrics.precision)}%</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(metrics.recall)}%</td>
+                  <td className="py-2 text-right">{formatMetricPercentage(metrics.f1Score)}%</td>
+                  <td className="py-2 text-right text-muted-foreground">{report.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { CheckCircle2, AlertCircle, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { CheckCircle2, AlertCircle, ChevronDown, ChevronUp, Loader2, MinusCircle } from 'lucide-react';
 import { useState } from 'react';
 import { useGetLatestCleaningLog } from '../hooks/useQueries';
 
@@ -9,24 +9,29 @@ export function CleaningLogPanel() {
   const [isExpanded, setIsExpanded] = useState(true);
   const { data: cleaningLogs, isLoading } = useGetLatestCleaningLog();
 
+  // Entries are written once a step has run, so anything that is not a failure is finished;
+  // steps that found nothing to change are shown muted
+  const isFailure = (status: string) => status.toLowerCase().includes('error') || status.toLowerCase().includes('gagal');
+  const isUnchanged = (status: string) => status.toLowerCase().startsWith('tidak ada');
+
   const getStatusIcon = (status: string) => {
-    if (status.toLowerCase().includes('selesai') || status.toLowerCase().includes('valid') || status.toLowerCase().includes('aman')) {
-      return <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />;
-    }
-    if (status.toLowerCase().includes('error') || status.toLowerCase().includes('gagal')) {
+    if (isFailure(status)) {
       return <AlertCircle className="h-4 w-4 text-orange-600 dark:text-orange-400" />;
     }
-    return <Loader2 className="h-4 w-4 animate-spin text-blue-600 dark:text-blue-400" />;
+    if (isUnchanged(status)) {
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    }
+    return <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />;
   };
 
   const getStatusColor = (status: string) => {
-    if (status.toLowerCase().includes('selesai') || status.toLowerCase().includes('valid') || status.toLowerCase().includes('aman')) {
-      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
-    }
-    if (status.toLowerCase().includes('error') || status.toLowerCase().includes('gagal')) {
+    if (isFailure(status)) {
       return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
     }
-    return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+    if (isUnchanged(status)) {
+      return 'bg-muted text-muted-foreground';
+    }
+    return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
   };
 
   if (isLoading) {
@@ -95,12 +100,28 @@ export function CleaningLogPanel() {
                       {log.status}
                     </Badge>
                   </div>
+                  {log.rowsAffected > 0n && (
+                    <p className="text-xs text-muted-foreground">
+                      {log.rowsAffected.toString()} baris berubah
+                      {log.charactersRemoved > 0n && ` • ${log.charactersRemoved.toString()} karakter dihapus`}
+                    </p>
+                  )}
+                  {log.samples.length > 0 && (
+                    <div className="space-y-1 pt-1">
+                      {log.samples.map((sample, sampleIndex) => (
+                        <div key={sampleIndex} className="rounded border border-border/50 bg-background p-2 text-xs">
+                          <p className="break-words text-muted-foreground line-through">{sample.before}</p>
+                          <p className="break-words">{sample.after || <span className="italic text-muted-foreground">(baris dihapus)</span>}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
             
             {/* Final success message */}
-            {cleaningLogs.length > 0 && cleaningLogs[cleaningLogs.length - 1].status.toLowerCase().includes('selesai') && (
+            {cleaningLogs.length > 0 && !cleaningLogs.some((log) => isFailure(log.status)) && (
               <div className="mt-4 flex items-center gap-2 rounded-lg border border-green-600/20 bg-green-50 p-3 dark:bg-green-900/10">
                 <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
                 <span className="font-medium text-green-800 dark:text-green-400">
@@ -0,0 +1,266 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Columns3, Save, Trash2, WandSparkles } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { DATASET_FIELDS, findMappedColumn, suggestColumnMapping, type ColumnMapping, type DatasetField } from '../lib/columnMapping';
+import {
+  deleteColumnMappingPreset,
+  findMatchingPreset,
+  loadColumnMappingPresets,
+  saveColumnMappingPreset,
+} from '../lib/columnMappingPresets';
+import type { SourceFileInfo, SourceTable } from '../lib/datasetIngestion';
+import { PLATFORM_LABELS } from '../lib/platformImporters';
+
+export interface ColumnMappingWizardProps {
+  filename: string;
+  /** One table per worksheet for workbooks, otherwise a single table */
+  tables: SourceTable[];
+  onConfirm: (mapping: ColumnMapping, table: SourceTable) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+// Select value for a field no column feeds
+const UNMAPPED = '__none__';
+const PREVIEW_ROWS = 5;
+const MAX_CELL_LENGTH = 60;
+
+function truncate(value: string): string {
+  return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH)}…` : value;
+}
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'comma', '\t': 'tab', ';': 'semicolon', '|': 'pipe' };
+
+function describeSource(source: SourceFileInfo): string {
+  const format = source.format.toUpperCase();
+  const parts: string[] = [source.platform ? `${PLATFORM_LABELS[source.platform]} export (${format})` : format];
+  if (source.delimiter) parts.push(`${DELIMITER_LABELS[source.delimiter] ?? source.delimiter} separated`);
+  if (source.encoding) parts.push(source.bom ? `${source.encoding} with BOM` : source.encoding);
+  return parts.join(', ');
+}
+
+/**
+ * Assigns the columns of an uploaded file to dataset fields before its rows are parsed,
+ * starting from a saved preset that fits the file's headers or from the suggested mapping
+ */
+export function ColumnMappingWizard({ filename, tables, onConfirm, onCancel, disabled }: ColumnMappingWizardProps) {
+  const [presets, setPresets] = useState(loadColumnMappingPresets);
+  const [tableIndex, setTableIndex] = useState(0);
+  const table = tables[tableIndex];
+
+  const initialMapping = (candidate: SourceTable) => {
+    const preset = findMatchingPreset(presets, candidate.headers);
+    return preset ? { mapping: preset.mapping, presetName: preset.name } : { mapping: suggestColumnMapping(candidate), presetName: null };
+  };
+
+  const [initial, setInitial] = useState(() => initialMapping(table));
+  const [mapping, setMapping] = useState<ColumnMapping>(initial.mapping);
+  const [presetName, setPresetName] = useState(initial.presetName ?? '');
+
+  // Another worksheet has other columns, so its mapping starts over
+  const selectTable = (index: number) => {
+    const next = initialMapping(tables[index]);
+    setTableIndex(index);
+    setInitial(next);
+    setMapping(next.mapping);
+    setPresetName(next.presetName ?? '');
+  };
+
+  const columnIndex = (field: DatasetField) => findMappedColumn(table.headers, mapping[field]);
+
+  // Fields fed by each column, shown above the preview
+  const fieldsByColumn = useMemo(() => {
+    const result = new Map<number, string[]>();
+    for (const info of DATASET_FIELDS) {
+      const index = findMappedColumn(table.headers, mapping[info.field]);
+      if (index !== -1) result.set(index, [...(result.get(index) ?? []), info.label]);
+    }
+    return result;
+  }, [table.headers, mapping]);
+
+  const setField = (field: DatasetField, value: string) => {
+    const next = { ...mapping };
+    if (value === UNMAPPED) delete next[field];
+    else next[field] = table.headers[Number(value)];
+    setMapping(next);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    setPresets(saveColumnMappingPreset(name, mapping));
+    toast.success(`Mapping preset "${name}" saved`);
+  };
+
+  const handleDeletePreset = (name: string) => {
+    setPresets(deleteColumnMappingPreset(name));
+    toast.success(`Mapping preset "${name}" deleted`);
+  };
+
+  const textMapped = columnIndex('text') !== -1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          {filename} • {describeSource(table.source)} • {table.headers.length} columns, {table.rows.length} rows
+          {initial.presetName && ` • preset "${initial.presetName}" applied`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {tables.length > 1 && (
+          <div className="space-y-1 sm:w-64">
+            <Label htmlFor="mapping-sheet" className="text-xs font-medium">Worksheet</Label>
+            <Select value={tableIndex.toString()} onValueChange={(value) => selectTable(Number(value))}>
+              <SelectTrigger id="mapping-sheet" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tables.map((candidate, index) => (
+                  <SelectItem key={index} value={index.toString()}>
+                    {candidate.source.sheetName ?? `Table ${index + 1}`} ({candidate.rows.length} rows)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid gap-3 md:grid-cols-2">
+          {DATASET_FIELDS.map((info) => {
+            const index = columnIndex(info.field);
+            const sample = index === -1 ? undefined : table.rows.map((row) => row[index]).find((value) => value);
+            return (
+              <div key={info.field} className="space-y-1">
+                <Label htmlFor={`mapping-${info.field}`} className="text-xs font-medium">
+                  {info.label}
+                  {info.required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select value={index === -1 ? UNMAPPED : index.toString()} onValueChange={(value) => setField(info.field, value)}>
+                  <SelectTrigger id={`mapping-${info.field}`} className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>{info.required ? 'Choose a column' : 'Not mapped'}</SelectItem>
+                    {table.headers.map((header, headerIndex) => (
+                      <SelectItem key={headerIndex} value={headerIndex.toString()}>
+                        {header || `Column ${headerIndex + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="truncate text-[11px] text-muted-foreground">
+                  {sample ? `e.g. ${truncate(sample)}` : info.description}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Preview (first {Math.min(PREVIEW_ROWS, table.rows.length)} rows)</Label>
+          <div className="max-h-64 overflow-auto rounded-lg border border-border/50">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b bg-muted/30">
+                  {table.headers.map((header, index) => (
+                    <th key={index} className="px-2 py-2 text-left align-top font-medium">
+                      <div className="whitespace-nowrap">{header || `Column ${index + 1}`}</div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {fieldsByColumn.get(index)?.map((label) => (
+                          <Badge key={label} variant="secondary" className="text-[10px]">
+                            {label}
+                          </Badge>
+                        ))}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b last:border-0">
+                    {table.headers.map((_, index) => (
+                      <td key={index} className={`px-2 py-1.5 align-top ${fieldsByColumn.has(index) ? '' : 'text-muted-foreground'}`}>
+                        {truncate(row[index] ?? '')}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mapping-preset-name" className="text-xs">Mapping presets</Label>
+          {presets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {presets.map((preset) => (
+                <div key={preset.name} className="flex items-center rounded-md border border-border/50">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => {
+                      setMapping(preset.mapping);
+                      setPresetName(preset.name);
+                    }}
+                  >
+                    {preset.name}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Delete preset"
+                    onClick={() => handleDeletePreset(preset.name)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              id="mapping-preset-name"
+              placeholder="Preset name, e.g. Twitter export"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              className="h-9"
+            />
+            <Button variant="outline" size="sm" className="h-9" onClick={handleSavePreset} disabled={!presetName.trim() || !textMapped}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setMapping(suggestColumnMapping(table))}>
+            <WandSparkles className="mr-2 h-4 w-4" />
+            Suggest again
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={disabled}>
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(mapping, table)} disabled={disabled || !textMapped}>
+              Continue
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@ import { getModelPalette, getLegendSwatches, normalizeModelName } from '@/lib/co
 
 interface ConfusionMatrixChartProps {
   confusionMatrix: number[][] | null;
+  /** Raw gold-vs-predicted counts behind the row percentages */
+  rawCounts?: bigint[][] | null;
   emotions: string[] | null;
   modelName: string;
   hasActiveDataset?: boolean;
@@ -24,7 +26,7 @@ function formatPercentage(value: number): string {
   return validatePercentage(value).toFixed(2);
 }
 
-export function ConfusionMatrixChart({ confusionMatrix, emotions, modelName, hasActiveDataset = true }: ConfusionMatrixChartProps) {
+export function ConfusionMatrixChart({ confusionMatrix, rawCounts, emotions, modelName, hasActiveDataset = true }: ConfusionMatrixChartProps) {
   // Get model-specific palette
   const palette = useMemo(() => getModelPalette(modelName), [modelName]);
   const normalizedModel = useMemo(() => normalizeModelName(modelName), [modelName]);
@@ -54,8 +56,14 @@ export function ConfusionMatrixChart({ confusionMatrix, emotions, modelName, has
     return true;
   }, [confusionMatrix, emotions]);
 
+  // Number of labeled predictions the matrix was built from
+  const labeledCount = useMemo(() => {
+    if (!rawCounts) return null;
+    return rawCounts.reduce((sum, row) => sum + row.reduce((rowSum, cell) => rowSum + Number(cell), 0), 0);
+  }, [rawCounts]);
+
   // Check if data is available - prioritize hasActiveDataset flag and data validation
-  const hasData = hasActiveDataset && isValidData;
+  const hasData = hasActiveDataset && isValidData && labeledCount !== 0;
 
   // The confusionMatrix is already normalized by backend (percentages per row, each row sums to 100%)
   // Validate all values are within expected range
@@ -148,9 +156,11 @@ export function ConfusionMatrixChart({ confusionMatrix, emotions, modelName, has
             <div>
               <p className="text-lg font-semibold text-muted-foreground">Tidak ada data aktif</p>
               <p className="text-sm text-muted-foreground/70">
-                {!hasActiveDataset 
+                {!hasActiveDataset
                   ? 'Upload dataset untuk melihat confusion matrix'
-                  : 'Data confusion matrix tidak tersedia atau tidak valid'}
+                  : labeledCount === 0
+                    ? 'Belum ada dokumen berlabel. Sertakan kolom emotion pada dataset atau pilih label yang benar di halaman Analisis'
+                    : 'Data confusion matrix tidak tersedia atau tidak valid'}
               </p>
             </div>
           </div>
@@ -173,6 +183,7 @@ export function ConfusionMatrixChart({ confusionMatrix, emotions, modelName, has
         </CardTitle>
         <CardDescription>
           Matriks kebingungan menampilkan prediksi vs label aktual (persentase per baris = 100%)
+          {labeledCount !== null && ` · ${labeledCount} prediksi berlabel`}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -273,6 +284,11 @@ export function ConfusionMatrixChart({ confusionMatrix, emotions, modelName, has
                               >
                                 Persentase: {formatPercentage(value)}%
                               </div>
+                              {rawCounts && (
+                                <div className="text-muted-foreground">
+                                  Jumlah: {rawCounts[rowIndex][colIndex].toString()}
+                                </div>
+                              )}
                             </div>
                           </td>
                         );
@@ -0,0 +1,115 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Gavel, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ContestedDocument } from '../backend';
+import { useAdjudicateDocument } from '../hooks/useQueries';
+import { getEmotionDisplayLabel, CANONICAL_EMOTIONS } from '../lib/visualizationState';
+
+interface ContestedDocumentsTableProps {
+  documents: ContestedDocument[];
+}
+
+/**
+ * Label counts of a document's annotations, most frequent first
+ */
+function tallyVotes(document: ContestedDocument): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  document.annotations.forEach((annotation) => {
+    counts.set(annotation.emotion, (counts.get(annotation.emotion) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Documents the analysts disagree on, with an adjudication action that sets the final gold label
+ */
+export function ContestedDocumentsTable({ documents }: ContestedDocumentsTableProps) {
+  const adjudicateMutation = useAdjudicateDocument();
+
+  const handleAdjudicate = async (documentId: bigint, emotion: string) => {
+    try {
+      await adjudicateMutation.mutateAsync({ documentId, emotion });
+      toast.success(`Label final dokumen #${documentId.toString()}: ${getEmotionDisplayLabel(emotion)}`);
+    } catch (error) {
+      toast.error('Gagal menyimpan keputusan adjudikasi');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5 text-primary" />
+          Dokumen Diperdebatkan
+        </CardTitle>
+        <CardDescription>
+          Dokumen dengan label analis yang berbeda; tanpa adjudikasi, label mayoritas dipakai sebagai label final
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {documents.length === 0 ? (
+          <div className="flex h-[120px] flex-col items-center justify-center gap-3 text-center">
+            <CheckCircle2 className="h-10 w-10 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">Belum ada dokumen dengan label yang diperdebatkan</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="pb-3 text-left font-medium">Dokumen</th>
+                  <th className="pb-3 text-left font-medium">Label analis</th>
+                  <th className="pb-3 text-right font-medium">Kesepakatan</th>
+                  <th className="pb-3 text-right font-medium">Label final</th>
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((document) => (
+                  <tr key={document.documentId.toString()} className="border-b align-top last:border-0">
+                    <td className="max-w-md py-3 pr-4">
+                      <p className="font-medium">#{document.documentId.toString()}</p>
+                      <p className="line-clamp-2 text-xs text-muted-foreground">{document.content}</p>
+                    </td>
+                    <td className="py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {tallyVotes(document).map(([emotion, count]) => (
+                          <Badge key={emotion} variant="outline">
+                            {getEmotionDisplayLabel(emotion)} × {count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 text-right">{(document.agreement * 100).toFixed(0)}%</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        {document.adjudicated && <Badge>Adjudikasi</Badge>}
+                        <Select
+                          value={document.adjudicated ? document.goldEmotion : ''}
+                          onValueChange={(emotion) => handleAdjudicate(document.documentId, emotion)}
+                          disabled={adjudicateMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 w-[140px]">
+                            <SelectValue placeholder={`Mayoritas: ${getEmotionDisplayLabel(document.goldEmotion)}`} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CANONICAL_EMOTIONS.map((emotion) => (
+                              <SelectItem key={emotion} value={emotion}>
+                                {getEmotionDisplayLabel(emotion)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
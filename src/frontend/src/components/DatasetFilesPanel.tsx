@@ -0,0 +1,118 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileArchive, RefreshCw } from 'lucide-react';
+import { useListDatasetFiles } from '../hooks/useQueries';
+import type { DatasetFile } from '../backend';
+
+/**
+ * Formats a backend timestamp (nanoseconds since the epoch)
+ */
+function formatTimestamp(nanoseconds: bigint): string {
+  return new Date(Number(nanoseconds / 1_000_000n)).toLocaleString();
+}
+
+function formatSize(bytes: bigint): string {
+  const size = Number(bytes);
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export interface DatasetFilesPanelProps {
+  onReprocess: (file: DatasetFile) => void;
+  reprocessDisabled: boolean;
+}
+
+/**
+ * Raw files uploaded to the active dataset, with the parse diagnostics of their latest run
+ */
+export function DatasetFilesPanel({ onReprocess, reprocessDisabled }: DatasetFilesPanelProps) {
+  const { data: files = [] } = useListDatasetFiles();
+
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="h-5 w-5" />
+          Uploaded Files
+        </CardTitle>
+        <CardDescription>Original files kept with this dataset; reprocess one to parse it again with the current rules</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="pb-3 text-left font-medium">File</th>
+                <th className="pb-3 text-left font-medium">Uploaded</th>
+                <th className="pb-3 text-left font-medium">Diagnostics</th>
+                <th className="pb-3 text-right font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {files.map((file) => (
+                <tr key={file.id.toString()} className="border-b align-top last:border-0">
+                  <td className="max-w-xs py-3 pr-4">
+                    <p className="truncate font-medium" title={file.filename}>
+                      {file.filename}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatSize(file.size)} • {file.documentIds.length} documents
+                    </p>
+                    <p className="truncate font-mono text-[10px] text-muted-foreground" title={file.contentHash}>
+                      sha256 {file.contentHash.slice(0, 16)}…
+                    </p>
+                  </td>
+                  <td className="whitespace-nowrap py-3 pr-4 text-xs text-muted-foreground">
+                    <p>{formatTimestamp(file.uploadedAt)}</p>
+                    {file.processedAt !== undefined && <p>Processed {formatTimestamp(file.processedAt)}</p>}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{file.diagnostics.rowCount.toString()} rows</Badge>
+                      {file.diagnostics.skippedCount > 0n && (
+                        <Badge variant="outline">{file.diagnostics.skippedCount.toString()} skipped</Badge>
+                      )}
+                      {file.diagnostics.recoveryAppliedCount > 0n && (
+                        <Badge variant="outline">{file.diagnostics.recoveryAppliedCount.toString()} recovered</Badge>
+                      )}
+                    </div>
+                    {file.diagnostics.normalizedHeaders.length > 0 && (
+                      <p className="mt-1 truncate font-mono text-[10px] text-muted-foreground" title={file.diagnostics.normalizedHeaders.join(', ')}>
+                        [{file.diagnostics.normalizedHeaders.join(', ')}]
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Download">
+                        <a href={file.blob.getDirectURL()} download={file.filename} target="_blank" rel="noreferrer">
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => onReprocess(file)}
+                        disabled={reprocessDisabled}
+                        title="Reprocess"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
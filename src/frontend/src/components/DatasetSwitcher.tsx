@@ -0,0 +1,210 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Database, FolderCog, Plus, Archive, ArchiveRestore, Trash2, Check } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { DatasetInfo } from '../backend';
+import { useActiveDataset } from '../hooks/useActiveDataset';
+import {
+  useListDatasets,
+  useCreateDataset,
+  useRenameDataset,
+  useSetDatasetArchived,
+  useDeleteDataset,
+} from '../hooks/useQueries';
+
+function DatasetRow({ dataset, isOnly }: { dataset: DatasetInfo; isOnly: boolean }) {
+  const [name, setName] = useState(dataset.name);
+  const renameMutation = useRenameDataset();
+  const archiveMutation = useSetDatasetArchived();
+  const deleteMutation = useDeleteDataset();
+
+  useEffect(() => {
+    setName(dataset.name);
+  }, [dataset.name]);
+
+  const handleRename = async () => {
+    try {
+      await renameMutation.mutateAsync({ datasetId: dataset.id, name });
+      toast.success('Nama dataset diperbarui');
+    } catch (error) {
+      toast.error('Gagal mengganti nama dataset');
+    }
+  };
+
+  const handleArchive = async () => {
+    try {
+      await archiveMutation.mutateAsync({ datasetId: dataset.id, archived: !dataset.archived });
+      toast.success(dataset.archived ? 'Dataset diaktifkan kembali' : 'Dataset diarsipkan');
+    } catch (error) {
+      toast.error('Gagal mengubah status arsip dataset');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(dataset.id);
+      toast.success(`Dataset ${dataset.name} dipindahkan ke tempat sampah`);
+    } catch (error) {
+      toast.error('Gagal menghapus dataset');
+    }
+  };
+
+  const isRenamed = name.trim() !== '' && name.trim() !== dataset.name;
+
+  return (
+    <div className="flex items-center gap-2 border-b py-2 last:border-0">
+      <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8" />
+      <Badge variant="secondary" className="shrink-0">
+        {dataset.documentCount.toString()} dok
+      </Badge>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={handleRename}
+        disabled={!isRenamed || renameMutation.isPending}
+        title="Simpan nama"
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={handleArchive}
+        disabled={archiveMutation.isPending}
+        title={dataset.archived ? 'Aktifkan kembali' : 'Arsipkan'}
+      >
+        {dataset.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-destructive"
+            disabled={isOnly || deleteMutation.isPending}
+            title={isOnly ? 'Dataset terakhir tidak dapat dihapus' : 'Hapus dataset'}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus dataset {dataset.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Dataset beserta {dataset.documentCount.toString()} dokumennya dipindahkan ke tempat sampah dan dapat
+              dipulihkan dari tab Sampah di halaman Analisis selama 30 hari.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Hapus</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/**
+ * Header control choosing the dataset every page and upload works on, with a dialog to
+ * create, rename, archive and delete datasets
+ */
+export function DatasetSwitcher() {
+  const { datasetId, setDatasetId } = useActiveDataset();
+  const { data: datasets = [], isFetched } = useListDatasets();
+  const createMutation = useCreateDataset();
+  const [newName, setNewName] = useState('');
+
+  // Fall back to the first open dataset when the stored one no longer exists
+  useEffect(() => {
+    if (!isFetched || datasets.length === 0) return;
+    if (!datasets.some((dataset) => dataset.id === datasetId)) {
+      const fallback = datasets.find((dataset) => !dataset.archived) ?? datasets[0];
+      setDatasetId(fallback.id);
+    }
+  }, [datasets, datasetId, isFetched, setDatasetId]);
+
+  const handleCreate = async () => {
+    try {
+      const dataset = await createMutation.mutateAsync(newName);
+      setNewName('');
+      setDatasetId(dataset.id);
+      toast.success(`Dataset ${dataset.name} dibuat dan diaktifkan`);
+    } catch (error) {
+      toast.error('Gagal membuat dataset; pastikan nama belum dipakai');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={datasetId.toString()} onValueChange={(value) => setDatasetId(BigInt(value))}>
+        <SelectTrigger className="h-9 w-[180px] border-white/30 bg-white/15 text-white">
+          <Database className="mr-2 h-4 w-4 shrink-0" />
+          <SelectValue placeholder="Pilih dataset" />
+        </SelectTrigger>
+        <SelectContent>
+          {datasets.map((dataset) => (
+            <SelectItem key={dataset.id.toString()} value={dataset.id.toString()}>
+              {dataset.name}
+              {dataset.archived ? ' (arsip)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="icon" className="text-white/90 hover:bg-white/15 hover:text-white">
+            <FolderCog className="h-5 w-5" />
+            <span className="sr-only">Kelola dataset</span>
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Kelola Dataset</DialogTitle>
+            <DialogDescription>
+              Setiap gelombang survei disimpan sebagai dataset terpisah. Dataset yang diarsipkan tetap dapat dibaca
+              tetapi tidak menerima upload baru.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nama dataset baru"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newName.trim()) handleCreate();
+              }}
+            />
+            <Button onClick={handleCreate} disabled={!newName.trim() || createMutation.isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              Buat
+            </Button>
+          </div>
+          <div className="max-h-[320px] overflow-y-auto">
+            {datasets.map((dataset) => (
+              <DatasetRow key={dataset.id.toString()} dataset={dataset} isOnly={datasets.length === 1} />
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,17 +1,32 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { CheckCircle2, XCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, XCircle, AlertCircle, Loader2, RotateCcw, Trash2, Copy } from 'lucide-react';
 import { ParseDiagnostics } from '@/lib/datasetIngestion';
+import type { DuplicateReport } from '@/lib/deduplication';
+import { PLATFORM_LABELS } from '@/lib/platformImporters';
 
 export interface DatasetUploadStatusProps {
-  state: 'idle' | 'parsing' | 'validating' | 'uploading' | 'done' | 'error';
+  state: 'idle' | 'parsing' | 'validating' | 'reviewing' | 'uploading' | 'done' | 'error';
   totalRows?: number;
   uploadedCount?: number;
   failedCount?: number;
   skippedCount?: number;
+  droppedDuplicateCount?: number;
   errorMessage?: string;
   diagnostics?: ParseDiagnostics;
+  uploadedChunks?: number;
+  totalChunks?: number;
+  // Offered after an upload stops part way, while its session is still open
+  onResume?: () => void;
+  onAbort?: () => void;
+  actionPending?: boolean;
+  // Shown while waiting for the keep-or-drop decision on duplicate rows
+  duplicates?: DuplicateReport;
+  duplicateExamples?: Array<{ rowIndex: number; text: string; original: string; similarity: number }>;
+  onKeepDuplicates?: () => void;
+  onDropDuplicates?: () => void;
 }
 
 export function DatasetUploadStatus({
@@ -20,18 +35,28 @@ export function DatasetUploadStatus({
   uploadedCount = 0,
   failedCount = 0,
   skippedCount = 0,
+  droppedDuplicateCount = 0,
   errorMessage,
   diagnostics,
+  uploadedChunks = 0,
+  totalChunks = 0,
+  onResume,
+  onAbort,
+  actionPending = false,
+  duplicates,
+  duplicateExamples = [],
+  onKeepDuplicates,
+  onDropDuplicates,
 }: DatasetUploadStatusProps) {
   if (state === 'idle') {
     return null;
   }
 
-  // Stage-based progress: parsing (25%), validating (50%), uploading (75-100%)
+  // Stage-based progress: parsing (25%), validating (50%), uploading (50-100% by chunk)
   const getStageProgress = () => {
     if (state === 'parsing') return 25;
-    if (state === 'validating') return 50;
-    if (state === 'uploading') return 75;
+    if (state === 'validating' || state === 'reviewing') return 50;
+    if (state === 'uploading') return totalChunks > 0 ? 50 + (50 * uploadedChunks) / totalChunks : 75;
     if (state === 'done') return 100;
     return 0;
   };
@@ -54,6 +79,12 @@ export function DatasetUploadStatus({
               Validating Data...
             </>
           )}
+          {state === 'reviewing' && (
+            <>
+              <Copy className="h-5 w-5 text-orange-600" />
+              Duplicates Found
+            </>
+          )}
           {state === 'uploading' && (
             <>
               <Loader2 className="h-5 w-5 animate-spin text-primary" />
@@ -76,6 +107,7 @@ export function DatasetUploadStatus({
         <CardDescription>
           {state === 'parsing' && 'Reading and parsing file contents...'}
           {state === 'validating' && 'Checking structure and required columns...'}
+          {state === 'reviewing' && 'Choose whether to upload the repeated rows before continuing'}
           {state === 'uploading' && `Uploading ${totalRows} rows to backend...`}
           {state === 'done' && uploadedCount > 0 && 'Dataset successfully uploaded and ready for analysis'}
           {state === 'error' && 'An error occurred while processing the file'}
@@ -89,13 +121,49 @@ export function DatasetUploadStatus({
               <span>
                 {state === 'parsing' && 'Parsing...'}
                 {state === 'validating' && 'Validating...'}
-                {state === 'uploading' && 'Uploading...'}
+                {state === 'uploading' &&
+                  (totalChunks > 0 ? `Chunk ${uploadedChunks} of ${totalChunks} • ${uploadedCount} rows stored` : 'Uploading...')}
               </span>
               <span>{Math.round(progress)}%</span>
             </div>
           </div>
         )}
 
+        {state === 'reviewing' && duplicates && (
+          <div className="space-y-3">
+            <div className="text-sm">
+              {totalRows} rows parsed • {duplicates.exact.length} exact duplicates •{' '}
+              {duplicates.near.length} near-duplicates (similarity ≥ {Math.round(duplicates.threshold * 100)}%)
+            </div>
+            {duplicateExamples.length > 0 && (
+              <div className="space-y-2 text-xs">
+                {duplicateExamples.map((example) => (
+                  <div key={example.rowIndex} className="rounded border bg-muted/40 p-2">
+                    <div className="font-medium">
+                      Row {example.rowIndex + 1} • {Math.round(example.similarity * 100)}% similar
+                    </div>
+                    <div className="truncate" title={example.text}>
+                      {example.text}
+                    </div>
+                    <div className="truncate text-muted-foreground" title={example.original}>
+                      ↳ {example.original}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={onDropDuplicates} disabled={actionPending}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Drop Duplicates
+              </Button>
+              <Button size="sm" variant="outline" onClick={onKeepDuplicates} disabled={actionPending}>
+                Keep All Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
         {state === 'done' && uploadedCount > 0 && (
           <div className="space-y-2">
             <Alert className="border-green-600/20 bg-green-50 dark:bg-green-950/20">
@@ -106,6 +174,7 @@ export function DatasetUploadStatus({
                   <div className="text-sm">
                     • {uploadedCount} rows uploaded successfully
                     {skippedCount > 0 && ` • ${skippedCount} rows skipped (empty text)`}
+                    {droppedDuplicateCount > 0 && ` • ${droppedDuplicateCount} duplicate rows dropped`}
                     {failedCount > 0 && ` • ${failedCount} rows failed`}
                   </div>
                 </div>
@@ -123,11 +192,50 @@ export function DatasetUploadStatus({
                 <div className="whitespace-pre-wrap font-mono text-xs bg-destructive/10 p-3 rounded border border-destructive/20 max-h-48 overflow-y-auto">
                   {errorMessage}
                 </div>
+
+                {(onResume || onAbort) && (
+                  <div className="space-y-2">
+                    <div className="text-sm">
+                      {uploadedChunks} of {totalChunks} chunks ({uploadedCount} rows) were staged before the upload stopped. They stay hidden until the upload is resumed and completed.
+                    </div>
+                    <div className="flex gap-2">
+                      {onResume && (
+                        <Button size="sm" variant="outline" onClick={onResume} disabled={actionPending}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Resume Upload
+                        </Button>
+                      )}
+                      {onAbort && (
+                        <Button size="sm" variant="outline" onClick={onAbort} disabled={actionPending}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Discard Staged Rows
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
                 
                 {diagnostics && (
                   <div className="mt-3 space-y-2 text-xs">
                     <div className="font-medium text-sm">Parsing Diagnostics:</div>
-                    
+
+                    {diagnostics.source && (
+                      <div className="bg-destructive/5 p-2 rounded border border-destructive/10">
+                        <div><strong>Format:</strong> {diagnostics.source.format.toUpperCase()}</div>
+                        {diagnostics.source.platform && <div><strong>Platform:</strong> {PLATFORM_LABELS[diagnostics.source.platform]} export</div>}
+                        {diagnostics.source.sheetName && <div><strong>Sheet:</strong> {diagnostics.source.sheetName}</div>}
+                        {diagnostics.source.delimiter && (
+                          <div><strong>Delimiter:</strong> {diagnostics.source.delimiter === '\t' ? 'tab' : `"${diagnostics.source.delimiter}"`}</div>
+                        )}
+                        {diagnostics.source.encoding && (
+                          <div>
+                            <strong>Encoding:</strong> {diagnostics.source.encoding}
+                            {diagnostics.source.bom && ' (byte order mark)'}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div className="bg-destructive/5 p-2 rounded border border-destructive/10">
                       <div><strong>Normalized Headers:</strong></div>
                       <div className="font-mono text-[10px] mt-1">
@@ -0,0 +1,112 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Cpu } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { ModelPrediction } from '../backend';
+import { useGetDocumentPredictions, useGetEnsemblePredictions, useAnnotateDocument } from '../hooks/useQueries';
+import { getEmotionDisplayLabel, CANONICAL_EMOTIONS } from '../lib/visualizationState';
+
+interface DocumentPredictionsProps {
+  documentId: bigint;
+}
+
+function PredictionRows({ predictions }: { predictions: ModelPrediction[] }) {
+  return (
+    <div className="space-y-2">
+      {predictions.map((prediction) => (
+        <div key={prediction.model} className="flex items-center justify-between gap-3 text-sm">
+          <div>
+            <p className="font-medium">{prediction.model}</p>
+            <p className="text-xs text-muted-foreground">{prediction.modelVersion}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{getEmotionDisplayLabel(prediction.emotion)}</Badge>
+            <span className="w-12 text-right text-xs text-muted-foreground">
+              {(prediction.confidence * 100).toFixed(1)}%
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PredictionList({ documentId }: DocumentPredictionsProps) {
+  const { data: predictions = [], isLoading } = useGetDocumentPredictions(documentId);
+  const { data: ensembles = [] } = useGetEnsemblePredictions(documentId);
+  const annotateMutation = useAnnotateDocument();
+
+  const handleFeedback = async (emotion: string) => {
+    try {
+      await annotateMutation.mutateAsync({ documentId, emotion });
+      toast.success(`Label ${getEmotionDisplayLabel(emotion)} dipakai untuk memperbarui bobot ensemble`);
+    } catch (error) {
+      toast.error('Gagal menyimpan umpan balik');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-16 items-center justify-center">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (predictions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Belum ada prediksi model untuk dokumen ini</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <PredictionRows predictions={predictions} />
+      {ensembles.length > 0 && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-xs font-medium text-muted-foreground">Ensemble</p>
+          <PredictionRows predictions={ensembles} />
+        </div>
+      )}
+      <div className="space-y-2 border-t pt-3">
+        <p className="text-xs font-medium text-muted-foreground">Label yang benar</p>
+        <Select onValueChange={handleFeedback} disabled={annotateMutation.isPending}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Pilih emosi" />
+          </SelectTrigger>
+          <SelectContent>
+            {CANONICAL_EMOTIONS.map((emotion) => (
+              <SelectItem key={emotion} value={emotion}>
+                {getEmotionDisplayLabel(emotion)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Per-model and ensemble predictions for a document, loaded when the popover is opened;
+ * the correct label picked here is fed back to the adaptive ensembles
+ */
+export function DocumentPredictions({ documentId }: DocumentPredictionsProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+          <Cpu className="mr-1 h-3 w-3" />
+          Prediksi model
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72">
+        <p className="mb-3 text-sm font-semibold">Prediksi per Model</p>
+        {open && <PredictionList documentId={documentId} />}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -3,9 +3,9 @@ import { BarChart3, AlertCircle } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
 import { useMemo } from 'react';
-import { getVisualizationState, sanitizeChartData, normalizeEmotionLabel, getEmotionDisplayLabel } from '../lib/visualizationState';
+import { getVisualizationState, sanitizeChartData, getEmotionDisplayLabel } from '../lib/visualizationState';
 
 interface EmotionChartProps {
   documents: Document[];
@@ -29,9 +29,8 @@ export function EmotionChart({ documents, hasActiveDataset = true }: EmotionChar
     const emotionCounts: Record<string, number> = {};
     
     documents.forEach((doc) => {
-      const analysis = mockEmotionAnalysis(doc.content);
-      // Normalize to English for consistency
-      const normalizedEmotion = normalizeEmotionLabel(analysis.primaryEmotion);
+      const analysis = getDocumentAnalysis(doc);
+      const normalizedEmotion = analysis.primaryEmotion;
       emotionCounts[normalizedEmotion] = (emotionCounts[normalizedEmotion] || 0) + 1;
     });
 
@@ -4,7 +4,7 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLe
 import { Pie, PieChart as RechartsPie, Cell } from 'recharts';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
 import { useMemo } from 'react';
 import { 
   getVisualizationState, 
@@ -34,7 +34,7 @@ export function EmotionDistributionChart({ documents, hasActiveDataset = true }:
     }
 
     // Aggregate using shared helper
-    const emotionCounts = aggregateEmotionTotals(documents, mockEmotionAnalysis);
+    const emotionCounts = aggregateEmotionTotals(documents, getDocumentAnalysis);
 
     // Build data in canonical order, only including emotions present in dataset
     const data: EmotionData[] = [];
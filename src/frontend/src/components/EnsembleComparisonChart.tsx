@@ -3,6 +3,7 @@ import { TrendingUp, AlertCircle } from 'lucide-react';
 import { ChartContainer, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { useMemo } from 'react';
+import type { ConfidenceInterval, MetricIntervals } from '../lib/significanceTests';
 
 interface EnsembleMetric {
   name: string;
@@ -10,6 +11,33 @@ interface EnsembleMetric {
   recall: number;
   f1Score: number;
   accuracy: number;
+  /** Bootstrap confidence intervals drawn as radial whiskers */
+  intervals?: MetricIntervals | null;
+}
+
+type EnsembleKey = 'JC' | 'JA' | 'JD';
+
+interface RadarRow {
+  metric: string;
+  JC: number;
+  JA: number;
+  JD: number;
+  /** Confidence interval bounds per ensemble in percent */
+  intervals: Partial<Record<EnsembleKey, [number, number]>>;
+}
+
+interface RadarDotProps {
+  index?: number;
+  cx?: number;
+  cy?: number;
+  payload?: {
+    cx: number;
+    cy: number;
+    radius: number;
+    angle: number;
+    value: number;
+    payload: RadarRow;
+  };
 }
 
 interface EnsembleComparisonChartProps {
@@ -22,13 +50,8 @@ interface CustomTooltipProps {
   payload?: Array<{
     name: string;
     value: number;
-    dataKey: string;
-    payload: {
-      metric: string;
-      JC: number;
-      JA: number;
-      JD: number;
-    };
+    dataKey: EnsembleKey;
+    payload: RadarRow;
   }>;
 }
 
@@ -53,6 +76,50 @@ function formatPercentage(value: number): string {
   return validatePercentage(value).toFixed(2);
 }
 
+function toPercentageInterval(interval: ConfidenceInterval | undefined): [number, number] | undefined {
+  return interval ? [toPercentage(interval.low), toPercentage(interval.high)] : undefined;
+}
+
+/**
+ * Radar dot with a radial whisker spanning the confidence interval of the point's value
+ */
+function renderWhiskerDot(key: EnsembleKey, color: string) {
+  return function WhiskerDot({ index, cx, cy, payload }: RadarDotProps) {
+    if (cx === undefined || cy === undefined || !payload) {
+      return <g key={`whisker-${key}-${index}`} />;
+    }
+
+    const interval = payload.payload.intervals[key];
+    // The radius axis is linear from 0, so a value's radius scales with the point's own
+    const scale = payload.value > 0 ? payload.radius / payload.value : 0;
+    const radians = (-payload.angle * Math.PI) / 180;
+    const ux = Math.cos(radians);
+    const uy = Math.sin(radians);
+    const at = (value: number) => ({ x: payload.cx + value * scale * ux, y: payload.cy + value * scale * uy });
+    const cap = 4;
+
+    return (
+      <g key={`whisker-${key}-${index}`}>
+        {interval && scale > 0 && (
+          <g stroke={color} strokeWidth={1.5}>
+            <line x1={at(interval[0]).x} y1={at(interval[0]).y} x2={at(interval[1]).x} y2={at(interval[1]).y} />
+            {interval.map((bound) => (
+              <line
+                key={bound}
+                x1={at(bound).x - cap * uy}
+                y1={at(bound).y + cap * ux}
+                x2={at(bound).x + cap * uy}
+                y2={at(bound).y - cap * ux}
+              />
+            ))}
+          </g>
+        )}
+        <circle cx={cx} cy={cy} r={5} fill={color} strokeWidth={2} stroke="oklch(var(--background))" />
+      </g>
+    );
+  };
+}
+
 const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
   if (active && payload && payload.length) {
     const metric = payload[0].payload.metric;
@@ -79,6 +146,11 @@ const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
               </div>
               <span className="text-sm font-bold text-card-foreground">
                 {formatPercentage(entry.value)}%
+                {entry.payload.intervals[entry.dataKey] && (
+                  <span className="ml-1 text-xs font-normal text-muted-foreground">
+                    [{entry.payload.intervals[entry.dataKey]?.map(formatPercentage).join('–')}]
+                  </span>
+                )}
               </span>
             </div>
           ))}
@@ -91,7 +163,7 @@ const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
 
 export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: EnsembleComparisonChartProps) {
   // Ensure metrics array has exactly 3 elements (JC, JA, JD) and convert to percentages with validation
-  const data = useMemo(() => {
+  const data = useMemo((): RadarRow[] => {
     if (!hasActiveDataset || metrics.length === 0) return [];
     
     // Validate we have the expected 3 ensemble methods
@@ -105,24 +177,44 @@ export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: En
         JC: toPercentage(metrics[0]?.precision || 0),
         JA: toPercentage(metrics[1]?.precision || 0),
         JD: toPercentage(metrics[2]?.precision || 0),
+        intervals: {
+          JC: toPercentageInterval(metrics[0]?.intervals?.precision),
+          JA: toPercentageInterval(metrics[1]?.intervals?.precision),
+          JD: toPercentageInterval(metrics[2]?.intervals?.precision),
+        },
       },
       {
         metric: 'Recall',
         JC: toPercentage(metrics[0]?.recall || 0),
         JA: toPercentage(metrics[1]?.recall || 0),
         JD: toPercentage(metrics[2]?.recall || 0),
+        intervals: {
+          JC: toPercentageInterval(metrics[0]?.intervals?.recall),
+          JA: toPercentageInterval(metrics[1]?.intervals?.recall),
+          JD: toPercentageInterval(metrics[2]?.intervals?.recall),
+        },
       },
       {
         metric: 'F1-Score',
         JC: toPercentage(metrics[0]?.f1Score || 0),
         JA: toPercentage(metrics[1]?.f1Score || 0),
         JD: toPercentage(metrics[2]?.f1Score || 0),
+        intervals: {
+          JC: toPercentageInterval(metrics[0]?.intervals?.f1Score),
+          JA: toPercentageInterval(metrics[1]?.intervals?.f1Score),
+          JD: toPercentageInterval(metrics[2]?.intervals?.f1Score),
+        },
       },
       {
         metric: 'Accuracy',
         JC: toPercentage(metrics[0]?.accuracy || 0),
         JA: toPercentage(metrics[1]?.accuracy || 0),
         JD: toPercentage(metrics[2]?.accuracy || 0),
+        intervals: {
+          JC: toPercentageInterval(metrics[0]?.intervals?.accuracy),
+          JA: toPercentageInterval(metrics[1]?.intervals?.accuracy),
+          JD: toPercentageInterval(metrics[2]?.intervals?.accuracy),
+        },
       },
     ];
   }, [metrics, hasActiveDataset]);
@@ -175,7 +267,10 @@ export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: En
           <TrendingUp className="h-5 w-5 text-primary" />
           Perbandingan Ensemble
         </CardTitle>
-        <CardDescription>Radar chart performa algoritma CJT dengan tooltip akurat dan legend yang selaras (skala 0-100%)</CardDescription>
+        <CardDescription>
+          Radar chart performa algoritma CJT dengan tooltip akurat dan legend yang selaras (skala 0-100%, whisker = interval
+          kepercayaan bootstrap 95%)
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <ChartContainer config={chartConfig} className="h-[400px] w-full">
@@ -242,12 +337,7 @@ export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: En
                 fill="url(#gradientJC)"
                 strokeWidth={3}
                 filter="url(#shadowJC)"
-                dot={{ 
-                  r: 5, 
-                  fill: 'oklch(var(--chart-1))',
-                  strokeWidth: 2,
-                  stroke: 'oklch(var(--background))',
-                }}
+                dot={renderWhiskerDot('JC', 'oklch(var(--chart-1))')}
                 activeDot={{ 
                   r: 7,
                   fill: 'oklch(var(--chart-1))',
@@ -264,12 +354,7 @@ export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: En
                 fill="url(#gradientJA)"
                 strokeWidth={3}
                 filter="url(#shadowJA)"
-                dot={{ 
-                  r: 5, 
-                  fill: 'oklch(var(--chart-2))',
-                  strokeWidth: 2,
-                  stroke: 'oklch(var(--background))',
-                }}
+                dot={renderWhiskerDot('JA', 'oklch(var(--chart-2))')}
                 activeDot={{ 
                   r: 7,
                   fill: 'oklch(var(--chart-2))',
@@ -286,12 +371,7 @@ export function EnsembleComparisonChart({ metrics, hasActiveDataset = true }: En
                 fill="url(#gradientJD)"
                 strokeWidth={3}
                 filter="url(#shadowJD)"
-                dot={{ 
-                  r: 5, 
-                  fill: 'oklch(var(--chart-3))',
-                  strokeWidth: 2,
-                  stroke: 'oklch(var(--background))',
-                }}
+                dot={renderWhiskerDot('JD', 'oklch(var(--chart-3))')}
                 activeDot={{ 
                   r: 7,
                   fill: 'oklch(var(--chart-3))',
@@ -8,11 +8,10 @@ import {
   sanitizeChartData, 
   getEmotionDisplayLabel,
   CANONICAL_EMOTIONS,
-  aggregateEmotionTotals,
-  normalizeEmotionLabel
+  aggregateEmotionTotals
 } from '../lib/visualizationState';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
 
 interface GenderEmotionChartProps {
   documents: Document[];
@@ -26,7 +25,7 @@ export function GenderEmotionChart({ documents, hasActiveDataset = true }: Gende
     }
 
     // Aggregate overall emotion totals using shared helper
-    const overallEmotionCounts = aggregateEmotionTotals(documents, mockEmotionAnalysis);
+    const overallEmotionCounts = aggregateEmotionTotals(documents, getDocumentAnalysis);
 
     // Aggregate gender-specific counts
     // For demo purposes, we'll derive gender from document ID (even=male, odd=female)
@@ -34,8 +33,7 @@ export function GenderEmotionChart({ documents, hasActiveDataset = true }: Gende
     const genderEmotionCounts: Record<string, { male: number; female: number }> = {};
     
     documents.forEach((doc) => {
-      const analysis = mockEmotionAnalysis(doc.content);
-      const normalizedEmotion = normalizeEmotionLabel(analysis.primaryEmotion);
+      const normalizedEmotion = getDocumentAnalysis(doc).primaryEmotion;
       
       if (!genderEmotionCounts[normalizedEmotion]) {
         genderEmotionCounts[normalizedEmotion] = { male: 0, female: 0 };
@@ -1,8 +1,10 @@
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
-import { Menu, Moon, Sun, BarChart3, TrendingUp, Settings, Home, ShoppingCart, FileText } from 'lucide-react';
+import { Menu, Moon, Sun, BarChart3, TrendingUp, Settings, Home, ShoppingCart, FileText, Tag, Shield, BookOpen } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useNavigate, useRouterState } from '@tanstack/react-router';
+import { DatasetSwitcher } from './DatasetSwitcher';
+import { LoginButton } from './LoginButton';
 
 export function Header() {
   const { theme, setTheme } = useTheme();
@@ -16,6 +18,9 @@ export function Header() {
     { path: '/purchase-intention', label: 'Intensi Pembelian', icon: ShoppingCart },
     { path: '/report', label: 'Strategic Report', icon: FileText },
     { path: '/metrics', label: 'Metrik', icon: TrendingUp },
+    { path: '/labeling', label: 'Anotasi', icon: Tag },
+    { path: '/lexicon', label: 'Kamus Slang', icon: BookOpen },
+    { path: '/access', label: 'Akses', icon: Shield },
     { path: '/settings', label: 'Pengaturan', icon: Settings },
   ];
 
@@ -58,6 +63,7 @@ export function Header() {
         </div>
 
         <div className="flex items-center gap-2">
+          <DatasetSwitcher />
           <Button
             variant="ghost"
             size="icon"
@@ -68,6 +74,7 @@ export function Header() {
             <Moon className="absolute h-5 w-5 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
             <span className="sr-only">Toggle theme</span>
           </Button>
+          <LoginButton />
 
           <Sheet>
             <SheetTrigger asChild className="md:hidden">
@@ -2,17 +2,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Package } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
-import { useGetAllDocuments } from '../hooks/useQueries';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
 import { useMemo } from 'react';
 import { computeIntentionByBrand } from '../lib/purchaseIntentionAggregation';
 
 export function IntentionBrandCorrelation() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
 
   const data = useMemo(() => {
     if (documents.length === 0) return [];
 
-    const brandData = computeIntentionByBrand(documents);
+    const brandData = computeIntentionByBrand(documents, lexicon);
 
     return brandData.map((item) => ({
       brand: item.brand,
@@ -20,7 +21,7 @@ export function IntentionBrandCorrelation() {
       sedang: item.medium,
       rendah: item.low,
     }));
-  }, [documents]);
+  }, [documents, lexicon]);
 
   const hasData = data.length > 0;
 
@@ -2,19 +2,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Users, MapPin } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
-import { useGetAllDocuments } from '../hooks/useQueries';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
 import { useMemo } from 'react';
 import { computeIntentionDistribution, computeGenderBreakdown, computeLocationBreakdown } from '../lib/purchaseIntentionAggregation';
 
 export function IntentionDemographics() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
 
   const { genderData, locationData } = useMemo(() => {
     if (documents.length === 0) {
       return { genderData: [], locationData: [] };
     }
 
-    const distribution = computeIntentionDistribution(documents);
+    const distribution = computeIntentionDistribution(documents, lexicon);
     const gender = computeGenderBreakdown(distribution);
     const location = computeLocationBreakdown(distribution);
 
@@ -32,7 +33,7 @@ export function IntentionDemographics() {
         rendah: item.low,
       })),
     };
-  }, [documents]);
+  }, [documents, lexicon]);
 
   const hasData = genderData.length > 0 && locationData.length > 0;
 
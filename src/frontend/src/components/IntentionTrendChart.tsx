@@ -2,46 +2,42 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { TrendingUp } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Line, LineChart, CartesianGrid, XAxis, YAxis } from 'recharts';
-import { useGetAllDocuments } from '../hooks/useQueries';
-import { useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
+import { useMemo, useState } from 'react';
 import { computeIntentionTrends } from '../lib/purchaseIntentionAggregation';
+import { TIME_GRANULARITY_LABELS, type TimeGranularity } from '../lib/temporalBuckets';
+
+const INTENTION_LEVELS = ['high', 'medium', 'low'] as const;
 
 export function IntentionTrendChart() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
+
+  const [granularity, setGranularity] = useState<TimeGranularity>('month');
 
   const { data, levels } = useMemo(() => {
     if (documents.length === 0) return { data: [], levels: [] };
 
-    const trends = computeIntentionTrends(documents);
-
-    // Group by level
-    const trendsByLevel: Record<string, Array<{ id: number; trend: number }>> = {};
-    trends.forEach((trend) => {
-      const level = trend.intentionLevel;
-      if (!trendsByLevel[level]) {
-        trendsByLevel[level] = [];
-      }
-      trendsByLevel[level].push({
-        id: trend.id,
-        trend: trend.trend,
-      });
-    });
+    const trends = computeIntentionTrends(documents, granularity, lexicon);
 
-    // Create time series data
-    const chartData = Array.from({ length: 6 }, (_, i) => {
-      const point: Record<string, number | string> = { period: `T${i + 1}` };
-      Object.entries(trendsByLevel).forEach(([level, levelTrends]) => {
-        const trendValue = levelTrends[i % levelTrends.length]?.trend || 0;
-        point[level] = trendValue;
+    // One row per period with the average score of each intention level
+    const chartData = trends.map((trend) => {
+      const point: Record<string, number | string> = { period: trend.period };
+      INTENTION_LEVELS.forEach((level) => {
+        const score = trend.levelScores[level];
+        if (score !== undefined) {
+          point[level] = score;
+        }
       });
       return point;
     });
 
     return {
       data: chartData,
-      levels: Object.keys(trendsByLevel),
+      levels: INTENTION_LEVELS.filter((level) => trends.some((trend) => trend.levelScores[level] !== undefined)),
     };
-  }, [documents]);
+  }, [documents, granularity, lexicon]);
 
   const hasData = data.length > 0 && levels.length > 0;
 
@@ -62,14 +58,28 @@ export function IntentionTrendChart() {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <TrendingUp className="h-5 w-5 text-primary" />
-          Tren Historis Intensi Pembelian
-        </CardTitle>
-        <CardDescription>
-          Evolusi skor intensi pembelian dari waktu ke waktu
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Tren Historis Intensi Pembelian
+          </CardTitle>
+          <CardDescription>
+            Rata-rata skor intensi per level berdasarkan tanggal posting
+          </CardDescription>
+        </div>
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as TimeGranularity)}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TIME_GRANULARITY_LABELS) as TimeGranularity[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {TIME_GRANULARITY_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent>
         {isLoading ? (
@@ -97,14 +107,15 @@ export function IntentionTrendChart() {
               />
               <ChartTooltip content={<ChartTooltipContent />} />
               <ChartLegend content={<ChartLegendContent />} />
-              {levels.map((level, index) => (
+              {levels.map((level) => (
                 <Line
                   key={level}
                   type="monotone"
                   dataKey={level}
-                  stroke={`var(--chart-${(index % 5) + 1})`}
+                  stroke={chartConfig[level].color}
                   strokeWidth={2}
                   dot={{ r: 4 }}
+                  connectNulls
                 />
               ))}
             </LineChart>
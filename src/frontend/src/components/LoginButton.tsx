@@ -0,0 +1,34 @@
+import { Button } from '@/components/ui/button';
+import { LogIn, LogOut } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+
+/**
+ * Internet Identity sign-in; uploads, annotations and dataset management require a signed-in principal
+ */
+export function LoginButton() {
+  const { identity, login, clear, isLoggingIn, isInitializing } = useInternetIdentity();
+  const queryClient = useQueryClient();
+
+  const handleClick = () => {
+    if (identity) {
+      clear();
+      queryClient.clear();
+    } else {
+      login();
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      disabled={isLoggingIn || isInitializing}
+      className="gap-2 text-white/90 hover:bg-white/15 hover:text-white"
+    >
+      {identity ? <LogOut className="h-4 w-4" /> : <LogIn className="h-4 w-4" />}
+      <span className="hidden lg:inline">{identity ? 'Keluar' : isLoggingIn ? 'Masuk...' : 'Masuk'}</span>
+    </Button>
+  );
+}
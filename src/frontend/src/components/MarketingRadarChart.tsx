@@ -5,6 +5,7 @@ import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis } from 'r
 import type { Document } from '../backend';
 import { computeMarketingMetrics } from '../lib/marketingMetrics';
 import { useMemo } from 'react';
+import { useSlangLexicon } from '../hooks/useQueries';
 import { getVisualizationState, toFiniteNumber, clamp } from '../lib/visualizationState';
 
 interface MarketingRadarChartProps {
@@ -13,13 +14,15 @@ interface MarketingRadarChartProps {
 }
 
 export function MarketingRadarChart({ documents, hasActiveDataset = true }: MarketingRadarChartProps) {
+  const lexicon = useSlangLexicon();
+
   // Compute marketing metrics (returns array of {metric, score})
   const metricsArray = useMemo(() => {
     if (!hasActiveDataset || !documents || documents.length === 0) {
       return [];
     }
-    return computeMarketingMetrics(documents);
-  }, [documents, hasActiveDataset]);
+    return computeMarketingMetrics(documents, lexicon);
+  }, [documents, hasActiveDataset, lexicon]);
 
   // Prepare chart data with validation
   const chartData = useMemo(() => {
@@ -1,8 +1,9 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart3, AlertCircle } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
-import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis } from 'recharts';
 import { useMemo } from 'react';
+import type { MetricIntervals } from '../lib/significanceTests';
 
 interface ModelMetric {
   name: string;
@@ -10,6 +11,19 @@ interface ModelMetric {
   recall: number;
   f1Score: number;
   accuracy: number;
+  /** Bootstrap confidence intervals drawn as whiskers */
+  intervals?: MetricIntervals | null;
+}
+
+type BarMetric = 'Precision' | 'Recall' | 'F1-Score';
+
+interface ChartRow {
+  model: string;
+  Precision: number;
+  Recall: number;
+  'F1-Score': number;
+  /** Confidence interval bounds per metric in percent */
+  intervals: Partial<Record<BarMetric, [number, number]>>;
 }
 
 interface ModelPerformanceChartProps {
@@ -22,8 +36,9 @@ interface CustomTooltipProps {
   payload?: Array<{
     name: string;
     value: number;
-    dataKey: string;
+    dataKey: BarMetric;
     color: string;
+    payload: ChartRow;
   }>;
   label?: string;
 }
@@ -49,28 +64,45 @@ function formatPercentage(value: number): string {
   return validatePercentage(value).toFixed(2);
 }
 
+/**
+ * Whisker lengths below and above the bar for a metric's confidence interval
+ */
+function errorRange(row: ChartRow, metric: BarMetric): [number, number] {
+  const interval = row.intervals[metric];
+  if (!interval) return [0, 0];
+  return [Math.max(0, row[metric] - interval[0]), Math.max(0, interval[1] - row[metric])];
+}
+
 const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
   if (active && payload && payload.length) {
     return (
       <div className="rounded-lg border border-border bg-card p-3 shadow-lg">
         <p className="mb-2 font-semibold text-card-foreground">{label}</p>
         <div className="space-y-1.5">
-          {payload.map((entry) => (
-            <div key={entry.dataKey} className="flex items-center justify-between gap-4">
-              <div className="flex items-center gap-2">
-                <div
-                  className="h-3 w-3 rounded-full"
-                  style={{ backgroundColor: entry.color }}
-                />
-                <span className="text-sm font-medium text-muted-foreground">
-                  {entry.dataKey}
+          {payload.map((entry) => {
+            const interval = entry.payload.intervals[entry.dataKey];
+            return (
+              <div key={entry.dataKey} className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <div
+                    className="h-3 w-3 rounded-full"
+                    style={{ backgroundColor: entry.color }}
+                  />
+                  <span className="text-sm font-medium text-muted-foreground">
+                    {entry.dataKey}
+                  </span>
+                </div>
+                <span className="text-sm font-bold text-card-foreground">
+                  {formatPercentage(entry.value)}%
+                  {interval && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">
+                      [{formatPercentage(interval[0])}–{formatPercentage(interval[1])}]
+                    </span>
+                  )}
                 </span>
               </div>
-              <span className="text-sm font-bold text-card-foreground">
-                {formatPercentage(entry.value)}%
-              </span>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     );
@@ -80,13 +112,20 @@ const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
 
 export function ModelPerformanceChart({ metrics, hasActiveDataset = true }: ModelPerformanceChartProps) {
   // Convert decimal metrics (0-1) to percentages (0-100) with validation
-  const data = useMemo(() => {
+  const data = useMemo((): ChartRow[] => {
     if (!hasActiveDataset) return [];
     return metrics.map((metric) => ({
       model: metric.name,
       Precision: toPercentage(metric.precision),
       Recall: toPercentage(metric.recall),
       'F1-Score': toPercentage(metric.f1Score),
+      intervals: metric.intervals
+        ? {
+            Precision: [toPercentage(metric.intervals.precision.low), toPercentage(metric.intervals.precision.high)],
+            Recall: [toPercentage(metric.intervals.recall.low), toPercentage(metric.intervals.recall.high)],
+            'F1-Score': [toPercentage(metric.intervals.f1Score.low), toPercentage(metric.intervals.f1Score.high)],
+          }
+        : {},
     }));
   }, [metrics, hasActiveDataset]);
 
@@ -138,7 +177,9 @@ export function ModelPerformanceChart({ metrics, hasActiveDataset = true }: Mode
           <BarChart3 className="h-5 w-5 text-primary" />
           Perbandingan Performa Model
         </CardTitle>
-        <CardDescription>Metrik precision, recall, dan F1-score per model (skala 0-100%)</CardDescription>
+        <CardDescription>
+          Metrik precision, recall, dan F1-score per model (skala 0-100%, whisker = interval kepercayaan bootstrap 95%)
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <ChartContainer config={chartConfig} className="h-[350px] w-full">
@@ -164,9 +205,17 @@ export function ModelPerformanceChart({ metrics, hasActiveDataset = true }: Mode
             />
             <ChartTooltip content={<CustomTooltip />} />
             <ChartLegend content={<ChartLegendContent />} />
-            <Bar dataKey="Precision" fill="oklch(var(--chart-1))" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="Recall" fill="oklch(var(--chart-2))" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="F1-Score" fill="oklch(var(--chart-3))" radius={[4, 4, 0, 0]} />
+            {(Object.keys(chartConfig) as BarMetric[]).map((metric) => (
+              <Bar key={metric} dataKey={metric} fill={chartConfig[metric].color} radius={[4, 4, 0, 0]}>
+                <ErrorBar
+                  dataKey={(row: ChartRow) => errorRange(row, metric)}
+                  width={6}
+                  strokeWidth={1.5}
+                  stroke="oklch(var(--foreground))"
+                  direction="y"
+                />
+              </Bar>
+            ))}
           </BarChart>
         </ChartContainer>
       </CardContent>
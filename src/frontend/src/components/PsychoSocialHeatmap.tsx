@@ -4,6 +4,7 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import type { Document } from '../backend';
 import { computePsychoSocialMatrix } from '../lib/psychoSocialMetrics';
 import { useMemo } from 'react';
+import { useSlangLexicon } from '../hooks/useQueries';
 import { getVisualizationState, safe2DArrayAccess, validateMatrixDimensions } from '../lib/visualizationState';
 
 interface PsychoSocialHeatmapProps {
@@ -67,13 +68,15 @@ const dimensions = [
 const emotions = ['Interest', 'Trust', 'Fear', 'Skepticism', 'Satisfaction'];
 
 export function PsychoSocialHeatmap({ documents, hasActiveDataset = true }: PsychoSocialHeatmapProps) {
+  const lexicon = useSlangLexicon();
+
   // Compute psycho-social matrix
   const matrix = useMemo(() => {
     if (!hasActiveDataset || !documents || documents.length === 0) {
       return [];
     }
-    return computePsychoSocialMatrix(documents);
-  }, [documents, hasActiveDataset]);
+    return computePsychoSocialMatrix(documents, lexicon);
+  }, [documents, hasActiveDataset, lexicon]);
 
   // Validate matrix dimensions
   const isValidMatrix = useMemo(() => {
@@ -2,17 +2,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { ShoppingCart } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
 import { Pie, PieChart, Cell } from 'recharts';
-import { useGetAllDocuments } from '../hooks/useQueries';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
 import { useMemo } from 'react';
 import { computeIntentionDistribution } from '../lib/purchaseIntentionAggregation';
 
 export function PurchaseIntentionChart() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
 
   const data = useMemo(() => {
     if (documents.length === 0) return [];
 
-    const distribution = computeIntentionDistribution(documents);
+    const distribution = computeIntentionDistribution(documents, lexicon);
 
     return [
       {
@@ -31,7 +32,7 @@ export function PurchaseIntentionChart() {
         fill: 'var(--chart-4)',
       },
     ];
-  }, [documents]);
+  }, [documents, lexicon]);
 
   const hasData = data.some((item) => item.value > 0);
 
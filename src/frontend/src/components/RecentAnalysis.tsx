@@ -2,7 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { FileText } from 'lucide-react';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
+import { getEmotionDisplayLabel } from '../lib/visualizationState';
 
 interface RecentAnalysisProps {
   documents: Document[];
@@ -26,7 +27,7 @@ export function RecentAnalysis({ documents }: RecentAnalysisProps) {
             </div>
           ) : (
             documents.map((doc) => {
-              const analysis = mockEmotionAnalysis(doc.content);
+              const analysis = getDocumentAnalysis(doc);
               return (
                 <div
                   key={doc.id.toString()}
@@ -34,7 +35,7 @@ export function RecentAnalysis({ documents }: RecentAnalysisProps) {
                 >
                   <div className="mb-2 flex items-center gap-2">
                     <Badge variant="default" className="text-xs">
-                      {analysis.primaryEmotion}
+                      {getEmotionDisplayLabel(analysis.primaryEmotion)}
                     </Badge>
                     <Badge variant="outline" className="text-xs">
                       {(analysis.confidence * 100).toFixed(0)}%
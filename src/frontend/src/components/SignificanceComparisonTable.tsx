@@ -0,0 +1,177 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scale, AlertCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import {
+  compareModels,
+  SIGNIFICANCE_LEVEL,
+  type LabeledPrediction,
+  type ModelComparison,
+} from '../lib/significanceTests';
+
+interface SignificanceComparisonTableProps {
+  /** Models selectable for a custom comparison */
+  modelNames: string[];
+  /** Pairs always listed in the table */
+  defaultPairs: Array<[string, string]>;
+  labeledPredictions: Record<string, LabeledPrediction[]>;
+  hasActiveDataset?: boolean;
+}
+
+/**
+ * Formats decimal metric (0-1) to percentage string with 2 decimal places
+ */
+function formatMetricPercentage(value: number): string {
+  return (value * 100).toFixed(2);
+}
+
+/**
+ * Formats a p-value, switching to a bound below 0.001
+ */
+function formatPValue(value: number): string {
+  return value < 0.001 ? '< 0.001' : value.toFixed(3);
+}
+
+function ComparisonRow({ comparison, highlighted = false }: { comparison: ModelComparison; highlighted?: boolean }) {
+  const { mcNemar, differenceInterval } = comparison;
+  const significant = comparison.pairedCount > 0 && mcNemar.pValue < SIGNIFICANCE_LEVEL;
+
+  return (
+    <tr className={`border-b last:border-0 ${highlighted ? 'bg-primary/5' : ''}`}>
+      <td className="py-3 font-medium">
+        {comparison.modelA} vs {comparison.modelB}
+      </td>
+      <td className="py-3 text-right text-muted-foreground">{comparison.pairedCount}</td>
+      <td className="py-3 text-right">{formatMetricPercentage(comparison.accuracyA)}%</td>
+      <td className="py-3 text-right">{formatMetricPercentage(comparison.accuracyB)}%</td>
+      <td className="py-3 text-right">
+        {comparison.difference >= 0 ? '+' : ''}
+        {formatMetricPercentage(comparison.difference)}
+        {differenceInterval && (
+          <span className="ml-1 text-xs text-muted-foreground">
+            [{formatMetricPercentage(differenceInterval.low)}, {formatMetricPercentage(differenceInterval.high)}]
+          </span>
+        )}
+      </td>
+      <td className="py-3 text-right text-muted-foreground">
+        {mcNemar.onlyACorrect} / {mcNemar.onlyBCorrect}
+      </td>
+      <td className="py-3 text-right">
+        {formatPValue(mcNemar.pValue)}
+        <span className="ml-1 text-xs text-muted-foreground">{mcNemar.exact ? 'exact' : `χ²=${mcNemar.statistic.toFixed(2)}`}</span>
+      </td>
+      <td className="py-3 text-right">
+        <Badge variant={significant ? 'default' : 'secondary'}>{significant ? 'Signifikan' : 'Tidak signifikan'}</Badge>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * McNemar's test and bootstrap accuracy-difference intervals for pairs of models
+ */
+export function SignificanceComparisonTable({
+  modelNames,
+  defaultPairs,
+  labeledPredictions,
+  hasActiveDataset = true,
+}: SignificanceComparisonTableProps) {
+  const [modelA, setModelA] = useState<string>(defaultPairs[0]?.[0] ?? modelNames[0]);
+  const [modelB, setModelB] = useState<string>(defaultPairs[0]?.[1] ?? modelNames[1]);
+
+  const hasLabeledData = Object.values(labeledPredictions).some((predictions) => predictions.length > 0);
+
+  const comparisons = useMemo(() => {
+    if (!hasLabeledData) return [];
+    return defaultPairs.map(([a, b]) => compareModels(a, labeledPredictions[a] ?? [], b, labeledPredictions[b] ?? []));
+  }, [defaultPairs, labeledPredictions, hasLabeledData]);
+
+  // Shown on top of the table unless it is one of the default pairs already listed
+  const customComparison = useMemo(() => {
+    const isDefaultPair = defaultPairs.some(([a, b]) => a === modelA && b === modelB);
+    if (!hasLabeledData || modelA === modelB || isDefaultPair) return null;
+    return compareModels(modelA, labeledPredictions[modelA] ?? [], modelB, labeledPredictions[modelB] ?? []);
+  }, [modelA, modelB, defaultPairs, labeledPredictions, hasLabeledData]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-primary" />
+          Uji Signifikansi Antar Model
+        </CardTitle>
+        <CardDescription>
+          McNemar test pada prediksi berpasangan per dokumen berlabel, dengan interval kepercayaan bootstrap 95% untuk
+          selisih akurasi (signifikan jika p &lt; {SIGNIFICANCE_LEVEL})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasActiveDataset || !hasLabeledData ? (
+          <div className="flex h-[160px] flex-col items-center justify-center gap-3 text-center">
+            <AlertCircle className="h-10 w-10 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">
+              {!hasActiveDataset
+                ? 'Upload dataset untuk membandingkan model'
+                : 'Belum ada dokumen berlabel untuk uji signifikansi'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Bandingkan</span>
+              <Select value={modelA} onValueChange={setModelA}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">dengan</span>
+              <Select value={modelB} onValueChange={setModelB}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="pb-3 text-left font-medium">Perbandingan</th>
+                    <th className="pb-3 text-right font-medium">n</th>
+                    <th className="pb-3 text-right font-medium">Akurasi A</th>
+                    <th className="pb-3 text-right font-medium">Akurasi B</th>
+                    <th className="pb-3 text-right font-medium">Δ Akurasi [CI 95%]</th>
+                    <th className="pb-3 text-right font-medium">Hanya A / Hanya B benar</th>
+                    <th className="pb-3 text-right font-medium">p-value</th>
+                    <th className="pb-3 text-right font-medium">Hasil</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customComparison && <ComparisonRow comparison={customComparison} highlighted />}
+                  {comparisons.map((comparison) => (
+                    <ComparisonRow key={`${comparison.modelA}-${comparison.modelB}`} comparison={comparison} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,55 +1,58 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp } from 'lucide-react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Line, LineChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { useMemo, useState } from 'react';
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
+import { groupDocumentsByPeriod, TIME_GRANULARITY_LABELS, type TimeGranularity } from '../lib/temporalBuckets';
 
 interface TemporalEvolutionChartProps {
   documents: Document[];
 }
 
 export function TemporalEvolutionChart({ documents }: TemporalEvolutionChartProps) {
-  // Group documents by time periods (simplified for demo)
-  const timeGroups: Record<string, Record<string, number>> = {};
-  
-  documents.forEach((doc, index) => {
-    const period = `T${Math.floor(index / 5) + 1}`;
-    if (!timeGroups[period]) {
-      timeGroups[period] = {};
-    }
-    const analysis = mockEmotionAnalysis(doc.content);
-    timeGroups[period][analysis.primaryEmotion] = 
-      (timeGroups[period][analysis.primaryEmotion] || 0) + 1;
-  });
+  const [granularity, setGranularity] = useState<TimeGranularity>('week');
 
-  const data = Object.entries(timeGroups).map(([period, emotions]) => ({
-    period,
-    minat: emotions['minat'] || 0,
-    kepercayaan: emotions['kepercayaan'] || 0,
-    kepuasan: emotions['kepuasan'] || 0,
-    skeptisisme: emotions['skeptisisme'] || 0,
-    ketakutan: emotions['ketakutan'] || 0,
-  }));
+  // Group documents by the day/week/month of their original post date
+  const data = useMemo(() => {
+    return groupDocumentsByPeriod(documents, granularity).map((bucket) => {
+      const emotions: Record<string, number> = {};
+      bucket.items.forEach((doc) => {
+        const { primaryEmotion } = getDocumentAnalysis(doc);
+        emotions[primaryEmotion] = (emotions[primaryEmotion] || 0) + 1;
+      });
+
+      return {
+        period: bucket.label,
+        interest: emotions['interest'] || 0,
+        trust: emotions['trust'] || 0,
+        satisfaction: emotions['satisfaction'] || 0,
+        skepticism: emotions['skepticism'] || 0,
+        fear: emotions['fear'] || 0,
+      };
+    });
+  }, [documents, granularity]);
 
   const chartConfig = {
-    minat: {
+    interest: {
       label: 'Minat',
       color: 'var(--chart-1)',
     },
-    kepercayaan: {
+    trust: {
       label: 'Kepercayaan',
       color: 'var(--chart-2)',
     },
-    kepuasan: {
+    satisfaction: {
       label: 'Kepuasan',
       color: 'var(--chart-3)',
     },
-    skeptisisme: {
+    skepticism: {
       label: 'Skeptisisme',
       color: 'var(--chart-4)',
     },
-    ketakutan: {
+    fear: {
       label: 'Ketakutan',
       color: 'var(--chart-5)',
     },
@@ -57,12 +60,26 @@ export function TemporalEvolutionChart({ documents }: TemporalEvolutionChartProp
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <TrendingUp className="h-5 w-5 text-primary" />
-          Evolusi Temporal
-        </CardTitle>
-        <CardDescription>Perubahan emosi dari waktu ke waktu</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-primary" />
+            Evolusi Temporal
+          </CardTitle>
+          <CardDescription>Perubahan emosi berdasarkan tanggal posting</CardDescription>
+        </div>
+        <Select value={granularity} onValueChange={(value) => setGranularity(value as TimeGranularity)}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TIME_GRANULARITY_LABELS) as TimeGranularity[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {TIME_GRANULARITY_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent>
         {data.length === 0 ? (
@@ -86,11 +103,11 @@ export function TemporalEvolutionChart({ documents }: TemporalEvolutionChartProp
               />
               <ChartTooltip content={<ChartTooltipContent />} />
               <ChartLegend content={<ChartLegendContent />} />
-              <Line type="monotone" dataKey="minat" stroke="var(--chart-1)" strokeWidth={2} />
-              <Line type="monotone" dataKey="kepercayaan" stroke="var(--chart-2)" strokeWidth={2} />
-              <Line type="monotone" dataKey="kepuasan" stroke="var(--chart-3)" strokeWidth={2} />
-              <Line type="monotone" dataKey="skeptisisme" stroke="var(--chart-4)" strokeWidth={2} />
-              <Line type="monotone" dataKey="ketakutan" stroke="var(--chart-5)" strokeWidth={2} />
+              <Line type="monotone" dataKey="interest" stroke="var(--chart-1)" strokeWidth={2} />
+              <Line type="monotone" dataKey="trust" stroke="var(--chart-2)" strokeWidth={2} />
+              <Line type="monotone" dataKey="satisfaction" stroke="var(--chart-3)" strokeWidth={2} />
+              <Line type="monotone" dataKey="skepticism" stroke="var(--chart-4)" strokeWidth={2} />
+              <Line type="monotone" dataKey="fear" stroke="var(--chart-5)" strokeWidth={2} />
             </LineChart>
           </ChartContainer>
         )}
@@ -0,0 +1,38 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { CLEANING_STEPS, type CleaningConfig } from '../lib/textCleaning';
+
+export interface TextCleaningOptionsProps {
+  config: CleaningConfig;
+  onChange: (config: CleaningConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Per-step toggles for the cleaning applied to typed text and uploaded files
+ */
+export function TextCleaningOptions({ config, onChange, disabled }: TextCleaningOptionsProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Text cleaning</Label>
+      <div className="space-y-2 rounded-lg border border-border/50 p-3">
+        {CLEANING_STEPS.map((step) => (
+          <div key={step.id} className="flex items-center justify-between gap-3">
+            <div className="space-y-0.5">
+              <Label htmlFor={`cleaning-${step.id}`} className="text-xs font-medium">
+                {step.label}
+              </Label>
+              <p className="text-[11px] text-muted-foreground">{step.description}</p>
+            </div>
+            <Switch
+              id={`cleaning-${step.id}`}
+              checked={config[step.id]}
+              disabled={disabled}
+              onCheckedChange={(checked) => onChange({ ...config, [step.id]: checked })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
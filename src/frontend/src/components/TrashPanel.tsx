@@ -0,0 +1,251 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, Database, Eraser } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useListTrashedDocuments,
+  useRestoreDocument,
+  usePurgeDocument,
+  useListTrashedDatasets,
+  useRestoreDataset,
+  usePurgeDataset,
+  usePurgeExpiredTrash,
+  useIsCallerAdministrator,
+} from '../hooks/useQueries';
+
+/**
+ * Formats a backend timestamp (nanoseconds since the epoch)
+ */
+function formatTimestamp(nanoseconds: bigint): string {
+  return new Date(Number(nanoseconds / 1_000_000n)).toLocaleString();
+}
+
+function PurgeButton({ title, onConfirm, disabled }: { title: string; onConfirm: () => void; disabled: boolean }) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" disabled={disabled} title="Hapus permanen">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>Item ini akan dihapus permanen dan tidak dapat dipulihkan lagi.</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Batal</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Hapus permanen</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/**
+ * Deleted documents of the active dataset and deleted datasets, restorable until their
+ * retention window ends
+ */
+export function TrashPanel() {
+  const { data: documents = [], isLoading } = useListTrashedDocuments();
+  const { data: datasets = [] } = useListTrashedDatasets();
+  const { data: isAdministrator = false } = useIsCallerAdministrator();
+  const restoreDocumentMutation = useRestoreDocument();
+  const purgeDocumentMutation = usePurgeDocument();
+  const restoreDatasetMutation = useRestoreDataset();
+  const purgeDatasetMutation = usePurgeDataset();
+  const purgeExpiredMutation = usePurgeExpiredTrash();
+
+  const handleRestoreDocument = async (id: bigint) => {
+    try {
+      await restoreDocumentMutation.mutateAsync(id);
+      toast.success(`Dokumen #${id.toString()} dipulihkan`);
+    } catch (error) {
+      toast.error('Gagal memulihkan dokumen');
+    }
+  };
+
+  const handlePurgeDocument = async (id: bigint) => {
+    try {
+      await purgeDocumentMutation.mutateAsync(id);
+      toast.success(`Dokumen #${id.toString()} dihapus permanen`);
+    } catch (error) {
+      toast.error('Gagal menghapus dokumen secara permanen');
+    }
+  };
+
+  const handleRestoreDataset = async (id: bigint, name: string) => {
+    try {
+      await restoreDatasetMutation.mutateAsync(id);
+      toast.success(`Dataset ${name} dipulihkan`);
+    } catch (error) {
+      toast.error('Gagal memulihkan dataset; pastikan namanya belum dipakai dataset lain');
+    }
+  };
+
+  const handlePurgeDataset = async (id: bigint, name: string) => {
+    try {
+      await purgeDatasetMutation.mutateAsync(id);
+      toast.success(`Dataset ${name} dihapus permanen`);
+    } catch (error) {
+      toast.error('Gagal menghapus dataset secara permanen');
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    try {
+      const purged = await purgeExpiredMutation.mutateAsync();
+      toast.success(`${purged.toString()} item kedaluwarsa dihapus permanen`);
+    } catch (error) {
+      toast.error('Gagal membersihkan tempat sampah');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-primary" />
+              Dokumen Terhapus
+            </CardTitle>
+            <CardDescription>Dokumen dapat dipulihkan sampai masa simpan 30 hari berakhir</CardDescription>
+          </div>
+          {isAdministrator && (
+            <Button variant="outline" size="sm" onClick={handlePurgeExpired} disabled={purgeExpiredMutation.isPending}>
+              <Eraser className="mr-2 h-4 w-4" />
+              Bersihkan kedaluwarsa
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-24 items-center justify-center">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : documents.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Tempat sampah kosong</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="pb-3 text-left font-medium">Dokumen</th>
+                    <th className="pb-3 text-left font-medium">Dihapus oleh</th>
+                    <th className="pb-3 text-left font-medium">Dihapus</th>
+                    <th className="pb-3 text-left font-medium">Kedaluwarsa</th>
+                    <th className="pb-3 text-right font-medium">Aksi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documents.map((document) => (
+                    <tr key={document.documentId.toString()} className="border-b align-top last:border-0">
+                      <td className="max-w-md py-3 pr-4">
+                        <p className="font-medium">#{document.documentId.toString()}</p>
+                        <p className="line-clamp-2 text-xs text-muted-foreground">{document.content}</p>
+                      </td>
+                      <td className="max-w-[180px] py-3 pr-4">
+                        <p className="truncate font-mono text-xs" title={document.deletedBy.toString()}>
+                          {document.deletedBy.toString()}
+                        </p>
+                      </td>
+                      <td className="whitespace-nowrap py-3 pr-4 text-xs text-muted-foreground">
+                        {formatTimestamp(document.deletedAt)}
+                      </td>
+                      <td className="whitespace-nowrap py-3 pr-4 text-xs text-muted-foreground">
+                        {formatTimestamp(document.expiresAt)}
+                      </td>
+                      <td className="py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleRestoreDocument(document.documentId)}
+                            disabled={restoreDocumentMutation.isPending}
+                            title="Pulihkan"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <PurgeButton
+                            title={`Hapus dokumen #${document.documentId.toString()} permanen?`}
+                            onConfirm={() => handlePurgeDocument(document.documentId)}
+                            disabled={purgeDocumentMutation.isPending}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5 text-primary" />
+            Dataset Terhapus
+          </CardTitle>
+          <CardDescription>Memulihkan dataset juga memulihkan semua dokumen yang terhapus bersamanya</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {datasets.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">Tidak ada dataset terhapus</p>
+          ) : (
+            <div className="space-y-3">
+              {datasets.map((dataset) => (
+                <div
+                  key={dataset.id.toString()}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{dataset.name}</p>
+                      <Badge variant="secondary">{dataset.documentCount.toString()} dok</Badge>
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground" title={dataset.deletedBy.toString()}>
+                      Dihapus {formatTimestamp(dataset.deletedAt)} oleh {dataset.deletedBy.toString()}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleRestoreDataset(dataset.id, dataset.name)}
+                      disabled={restoreDatasetMutation.isPending}
+                      title="Pulihkan"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <PurgeButton
+                      title={`Hapus dataset ${dataset.name} permanen?`}
+                      onConfirm={() => handlePurgeDataset(dataset.id, dataset.name)}
+                      disabled={purgeDatasetMutation.isPending}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,71 +10,241 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface AgreementReport {
+  'documents' : bigint,
+  'fleissKappa' : number,
+  'annotations' : bigint,
+  'annotators' : bigint,
+  'krippendorffAlpha' : number,
+  'perEmotion' : Array<AgreementScore>,
+}
+export interface AgreementScore {
+  'emotion' : string,
+  'fleissKappa' : number,
+  'krippendorffAlpha' : number,
+}
+export interface Annotation {
+  'emotion' : string,
+  'annotatedAt' : bigint,
+  'documentId' : bigint,
+  'annotator' : Principal,
+}
+export interface AnnotationCandidate {
+  'content' : string,
+  'disagreement' : number,
+  'emotion' : string,
+  'predictions' : Array<ModelPrediction>,
+  'documentId' : bigint,
+  'priority' : number,
+  'confidence' : number,
+}
+export interface AuditEntry {
+  'id' : bigint,
+  'action' : string,
+  'datasetId' : [] | [bigint],
+  'target' : string,
+  'timestamp' : bigint,
+  'caller' : Principal,
+}
+export interface AuditFilter {
+  'action' : [] | [string],
+  'datasetId' : [] | [bigint],
+  'since' : [] | [bigint],
+  'until' : [] | [bigint],
+  'caller' : [] | [Principal],
+}
+export interface AuditPage {
+  'total' : bigint,
+  'entries' : Array<AuditEntry>,
+}
 export interface BertResult {
   'emotion' : string,
   'brandSpecific' : [] | [string],
+  'scores' : Array<EmotionScore>,
   'confidence' : number,
 }
-export interface BrandIntentionCorrelation {
-  'low' : bigint,
-  'high' : bigint,
-  'brand' : string,
-  'medium' : bigint,
-}
 export interface CleaningLog {
   'status' : string,
   'step' : string,
+  'charactersRemoved' : bigint,
   'timestamp' : bigint,
+  'rowsAffected' : bigint,
+  'samples' : Array<CleaningSample>,
 }
+export interface CleaningSample { 'after' : string, 'before' : string }
 export interface ConfusionMatrixResult {
   'model' : string,
   'confusionMatrix' : Array<Array<number>>,
   'emotions' : Array<string>,
   'confusionMatrixRaw' : Array<Array<bigint>>,
 }
+export interface ContestedDocument {
+  'content' : string,
+  'agreement' : number,
+  'goldEmotion' : string,
+  'annotations' : Array<Annotation>,
+  'documentId' : bigint,
+  'adjudicated' : boolean,
+}
+export interface DatasetFile {
+  'id' : bigint,
+  'contentHash' : string,
+  'blob' : ExternalBlob,
+  'documentIds' : Array<bigint>,
+  'size' : bigint,
+  'filename' : string,
+  'datasetId' : bigint,
+  'diagnostics' : FileDiagnostics,
+  'processedAt' : [] | [bigint],
+  'uploadedAt' : bigint,
+  'uploadedBy' : Principal,
+}
+export interface DatasetFileInput {
+  'contentHash' : string,
+  'blob' : ExternalBlob,
+  'size' : bigint,
+  'filename' : string,
+  'diagnostics' : FileDiagnostics,
+}
+export interface DatasetInfo {
+  'id' : bigint,
+  'name' : string,
+  'createdAt' : bigint,
+  'archived' : boolean,
+  'documentCount' : bigint,
+}
+export interface DatasetMember {
+  'principal' : Principal,
+  'assignedAt' : bigint,
+  'assignedBy' : Principal,
+  'role' : Role,
+}
 export interface Document {
   'id' : bigint,
   'content' : string,
+  'datasetId' : bigint,
+  'metadata' : DocumentMetadata,
   'author' : Principal,
   'timestamp' : bigint,
+  'analysis' : BertResult,
 }
-export interface GenderDistribution {
-  'emotionDistribution' : Array<GenderDistributionEntry>,
-  'brandDistribution' : Array<GenderDistributionEntry>,
+export interface DocumentCursor {
+  'date' : bigint,
+  'documentId' : bigint,
+  'confidence' : number,
 }
-export interface GenderDistributionEntry {
-  'maleCount' : number,
-  'femaleCount' : number,
-  'category' : string,
+export interface DocumentFilter {
+  'region' : [] | [string],
+  'source' : [] | [string],
+  'text' : [] | [string],
+  'emotion' : [] | [string],
+  'until' : [] | [bigint],
+  'since' : [] | [bigint],
+  'brand' : [] | [string],
 }
-export interface GeoLocationDistribution {
-  'data' : Array<Array<number>>,
-  'emotions' : Array<string>,
-  'locations' : Array<string>,
+export interface DocumentInput {
+  'content' : string,
+  'metadata' : DocumentMetadata,
 }
-export interface IntentionResult {
-  'brandCorrelation' : Array<BrandIntentionCorrelation>,
-  'trends' : Array<IntentionTrend>,
-  'individual' : PurchaseIntention,
-  'distribution' : PurchaseIntentionDistribution,
+export interface DocumentMetadata {
+  'region' : [] | [string],
+  'likeCount' : [] | [bigint],
+  'originalDate' : [] | [string],
+  'intentionLevel' : [] | [string],
+  'aspectCategory' : [] | [string],
+  'intentionScore' : [] | [bigint],
+  'source' : [] | [string],
+  'externalId' : [] | [string],
+  'user' : [] | [string],
+  'publishedAt' : [] | [bigint],
+  'keywords' : Array<string>,
+  'goldEmotion' : [] | [string],
+  'replyCount' : [] | [bigint],
+  'replyToId' : [] | [string],
+  'threadId' : [] | [string],
 }
-export interface IntentionTrend {
-  'id' : bigint,
-  'trend' : bigint,
-  'intentionLevel' : string,
+export interface DocumentPage {
+  'total' : bigint,
+  'nextCursor' : [] | [DocumentCursor],
+  'documents' : Array<Document>,
+  'snippets' : Array<DocumentSnippet>,
+}
+export interface DocumentSnippet {
+  'segments' : Array<SnippetSegment>,
+  'documentId' : bigint,
+}
+export type DocumentSort = { 'newest' : null } |
+  { 'oldest' : null } |
+  { 'mostConfident' : null } |
+  { 'leastConfident' : null };
+export interface EmotionScore {
+  'probability' : number,
+  'emotion' : string,
+}
+export interface EnsembleInfo {
+  'name' : string,
+  'description' : string,
+  'weights' : Array<ModelWeight>,
+  'version' : string,
+  'isDefault' : boolean,
+}
+export type ExternalBlob = Uint8Array | number[];
+export interface FileDiagnostics {
+  'normalizedHeaders' : Array<string>,
+  'recoveryAppliedCount' : bigint,
+  'skippedCount' : bigint,
+  'rowCount' : bigint,
+  'textColumn' : [] | [bigint],
+}
+export interface ModelInfo {
+  'name' : string,
+  'description' : string,
+  'version' : string,
+  'enabled' : boolean,
+}
+export interface ModelPrediction {
+  'model' : string,
+  'emotion' : string,
+  'predictedAt' : bigint,
+  'scores' : Array<EmotionScore>,
+  'modelVersion' : string,
+  'documentId' : bigint,
+  'confidence' : number,
+}
+export interface ModelWeight {
+  'weight' : number,
+  'model' : string,
 }
 export type Principal = Principal;
-export interface PurchaseIntention {
-  'level' : string,
-  'score' : bigint,
-  'gender' : [] | [string],
-  'brand' : [] | [string],
-  'location' : [] | [string],
+export type Role = { 'owner' : null } |
+  { 'analyst' : null } |
+  { 'viewer' : null };
+export interface SlangEntry {
+  'updatedAt' : bigint,
+  'updatedBy' : Principal,
+  'slang' : string,
+  'standard' : string,
+}
+export interface SnippetSegment {
+  'text' : string,
+  'highlighted' : boolean,
 }
-export interface PurchaseIntentionDistribution {
-  'low' : bigint,
-  'high' : bigint,
-  'medium' : bigint,
+export interface TrashedDatasetInfo {
+  'id' : bigint,
+  'expiresAt' : bigint,
+  'name' : string,
+  'deletedAt' : bigint,
+  'deletedBy' : Principal,
+  'documentCount' : bigint,
+}
+export interface TrashedDocumentInfo {
+  'content' : string,
+  'expiresAt' : bigint,
+  'datasetId' : bigint,
+  'author' : Principal,
+  'documentId' : bigint,
+  'deletedAt' : bigint,
+  'deletedBy' : Principal,
 }
 export interface _CaffeineStorageCreateCertificateResult {
   'method' : string,
@@ -87,6 +257,18 @@ export interface _CaffeineStorageRefillResult {
   'success' : [] | [boolean],
   'topped_up_amount' : [] | [bigint],
 }
+export interface UploadSessionInfo {
+  'id' : bigint,
+  'createdAt' : bigint,
+  'totalChunks' : bigint,
+  'datasetId' : bigint,
+  'receivedChunks' : Array<bigint>,
+  'documentCount' : bigint,
+}
+export interface UploadSource {
+  'fileId' : bigint,
+  'diagnostics' : FileDiagnostics,
+}
 export interface _SERVICE {
   '_caffeineStorageBlobIsLive' : ActorMethod<[Uint8Array], boolean>,
   '_caffeineStorageBlobsToDelete' : ActorMethod<[], Array<Uint8Array>>,
@@ -103,29 +285,86 @@ export interface _SERVICE {
     _CaffeineStorageRefillResult
   >,
   '_caffeineStorageUpdateGatewayPrincipals' : ActorMethod<[], undefined>,
-  'addCleaningLog' : ActorMethod<[Array<CleaningLog>], bigint>,
-  'analyzeGenderDistribution' : ActorMethod<[], GenderDistribution>,
-  'analyzeGeoDistribution' : ActorMethod<
-    [Array<Array<string>>],
-    GeoLocationDistribution
-  >,
+  'abortUploadSession' : ActorMethod<[bigint], undefined>,
+  'addCleaningLog' : ActorMethod<[bigint, Array<CleaningLog>], bigint>,
+  'addDatasetFile' : ActorMethod<[bigint, DatasetFileInput], bigint>,
+  'adjudicateDocument' : ActorMethod<[bigint, string], undefined>,
   'analyzeText' : ActorMethod<[string], BertResult>,
-  'batchUploadDocuments' : ActorMethod<[Array<string>], Array<bigint>>,
-  'calculateIntention' : ActorMethod<
-    [string, string, string, string],
-    IntentionResult
+  'annotateDocument' : ActorMethod<[bigint, string], Annotation>,
+  'appendUploadChunk' : ActorMethod<
+    [bigint, bigint, Array<DocumentInput>],
+    Array<bigint>
+  >,
+  'assignDatasetRole' : ActorMethod<[bigint, Principal, Role], undefined>,
+  'batchUploadDocumentRecords' : ActorMethod<
+    [bigint, Array<DocumentInput>],
+    Array<bigint>
   >,
+  'batchUploadDocuments' : ActorMethod<[bigint, Array<string>], Array<bigint>>,
+  'beginUploadSession' : ActorMethod<
+    [bigint, bigint, [] | [UploadSource]],
+    bigint
+  >,
+  'commitUploadSession' : ActorMethod<[bigint], Array<bigint>>,
+  'createDataset' : ActorMethod<[string], DatasetInfo>,
+  'deleteDataset' : ActorMethod<[bigint], undefined>,
   'deleteDocument' : ActorMethod<[bigint], boolean>,
-  'getAllDocuments' : ActorMethod<[], Array<Document>>,
+  'getAgreementReport' : ActorMethod<[bigint], AgreementReport>,
+  'getAllDocuments' : ActorMethod<[bigint], Array<Document>>,
+  'getAnnotationQueue' : ActorMethod<
+    [bigint, bigint],
+    Array<AnnotationCandidate>
+  >,
+  'getAnnotations' : ActorMethod<[bigint], Array<Annotation>>,
+  'getAuditLog' : ActorMethod<[AuditFilter, bigint, bigint], AuditPage>,
+  'getCallerRole' : ActorMethod<[bigint], [] | [Role]>,
   'getCleaningLog' : ActorMethod<[bigint], [] | [Array<CleaningLog>]>,
-  'getConfusionMatrix' : ActorMethod<[string], ConfusionMatrixResult>,
+  'getConfusionMatrix' : ActorMethod<[bigint, string], ConfusionMatrixResult>,
+  'getContestedDocuments' : ActorMethod<[bigint], Array<ContestedDocument>>,
   'getDocument' : ActorMethod<[bigint], [] | [Document]>,
-  'getLatestCleaningLog' : ActorMethod<[], [] | [Array<CleaningLog>]>,
+  'getDocumentPredictions' : ActorMethod<[bigint], Array<ModelPrediction>>,
+  'getEnsemblePredictions' : ActorMethod<[bigint], Array<ModelPrediction>>,
+  'getLatestCleaningLog' : ActorMethod<[bigint], [] | [Array<CleaningLog>]>,
+  'getModelPredictions' : ActorMethod<[bigint, string], Array<ModelPrediction>>,
+  'getStateVersion' : ActorMethod<[], bigint>,
+  'getUploadSession' : ActorMethod<[bigint], [] | [UploadSessionInfo]>,
+  'isCallerAdministrator' : ActorMethod<[], boolean>,
+  'listAnnotations' : ActorMethod<[bigint], Array<Annotation>>,
+  'listDatasetFiles' : ActorMethod<[bigint], Array<DatasetFile>>,
+  'listDatasetMembers' : ActorMethod<[bigint], Array<DatasetMember>>,
+  'listDatasets' : ActorMethod<[], Array<DatasetInfo>>,
+  'listEnsembles' : ActorMethod<[], Array<EnsembleInfo>>,
+  'listModels' : ActorMethod<[], Array<ModelInfo>>,
+  'listSlangEntries' : ActorMethod<[], Array<SlangEntry>>,
+  'listTrashedDatasets' : ActorMethod<[], Array<TrashedDatasetInfo>>,
+  'listTrashedDocuments' : ActorMethod<[bigint], Array<TrashedDocumentInfo>>,
   'processCorrect' : ActorMethod<[string], undefined>,
-  'processIncorrect' : ActorMethod<[string, string, string, string], undefined>,
+  'processIncorrect' : ActorMethod<
+    [bigint, string, string, string, string],
+    undefined
+  >,
+  'purgeDataset' : ActorMethod<[bigint], undefined>,
+  'purgeDocument' : ActorMethod<[bigint], undefined>,
+  'purgeExpiredTrash' : ActorMethod<[], bigint>,
+  'queryDocuments' : ActorMethod<
+    [bigint, DocumentFilter, DocumentSort, [] | [DocumentCursor], bigint],
+    DocumentPage
+  >,
+  'recordFeedback' : ActorMethod<[bigint, string], undefined>,
+  'removeDatasetMember' : ActorMethod<[bigint, Principal], undefined>,
+  'removeSlangEntry' : ActorMethod<[string], undefined>,
+  'renameDataset' : ActorMethod<[bigint, string], undefined>,
+  'rerunModels' : ActorMethod<[], bigint>,
   'resetAllData' : ActorMethod<[], undefined>,
-  'resetModelData' : ActorMethod<[string], undefined>,
-  'uploadDocument' : ActorMethod<[string], bigint>,
+  'resetModelData' : ActorMethod<[bigint, string], undefined>,
+  'restoreDataset' : ActorMethod<[bigint], undefined>,
+  'restoreDocument' : ActorMethod<[bigint], undefined>,
+  'setAdministrator' : ActorMethod<[Principal], undefined>,
+  'setDatasetArchived' : ActorMethod<[bigint, boolean], undefined>,
+  'setDefaultEnsemble' : ActorMethod<[string], undefined>,
+  'setModelEnabled' : ActorMethod<[string, boolean], undefined>,
+  'setSlangEntry' : ActorMethod<[string, string], SlangEntry>,
+  'uploadDocument' : ActorMethod<[bigint, string], bigint>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
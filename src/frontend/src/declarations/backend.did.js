@@ -19,65 +19,89 @@ export const _CaffeineStorageRefillResult = IDL.Record({
   'success' : IDL.Opt(IDL.Bool),
   'topped_up_amount' : IDL.Opt(IDL.Nat),
 });
+export const CleaningSample = IDL.Record({ 'after' : IDL.Text, 'before' : IDL.Text });
 export const CleaningLog = IDL.Record({
   'status' : IDL.Text,
   'step' : IDL.Text,
+  'charactersRemoved' : IDL.Int,
   'timestamp' : IDL.Int,
+  'rowsAffected' : IDL.Nat,
+  'samples' : IDL.Vec(CleaningSample),
 });
-export const GenderDistributionEntry = IDL.Record({
-  'maleCount' : IDL.Float64,
-  'femaleCount' : IDL.Float64,
-  'category' : IDL.Text,
-});
-export const GenderDistribution = IDL.Record({
-  'emotionDistribution' : IDL.Vec(GenderDistributionEntry),
-  'brandDistribution' : IDL.Vec(GenderDistributionEntry),
-});
-export const GeoLocationDistribution = IDL.Record({
-  'data' : IDL.Vec(IDL.Vec(IDL.Float64)),
-  'emotions' : IDL.Vec(IDL.Text),
-  'locations' : IDL.Vec(IDL.Text),
+export const EmotionScore = IDL.Record({
+  'probability' : IDL.Float64,
+  'emotion' : IDL.Text,
 });
 export const BertResult = IDL.Record({
   'emotion' : IDL.Text,
   'brandSpecific' : IDL.Opt(IDL.Text),
+  'scores' : IDL.Vec(EmotionScore),
   'confidence' : IDL.Float64,
 });
-export const BrandIntentionCorrelation = IDL.Record({
-  'low' : IDL.Nat,
-  'high' : IDL.Nat,
-  'brand' : IDL.Text,
-  'medium' : IDL.Nat,
+export const DocumentMetadata = IDL.Record({
+  'region' : IDL.Opt(IDL.Text),
+  'likeCount' : IDL.Opt(IDL.Nat),
+  'originalDate' : IDL.Opt(IDL.Text),
+  'intentionLevel' : IDL.Opt(IDL.Text),
+  'aspectCategory' : IDL.Opt(IDL.Text),
+  'intentionScore' : IDL.Opt(IDL.Int),
+  'source' : IDL.Opt(IDL.Text),
+  'externalId' : IDL.Opt(IDL.Text),
+  'user' : IDL.Opt(IDL.Text),
+  'publishedAt' : IDL.Opt(IDL.Int),
+  'keywords' : IDL.Vec(IDL.Text),
+  'goldEmotion' : IDL.Opt(IDL.Text),
+  'replyCount' : IDL.Opt(IDL.Nat),
+  'replyToId' : IDL.Opt(IDL.Text),
+  'threadId' : IDL.Opt(IDL.Text),
 });
-export const IntentionTrend = IDL.Record({
-  'id' : IDL.Nat,
-  'trend' : IDL.Int,
-  'intentionLevel' : IDL.Text,
-});
-export const PurchaseIntention = IDL.Record({
-  'level' : IDL.Text,
-  'score' : IDL.Int,
-  'gender' : IDL.Opt(IDL.Text),
-  'brand' : IDL.Opt(IDL.Text),
-  'location' : IDL.Opt(IDL.Text),
-});
-export const PurchaseIntentionDistribution = IDL.Record({
-  'low' : IDL.Nat,
-  'high' : IDL.Nat,
-  'medium' : IDL.Nat,
-});
-export const IntentionResult = IDL.Record({
-  'brandCorrelation' : IDL.Vec(BrandIntentionCorrelation),
-  'trends' : IDL.Vec(IntentionTrend),
-  'individual' : PurchaseIntention,
-  'distribution' : PurchaseIntentionDistribution,
+export const DocumentInput = IDL.Record({
+  'content' : IDL.Text,
+  'metadata' : DocumentMetadata,
 });
 export const Principal = IDL.Principal;
 export const Document = IDL.Record({
   'id' : IDL.Nat,
   'content' : IDL.Text,
+  'datasetId' : IDL.Nat,
+  'metadata' : DocumentMetadata,
   'author' : Principal,
   'timestamp' : IDL.Int,
+  'analysis' : BertResult,
+});
+export const DocumentFilter = IDL.Record({
+  'region' : IDL.Opt(IDL.Text),
+  'source' : IDL.Opt(IDL.Text),
+  'text' : IDL.Opt(IDL.Text),
+  'emotion' : IDL.Opt(IDL.Text),
+  'until' : IDL.Opt(IDL.Int),
+  'since' : IDL.Opt(IDL.Int),
+  'brand' : IDL.Opt(IDL.Text),
+});
+export const DocumentSort = IDL.Variant({
+  'newest' : IDL.Null,
+  'oldest' : IDL.Null,
+  'mostConfident' : IDL.Null,
+  'leastConfident' : IDL.Null,
+});
+export const DocumentCursor = IDL.Record({
+  'date' : IDL.Int,
+  'documentId' : IDL.Nat,
+  'confidence' : IDL.Float64,
+});
+export const SnippetSegment = IDL.Record({
+  'text' : IDL.Text,
+  'highlighted' : IDL.Bool,
+});
+export const DocumentSnippet = IDL.Record({
+  'segments' : IDL.Vec(SnippetSegment),
+  'documentId' : IDL.Nat,
+});
+export const DocumentPage = IDL.Record({
+  'total' : IDL.Nat,
+  'nextCursor' : IDL.Opt(DocumentCursor),
+  'documents' : IDL.Vec(Document),
+  'snippets' : IDL.Vec(DocumentSnippet),
 });
 export const ConfusionMatrixResult = IDL.Record({
   'model' : IDL.Text,
@@ -85,7 +109,169 @@ export const ConfusionMatrixResult = IDL.Record({
   'emotions' : IDL.Vec(IDL.Text),
   'confusionMatrixRaw' : IDL.Vec(IDL.Vec(IDL.Nat)),
 });
+export const ModelPrediction = IDL.Record({
+  'model' : IDL.Text,
+  'emotion' : IDL.Text,
+  'predictedAt' : IDL.Int,
+  'scores' : IDL.Vec(EmotionScore),
+  'modelVersion' : IDL.Text,
+  'documentId' : IDL.Nat,
+  'confidence' : IDL.Float64,
+});
+export const ModelInfo = IDL.Record({
+  'name' : IDL.Text,
+  'description' : IDL.Text,
+  'version' : IDL.Text,
+  'enabled' : IDL.Bool,
+});
+export const SlangEntry = IDL.Record({
+  'updatedAt' : IDL.Int,
+  'updatedBy' : IDL.Principal,
+  'slang' : IDL.Text,
+  'standard' : IDL.Text,
+});
+export const ModelWeight = IDL.Record({
+  'weight' : IDL.Float64,
+  'model' : IDL.Text,
+});
+export const EnsembleInfo = IDL.Record({
+  'name' : IDL.Text,
+  'description' : IDL.Text,
+  'weights' : IDL.Vec(ModelWeight),
+  'version' : IDL.Text,
+  'isDefault' : IDL.Bool,
+});
+export const Annotation = IDL.Record({
+  'emotion' : IDL.Text,
+  'annotatedAt' : IDL.Int,
+  'documentId' : IDL.Nat,
+  'annotator' : Principal,
+});
+export const AnnotationCandidate = IDL.Record({
+  'content' : IDL.Text,
+  'disagreement' : IDL.Float64,
+  'emotion' : IDL.Text,
+  'predictions' : IDL.Vec(ModelPrediction),
+  'documentId' : IDL.Nat,
+  'priority' : IDL.Float64,
+  'confidence' : IDL.Float64,
+});
+export const AgreementScore = IDL.Record({
+  'emotion' : IDL.Text,
+  'fleissKappa' : IDL.Float64,
+  'krippendorffAlpha' : IDL.Float64,
+});
+export const AgreementReport = IDL.Record({
+  'documents' : IDL.Nat,
+  'fleissKappa' : IDL.Float64,
+  'annotations' : IDL.Nat,
+  'annotators' : IDL.Nat,
+  'krippendorffAlpha' : IDL.Float64,
+  'perEmotion' : IDL.Vec(AgreementScore),
+});
+export const ContestedDocument = IDL.Record({
+  'content' : IDL.Text,
+  'agreement' : IDL.Float64,
+  'goldEmotion' : IDL.Text,
+  'annotations' : IDL.Vec(Annotation),
+  'documentId' : IDL.Nat,
+  'adjudicated' : IDL.Bool,
+});
+export const DatasetInfo = IDL.Record({
+  'id' : IDL.Nat,
+  'name' : IDL.Text,
+  'createdAt' : IDL.Int,
+  'archived' : IDL.Bool,
+  'documentCount' : IDL.Nat,
+});
+export const Role = IDL.Variant({
+  'owner' : IDL.Null,
+  'analyst' : IDL.Null,
+  'viewer' : IDL.Null,
+});
+export const DatasetMember = IDL.Record({
+  'principal' : IDL.Principal,
+  'assignedAt' : IDL.Int,
+  'assignedBy' : IDL.Principal,
+  'role' : Role,
+});
+export const AuditEntry = IDL.Record({
+  'id' : IDL.Nat,
+  'action' : IDL.Text,
+  'datasetId' : IDL.Opt(IDL.Nat),
+  'target' : IDL.Text,
+  'timestamp' : IDL.Int,
+  'caller' : IDL.Principal,
+});
+export const AuditFilter = IDL.Record({
+  'action' : IDL.Opt(IDL.Text),
+  'datasetId' : IDL.Opt(IDL.Nat),
+  'since' : IDL.Opt(IDL.Int),
+  'until' : IDL.Opt(IDL.Int),
+  'caller' : IDL.Opt(IDL.Principal),
+});
+export const AuditPage = IDL.Record({
+  'total' : IDL.Nat,
+  'entries' : IDL.Vec(AuditEntry),
+});
+export const TrashedDocumentInfo = IDL.Record({
+  'content' : IDL.Text,
+  'expiresAt' : IDL.Int,
+  'datasetId' : IDL.Nat,
+  'author' : IDL.Principal,
+  'documentId' : IDL.Nat,
+  'deletedAt' : IDL.Int,
+  'deletedBy' : IDL.Principal,
+});
+export const TrashedDatasetInfo = IDL.Record({
+  'id' : IDL.Nat,
+  'expiresAt' : IDL.Int,
+  'name' : IDL.Text,
+  'deletedAt' : IDL.Int,
+  'deletedBy' : IDL.Principal,
+  'documentCount' : IDL.Nat,
+});
 
+export const UploadSessionInfo = IDL.Record({
+  'id' : IDL.Nat,
+  'createdAt' : IDL.Int,
+  'totalChunks' : IDL.Nat,
+  'datasetId' : IDL.Nat,
+  'receivedChunks' : IDL.Vec(IDL.Nat),
+  'documentCount' : IDL.Nat,
+});
+export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const FileDiagnostics = IDL.Record({
+  'normalizedHeaders' : IDL.Vec(IDL.Text),
+  'recoveryAppliedCount' : IDL.Nat,
+  'skippedCount' : IDL.Nat,
+  'rowCount' : IDL.Nat,
+  'textColumn' : IDL.Opt(IDL.Nat),
+});
+export const DatasetFileInput = IDL.Record({
+  'contentHash' : IDL.Text,
+  'blob' : ExternalBlob,
+  'size' : IDL.Nat,
+  'filename' : IDL.Text,
+  'diagnostics' : FileDiagnostics,
+});
+export const DatasetFile = IDL.Record({
+  'id' : IDL.Nat,
+  'contentHash' : IDL.Text,
+  'blob' : ExternalBlob,
+  'documentIds' : IDL.Vec(IDL.Nat),
+  'size' : IDL.Nat,
+  'filename' : IDL.Text,
+  'datasetId' : IDL.Nat,
+  'diagnostics' : FileDiagnostics,
+  'processedAt' : IDL.Opt(IDL.Int),
+  'uploadedAt' : IDL.Int,
+  'uploadedBy' : IDL.Principal,
+});
+export const UploadSource = IDL.Record({
+  'fileId' : IDL.Nat,
+  'diagnostics' : FileDiagnostics,
+});
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
       [IDL.Vec(IDL.Nat8)],
@@ -113,51 +299,154 @@ export const idlService = IDL.Service({
       [],
     ),
   '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
-  'addCleaningLog' : IDL.Func([IDL.Vec(CleaningLog)], [IDL.Nat], []),
-  'analyzeGenderDistribution' : IDL.Func([], [GenderDistribution], ['query']),
-  'analyzeGeoDistribution' : IDL.Func(
-      [IDL.Vec(IDL.Vec(IDL.Text))],
-      [GeoLocationDistribution],
+  'abortUploadSession' : IDL.Func([IDL.Nat], [], []),
+  'addCleaningLog' : IDL.Func([IDL.Nat, IDL.Vec(CleaningLog)], [IDL.Nat], []),
+  'addDatasetFile' : IDL.Func([IDL.Nat, DatasetFileInput], [IDL.Nat], []),
+  'adjudicateDocument' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'analyzeText' : IDL.Func([IDL.Text], [BertResult], ['query']),
+  'annotateDocument' : IDL.Func([IDL.Nat, IDL.Text], [Annotation], []),
+  'appendUploadChunk' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Vec(DocumentInput)],
+      [IDL.Vec(IDL.Nat)],
+      [],
+    ),
+  'assignDatasetRole' : IDL.Func([IDL.Nat, IDL.Principal, Role], [], []),
+  'batchUploadDocumentRecords' : IDL.Func(
+      [IDL.Nat, IDL.Vec(DocumentInput)],
+      [IDL.Vec(IDL.Nat)],
       [],
     ),
-  'analyzeText' : IDL.Func([IDL.Text], [BertResult], ['query']),
   'batchUploadDocuments' : IDL.Func(
-      [IDL.Vec(IDL.Text)],
+      [IDL.Nat, IDL.Vec(IDL.Text)],
       [IDL.Vec(IDL.Nat)],
       [],
     ),
-  'calculateIntention' : IDL.Func(
-      [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
-      [IntentionResult],
+  'beginUploadSession' : IDL.Func(
+      [IDL.Nat, IDL.Nat, IDL.Opt(UploadSource)],
+      [IDL.Nat],
       [],
     ),
+  'commitUploadSession' : IDL.Func([IDL.Nat], [IDL.Vec(IDL.Nat)], []),
+  'createDataset' : IDL.Func([IDL.Text], [DatasetInfo], []),
+  'deleteDataset' : IDL.Func([IDL.Nat], [], []),
   'deleteDocument' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-  'getAllDocuments' : IDL.Func([], [IDL.Vec(Document)], ['query']),
+  'getAgreementReport' : IDL.Func([IDL.Nat], [AgreementReport], ['query']),
+  'getAllDocuments' : IDL.Func([IDL.Nat], [IDL.Vec(Document)], ['query']),
+  'getAnnotationQueue' : IDL.Func(
+      [IDL.Nat, IDL.Nat],
+      [IDL.Vec(AnnotationCandidate)],
+      ['query'],
+    ),
+  'getAnnotations' : IDL.Func([IDL.Nat], [IDL.Vec(Annotation)], ['query']),
+  'getAuditLog' : IDL.Func(
+      [AuditFilter, IDL.Nat, IDL.Nat],
+      [AuditPage],
+      ['query'],
+    ),
+  'getCallerRole' : IDL.Func([IDL.Nat], [IDL.Opt(Role)], ['query']),
   'getCleaningLog' : IDL.Func(
       [IDL.Nat],
       [IDL.Opt(IDL.Vec(CleaningLog))],
       ['query'],
     ),
   'getConfusionMatrix' : IDL.Func(
-      [IDL.Text],
+      [IDL.Nat, IDL.Text],
       [ConfusionMatrixResult],
       ['query'],
     ),
+  'getContestedDocuments' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(ContestedDocument)],
+      ['query'],
+    ),
   'getDocument' : IDL.Func([IDL.Nat], [IDL.Opt(Document)], ['query']),
+  'getDocumentPredictions' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(ModelPrediction)],
+      ['query'],
+    ),
+  'getEnsemblePredictions' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(ModelPrediction)],
+      ['query'],
+    ),
   'getLatestCleaningLog' : IDL.Func(
-      [],
+      [IDL.Nat],
       [IDL.Opt(IDL.Vec(CleaningLog))],
       ['query'],
     ),
+  'getModelPredictions' : IDL.Func(
+      [IDL.Nat, IDL.Text],
+      [IDL.Vec(ModelPrediction)],
+      ['query'],
+    ),
+  'getStateVersion' : IDL.Func([], [IDL.Nat], ['query']),
+  'getUploadSession' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Opt(UploadSessionInfo)],
+      ['query'],
+    ),
+  'isCallerAdministrator' : IDL.Func([], [IDL.Bool], ['query']),
+  'listAnnotations' : IDL.Func([IDL.Nat], [IDL.Vec(Annotation)], ['query']),
+  'listDatasetFiles' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(DatasetFile)],
+      ['query'],
+    ),
+  'listDatasetMembers' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(DatasetMember)],
+      ['query'],
+    ),
+  'listDatasets' : IDL.Func([], [IDL.Vec(DatasetInfo)], ['query']),
+  'listEnsembles' : IDL.Func([], [IDL.Vec(EnsembleInfo)], ['query']),
+  'listModels' : IDL.Func([], [IDL.Vec(ModelInfo)], ['query']),
+  'listSlangEntries' : IDL.Func([], [IDL.Vec(SlangEntry)], ['query']),
+  'listTrashedDatasets' : IDL.Func(
+      [],
+      [IDL.Vec(TrashedDatasetInfo)],
+      ['query'],
+    ),
+  'listTrashedDocuments' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(TrashedDocumentInfo)],
+      ['query'],
+    ),
   'processCorrect' : IDL.Func([IDL.Text], [], []),
   'processIncorrect' : IDL.Func(
-      [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+      [IDL.Nat, IDL.Text, IDL.Text, IDL.Text, IDL.Text],
       [],
       [],
     ),
+  'purgeDataset' : IDL.Func([IDL.Nat], [], []),
+  'purgeDocument' : IDL.Func([IDL.Nat], [], []),
+  'purgeExpiredTrash' : IDL.Func([], [IDL.Nat], []),
+  'queryDocuments' : IDL.Func(
+      [
+        IDL.Nat,
+        DocumentFilter,
+        DocumentSort,
+        IDL.Opt(DocumentCursor),
+        IDL.Nat,
+      ],
+      [DocumentPage],
+      ['query'],
+    ),
+  'recordFeedback' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'removeDatasetMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
+  'removeSlangEntry' : IDL.Func([IDL.Text], [], []),
+  'renameDataset' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'rerunModels' : IDL.Func([], [IDL.Nat], []),
   'resetAllData' : IDL.Func([], [], []),
-  'resetModelData' : IDL.Func([IDL.Text], [], []),
-  'uploadDocument' : IDL.Func([IDL.Text], [IDL.Nat], []),
+  'resetModelData' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'restoreDataset' : IDL.Func([IDL.Nat], [], []),
+  'restoreDocument' : IDL.Func([IDL.Nat], [], []),
+  'setAdministrator' : IDL.Func([IDL.Principal], [], []),
+  'setDatasetArchived' : IDL.Func([IDL.Nat, IDL.Bool], [], []),
+  'setDefaultEnsemble' : IDL.Func([IDL.Text], [], []),
+  'setModelEnabled' : IDL.Func([IDL.Text, IDL.Bool], [], []),
+  'setSlangEntry' : IDL.Func([IDL.Text, IDL.Text], [SlangEntry], []),
+  'uploadDocument' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
 });
 
 export const idlInitArgs = [];
@@ -174,65 +463,89 @@ export const idlFactory = ({ IDL }) => {
     'success' : IDL.Opt(IDL.Bool),
     'topped_up_amount' : IDL.Opt(IDL.Nat),
   });
+  const CleaningSample = IDL.Record({ 'after' : IDL.Text, 'before' : IDL.Text });
   const CleaningLog = IDL.Record({
     'status' : IDL.Text,
     'step' : IDL.Text,
+    'charactersRemoved' : IDL.Int,
     'timestamp' : IDL.Int,
+    'rowsAffected' : IDL.Nat,
+    'samples' : IDL.Vec(CleaningSample),
   });
-  const GenderDistributionEntry = IDL.Record({
-    'maleCount' : IDL.Float64,
-    'femaleCount' : IDL.Float64,
-    'category' : IDL.Text,
-  });
-  const GenderDistribution = IDL.Record({
-    'emotionDistribution' : IDL.Vec(GenderDistributionEntry),
-    'brandDistribution' : IDL.Vec(GenderDistributionEntry),
-  });
-  const GeoLocationDistribution = IDL.Record({
-    'data' : IDL.Vec(IDL.Vec(IDL.Float64)),
-    'emotions' : IDL.Vec(IDL.Text),
-    'locations' : IDL.Vec(IDL.Text),
+  const EmotionScore = IDL.Record({
+    'probability' : IDL.Float64,
+    'emotion' : IDL.Text,
   });
   const BertResult = IDL.Record({
     'emotion' : IDL.Text,
     'brandSpecific' : IDL.Opt(IDL.Text),
+    'scores' : IDL.Vec(EmotionScore),
     'confidence' : IDL.Float64,
   });
-  const BrandIntentionCorrelation = IDL.Record({
-    'low' : IDL.Nat,
-    'high' : IDL.Nat,
-    'brand' : IDL.Text,
-    'medium' : IDL.Nat,
+  const DocumentMetadata = IDL.Record({
+    'region' : IDL.Opt(IDL.Text),
+    'likeCount' : IDL.Opt(IDL.Nat),
+    'originalDate' : IDL.Opt(IDL.Text),
+    'intentionLevel' : IDL.Opt(IDL.Text),
+    'aspectCategory' : IDL.Opt(IDL.Text),
+    'intentionScore' : IDL.Opt(IDL.Int),
+    'source' : IDL.Opt(IDL.Text),
+    'externalId' : IDL.Opt(IDL.Text),
+    'user' : IDL.Opt(IDL.Text),
+    'publishedAt' : IDL.Opt(IDL.Int),
+    'keywords' : IDL.Vec(IDL.Text),
+    'goldEmotion' : IDL.Opt(IDL.Text),
+    'replyCount' : IDL.Opt(IDL.Nat),
+    'replyToId' : IDL.Opt(IDL.Text),
+    'threadId' : IDL.Opt(IDL.Text),
   });
-  const IntentionTrend = IDL.Record({
-    'id' : IDL.Nat,
-    'trend' : IDL.Int,
-    'intentionLevel' : IDL.Text,
-  });
-  const PurchaseIntention = IDL.Record({
-    'level' : IDL.Text,
-    'score' : IDL.Int,
-    'gender' : IDL.Opt(IDL.Text),
-    'brand' : IDL.Opt(IDL.Text),
-    'location' : IDL.Opt(IDL.Text),
-  });
-  const PurchaseIntentionDistribution = IDL.Record({
-    'low' : IDL.Nat,
-    'high' : IDL.Nat,
-    'medium' : IDL.Nat,
-  });
-  const IntentionResult = IDL.Record({
-    'brandCorrelation' : IDL.Vec(BrandIntentionCorrelation),
-    'trends' : IDL.Vec(IntentionTrend),
-    'individual' : PurchaseIntention,
-    'distribution' : PurchaseIntentionDistribution,
+  const DocumentInput = IDL.Record({
+    'content' : IDL.Text,
+    'metadata' : DocumentMetadata,
   });
   const Principal = IDL.Principal;
   const Document = IDL.Record({
     'id' : IDL.Nat,
     'content' : IDL.Text,
+    'datasetId' : IDL.Nat,
+    'metadata' : DocumentMetadata,
     'author' : Principal,
     'timestamp' : IDL.Int,
+    'analysis' : BertResult,
+  });
+  const DocumentFilter = IDL.Record({
+    'region' : IDL.Opt(IDL.Text),
+    'source' : IDL.Opt(IDL.Text),
+    'text' : IDL.Opt(IDL.Text),
+    'emotion' : IDL.Opt(IDL.Text),
+    'until' : IDL.Opt(IDL.Int),
+    'since' : IDL.Opt(IDL.Int),
+    'brand' : IDL.Opt(IDL.Text),
+  });
+  const DocumentSort = IDL.Variant({
+    'newest' : IDL.Null,
+    'oldest' : IDL.Null,
+    'mostConfident' : IDL.Null,
+    'leastConfident' : IDL.Null,
+  });
+  const DocumentCursor = IDL.Record({
+    'date' : IDL.Int,
+    'documentId' : IDL.Nat,
+    'confidence' : IDL.Float64,
+  });
+  const SnippetSegment = IDL.Record({
+    'text' : IDL.Text,
+    'highlighted' : IDL.Bool,
+  });
+  const DocumentSnippet = IDL.Record({
+    'segments' : IDL.Vec(SnippetSegment),
+    'documentId' : IDL.Nat,
+  });
+  const DocumentPage = IDL.Record({
+    'total' : IDL.Nat,
+    'nextCursor' : IDL.Opt(DocumentCursor),
+    'documents' : IDL.Vec(Document),
+    'snippets' : IDL.Vec(DocumentSnippet),
   });
   const ConfusionMatrixResult = IDL.Record({
     'model' : IDL.Text,
@@ -240,7 +553,169 @@ export const idlFactory = ({ IDL }) => {
     'emotions' : IDL.Vec(IDL.Text),
     'confusionMatrixRaw' : IDL.Vec(IDL.Vec(IDL.Nat)),
   });
+  const ModelPrediction = IDL.Record({
+    'model' : IDL.Text,
+    'emotion' : IDL.Text,
+    'predictedAt' : IDL.Int,
+    'scores' : IDL.Vec(EmotionScore),
+    'modelVersion' : IDL.Text,
+    'documentId' : IDL.Nat,
+    'confidence' : IDL.Float64,
+  });
+  const ModelInfo = IDL.Record({
+    'name' : IDL.Text,
+    'description' : IDL.Text,
+    'version' : IDL.Text,
+    'enabled' : IDL.Bool,
+  });
+  const SlangEntry = IDL.Record({
+    'updatedAt' : IDL.Int,
+    'updatedBy' : IDL.Principal,
+    'slang' : IDL.Text,
+    'standard' : IDL.Text,
+  });
+  const ModelWeight = IDL.Record({
+    'weight' : IDL.Float64,
+    'model' : IDL.Text,
+  });
+  const EnsembleInfo = IDL.Record({
+    'name' : IDL.Text,
+    'description' : IDL.Text,
+    'weights' : IDL.Vec(ModelWeight),
+    'version' : IDL.Text,
+    'isDefault' : IDL.Bool,
+  });
+  const Annotation = IDL.Record({
+    'emotion' : IDL.Text,
+    'annotatedAt' : IDL.Int,
+    'documentId' : IDL.Nat,
+    'annotator' : Principal,
+  });
+  const AnnotationCandidate = IDL.Record({
+    'content' : IDL.Text,
+    'disagreement' : IDL.Float64,
+    'emotion' : IDL.Text,
+    'predictions' : IDL.Vec(ModelPrediction),
+    'documentId' : IDL.Nat,
+    'priority' : IDL.Float64,
+    'confidence' : IDL.Float64,
+  });
+  const AgreementScore = IDL.Record({
+    'emotion' : IDL.Text,
+    'fleissKappa' : IDL.Float64,
+    'krippendorffAlpha' : IDL.Float64,
+  });
+  const AgreementReport = IDL.Record({
+    'documents' : IDL.Nat,
+    'fleissKappa' : IDL.Float64,
+    'annotations' : IDL.Nat,
+    'annotators' : IDL.Nat,
+    'krippendorffAlpha' : IDL.Float64,
+    'perEmotion' : IDL.Vec(AgreementScore),
+  });
+  const ContestedDocument = IDL.Record({
+    'content' : IDL.Text,
+    'agreement' : IDL.Float64,
+    'goldEmotion' : IDL.Text,
+    'annotations' : IDL.Vec(Annotation),
+    'documentId' : IDL.Nat,
+    'adjudicated' : IDL.Bool,
+  });
+  const DatasetInfo = IDL.Record({
+    'id' : IDL.Nat,
+    'name' : IDL.Text,
+    'createdAt' : IDL.Int,
+    'archived' : IDL.Bool,
+    'documentCount' : IDL.Nat,
+  });
+  const Role = IDL.Variant({
+    'owner' : IDL.Null,
+    'analyst' : IDL.Null,
+    'viewer' : IDL.Null,
+  });
+  const DatasetMember = IDL.Record({
+    'principal' : IDL.Principal,
+    'assignedAt' : IDL.Int,
+    'assignedBy' : IDL.Principal,
+    'role' : Role,
+  });
+  const AuditEntry = IDL.Record({
+    'id' : IDL.Nat,
+    'action' : IDL.Text,
+    'datasetId' : IDL.Opt(IDL.Nat),
+    'target' : IDL.Text,
+    'timestamp' : IDL.Int,
+    'caller' : IDL.Principal,
+  });
+  const AuditFilter = IDL.Record({
+    'action' : IDL.Opt(IDL.Text),
+    'datasetId' : IDL.Opt(IDL.Nat),
+    'since' : IDL.Opt(IDL.Int),
+    'until' : IDL.Opt(IDL.Int),
+    'caller' : IDL.Opt(IDL.Principal),
+  });
+  const AuditPage = IDL.Record({
+    'total' : IDL.Nat,
+    'entries' : IDL.Vec(AuditEntry),
+  });
+  const TrashedDocumentInfo = IDL.Record({
+    'content' : IDL.Text,
+    'expiresAt' : IDL.Int,
+    'datasetId' : IDL.Nat,
+    'author' : IDL.Principal,
+    'documentId' : IDL.Nat,
+    'deletedAt' : IDL.Int,
+    'deletedBy' : IDL.Principal,
+  });
+  const TrashedDatasetInfo = IDL.Record({
+    'id' : IDL.Nat,
+    'expiresAt' : IDL.Int,
+    'name' : IDL.Text,
+    'deletedAt' : IDL.Int,
+    'deletedBy' : IDL.Principal,
+    'documentCount' : IDL.Nat,
+  });
   
+  const UploadSessionInfo = IDL.Record({
+    'id' : IDL.Nat,
+    'createdAt' : IDL.Int,
+    'totalChunks' : IDL.Nat,
+    'datasetId' : IDL.Nat,
+    'receivedChunks' : IDL.Vec(IDL.Nat),
+    'documentCount' : IDL.Nat,
+  });
+  const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const FileDiagnostics = IDL.Record({
+    'normalizedHeaders' : IDL.Vec(IDL.Text),
+    'recoveryAppliedCount' : IDL.Nat,
+    'skippedCount' : IDL.Nat,
+    'rowCount' : IDL.Nat,
+    'textColumn' : IDL.Opt(IDL.Nat),
+  });
+  const DatasetFileInput = IDL.Record({
+    'contentHash' : IDL.Text,
+    'blob' : ExternalBlob,
+    'size' : IDL.Nat,
+    'filename' : IDL.Text,
+    'diagnostics' : FileDiagnostics,
+  });
+  const DatasetFile = IDL.Record({
+    'id' : IDL.Nat,
+    'contentHash' : IDL.Text,
+    'blob' : ExternalBlob,
+    'documentIds' : IDL.Vec(IDL.Nat),
+    'size' : IDL.Nat,
+    'filename' : IDL.Text,
+    'datasetId' : IDL.Nat,
+    'diagnostics' : FileDiagnostics,
+    'processedAt' : IDL.Opt(IDL.Int),
+    'uploadedAt' : IDL.Int,
+    'uploadedBy' : IDL.Principal,
+  });
+  const UploadSource = IDL.Record({
+    'fileId' : IDL.Nat,
+    'diagnostics' : FileDiagnostics,
+  });
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
         [IDL.Vec(IDL.Nat8)],
@@ -268,52 +743,155 @@ export const idlFactory = ({ IDL }) => {
         [],
       ),
     '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
-    'addCleaningLog' : IDL.Func([IDL.Vec(CleaningLog)], [IDL.Nat], []),
-    'analyzeGenderDistribution' : IDL.Func([], [GenderDistribution], ['query']),
-    'analyzeGeoDistribution' : IDL.Func(
-        [IDL.Vec(IDL.Vec(IDL.Text))],
-        [GeoLocationDistribution],
+    'abortUploadSession' : IDL.Func([IDL.Nat], [], []),
+    'addCleaningLog' : IDL.Func([IDL.Nat, IDL.Vec(CleaningLog)], [IDL.Nat], []),
+    'addDatasetFile' : IDL.Func([IDL.Nat, DatasetFileInput], [IDL.Nat], []),
+    'adjudicateDocument' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'analyzeText' : IDL.Func([IDL.Text], [BertResult], ['query']),
+    'annotateDocument' : IDL.Func([IDL.Nat, IDL.Text], [Annotation], []),
+    'appendUploadChunk' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Vec(DocumentInput)],
+        [IDL.Vec(IDL.Nat)],
+        [],
+      ),
+    'assignDatasetRole' : IDL.Func([IDL.Nat, IDL.Principal, Role], [], []),
+    'batchUploadDocumentRecords' : IDL.Func(
+        [IDL.Nat, IDL.Vec(DocumentInput)],
+        [IDL.Vec(IDL.Nat)],
         [],
       ),
-    'analyzeText' : IDL.Func([IDL.Text], [BertResult], ['query']),
     'batchUploadDocuments' : IDL.Func(
-        [IDL.Vec(IDL.Text)],
+        [IDL.Nat, IDL.Vec(IDL.Text)],
         [IDL.Vec(IDL.Nat)],
         [],
       ),
-    'calculateIntention' : IDL.Func(
-        [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
-        [IntentionResult],
+    'beginUploadSession' : IDL.Func(
+        [IDL.Nat, IDL.Nat, IDL.Opt(UploadSource)],
+        [IDL.Nat],
         [],
       ),
+    'commitUploadSession' : IDL.Func([IDL.Nat], [IDL.Vec(IDL.Nat)], []),
+    'createDataset' : IDL.Func([IDL.Text], [DatasetInfo], []),
+    'deleteDataset' : IDL.Func([IDL.Nat], [], []),
     'deleteDocument' : IDL.Func([IDL.Nat], [IDL.Bool], []),
-    'getAllDocuments' : IDL.Func([], [IDL.Vec(Document)], ['query']),
+    'getAgreementReport' : IDL.Func([IDL.Nat], [AgreementReport], ['query']),
+    'getAllDocuments' : IDL.Func([IDL.Nat], [IDL.Vec(Document)], ['query']),
+    'getAnnotationQueue' : IDL.Func(
+        [IDL.Nat, IDL.Nat],
+        [IDL.Vec(AnnotationCandidate)],
+        ['query'],
+      ),
+    'getAnnotations' : IDL.Func([IDL.Nat], [IDL.Vec(Annotation)], ['query']),
+    'getAuditLog' : IDL.Func(
+        [AuditFilter, IDL.Nat, IDL.Nat],
+        [AuditPage],
+        ['query'],
+      ),
+    'getCallerRole' : IDL.Func([IDL.Nat], [IDL.Opt(Role)], ['query']),
     'getCleaningLog' : IDL.Func(
         [IDL.Nat],
         [IDL.Opt(IDL.Vec(CleaningLog))],
         ['query'],
       ),
     'getConfusionMatrix' : IDL.Func(
-        [IDL.Text],
+        [IDL.Nat, IDL.Text],
         [ConfusionMatrixResult],
         ['query'],
       ),
+    'getContestedDocuments' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(ContestedDocument)],
+        ['query'],
+      ),
     'getDocument' : IDL.Func([IDL.Nat], [IDL.Opt(Document)], ['query']),
+    'getDocumentPredictions' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(ModelPrediction)],
+        ['query'],
+      ),
+    'getEnsemblePredictions' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(ModelPrediction)],
+        ['query'],
+      ),
     'getLatestCleaningLog' : IDL.Func(
-        [],
+        [IDL.Nat],
         [IDL.Opt(IDL.Vec(CleaningLog))],
         ['query'],
       ),
+    'getModelPredictions' : IDL.Func(
+        [IDL.Nat, IDL.Text],
+        [IDL.Vec(ModelPrediction)],
+        ['query'],
+      ),
+    'getStateVersion' : IDL.Func([], [IDL.Nat], ['query']),
+    'getUploadSession' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Opt(UploadSessionInfo)],
+        ['query'],
+      ),
+    'isCallerAdministrator' : IDL.Func([], [IDL.Bool], ['query']),
+    'listAnnotations' : IDL.Func([IDL.Nat], [IDL.Vec(Annotation)], ['query']),
+    'listDatasetFiles' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(DatasetFile)],
+        ['query'],
+      ),
+    'listDatasetMembers' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(DatasetMember)],
+        ['query'],
+      ),
+    'listDatasets' : IDL.Func([], [IDL.Vec(DatasetInfo)], ['query']),
+    'listEnsembles' : IDL.Func([], [IDL.Vec(EnsembleInfo)], ['query']),
+    'listModels' : IDL.Func([], [IDL.Vec(ModelInfo)], ['query']),
+    'listSlangEntries' : IDL.Func([], [IDL.Vec(SlangEntry)], ['query']),
+    'listTrashedDatasets' : IDL.Func(
+        [],
+        [IDL.Vec(TrashedDatasetInfo)],
+        ['query'],
+      ),
+    'listTrashedDocuments' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(TrashedDocumentInfo)],
+        ['query'],
+      ),
     'processCorrect' : IDL.Func([IDL.Text], [], []),
     'processIncorrect' : IDL.Func(
-        [IDL.Text, IDL.Text, IDL.Text, IDL.Text],
+        [IDL.Nat, IDL.Text, IDL.Text, IDL.Text, IDL.Text],
         [],
         [],
       ),
+    'purgeDataset' : IDL.Func([IDL.Nat], [], []),
+    'purgeDocument' : IDL.Func([IDL.Nat], [], []),
+    'purgeExpiredTrash' : IDL.Func([], [IDL.Nat], []),
+    'queryDocuments' : IDL.Func(
+        [
+          IDL.Nat,
+          DocumentFilter,
+          DocumentSort,
+          IDL.Opt(DocumentCursor),
+          IDL.Nat,
+        ],
+        [DocumentPage],
+        ['query'],
+      ),
+    'recordFeedback' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'removeDatasetMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
+    'removeSlangEntry' : IDL.Func([IDL.Text], [], []),
+    'renameDataset' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'rerunModels' : IDL.Func([], [IDL.Nat], []),
     'resetAllData' : IDL.Func([], [], []),
-    'resetModelData' : IDL.Func([IDL.Text], [], []),
-    'uploadDocument' : IDL.Func([IDL.Text], [IDL.Nat], []),
+    'resetModelData' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'restoreDataset' : IDL.Func([IDL.Nat], [], []),
+    'restoreDocument' : IDL.Func([IDL.Nat], [], []),
+    'setAdministrator' : IDL.Func([IDL.Principal], [], []),
+    'setDatasetArchived' : IDL.Func([IDL.Nat, IDL.Bool], [], []),
+    'setDefaultEnsemble' : IDL.Func([IDL.Text], [], []),
+    'setModelEnabled' : IDL.Func([IDL.Text, IDL.Bool], [], []),
+    'setSlangEntry' : IDL.Func([IDL.Text, IDL.Text], [SlangEntry], []),
+    'uploadDocument' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
   });
 };
 
-export const init = ({ IDL }) => { return []; };
\ No newline at end of file
+export const init = ({ IDL }) => { return [IDL.Opt(IDL.Principal)]; };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { type PropsWithChildren, createContext, createElement, useCallback, useContext, useMemo, useState } from 'react';
+
+const STORAGE_KEY = 'activeDatasetId';
+
+// Dataset 0 is created by the backend and always exists until deleted
+const DEFAULT_DATASET_ID = 0n;
+
+export type ActiveDatasetContext = {
+  /** Dataset every query and upload is scoped to */
+  datasetId: bigint;
+  setDatasetId: (datasetId: bigint) => void;
+};
+
+const ActiveDatasetReactContext = createContext<ActiveDatasetContext | undefined>(undefined);
+
+function readStoredDatasetId(): bigint {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? BigInt(stored) : DEFAULT_DATASET_ID;
+  } catch {
+    return DEFAULT_DATASET_ID;
+  }
+}
+
+export const useActiveDataset = (): ActiveDatasetContext => {
+  const context = useContext(ActiveDatasetReactContext);
+  if (!context) {
+    throw new Error('ActiveDatasetProvider is not present. Wrap your component tree with it.');
+  }
+  return context;
+};
+
+/**
+ * Keeps the active dataset across page reloads
+ */
+export function ActiveDatasetProvider({ children }: PropsWithChildren) {
+  const [datasetId, setDatasetIdState] = useState<bigint>(readStoredDatasetId);
+
+  const setDatasetId = useCallback((nextId: bigint) => {
+    setDatasetIdState(nextId);
+    try {
+      localStorage.setItem(STORAGE_KEY, nextId.toString());
+    } catch {
+      // Storage may be unavailable (private mode); the choice then lasts for the session only
+    }
+  }, []);
+
+  const value = useMemo<ActiveDatasetContext>(() => ({ datasetId, setDatasetId }), [datasetId, setDatasetId]);
+
+  return createElement(ActiveDatasetReactContext.Provider, { value, children });
+}
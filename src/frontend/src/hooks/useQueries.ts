@@ -1,15 +1,23 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { useQuery, useQueries, useInfiniteQuery, useMutation, useQueryClient, type QueryClient, type UseQueryResult } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { Document, ConfusionMatrixResult, GenderDistribution, GeoLocationDistribution, IntentionResult, CleaningLog } from '../backend';
+import { useActiveDataset } from './useActiveDataset';
+import type { Document, DocumentFilter, DocumentInput, DatasetFile, DatasetFileInput, UploadSource, DocumentSort, DocumentCursor, DocumentPage, ConfusionMatrixResult, CleaningLog, ModelInfo, SlangEntry, ModelPrediction, EnsembleInfo, Annotation, AnnotationCandidate, AgreementReport, ContestedDocument, DatasetInfo, DatasetMember, Role, AuditFilter, AuditPage, TrashedDocumentInfo, TrashedDatasetInfo, backendInterface } from '../backend';
+import type { Principal } from '@icp-sdk/core/principal';
+import { toDocumentInput, type DatasetRow } from '../lib/datasetIngestion';
+import { cleanTexts, toCleaningLogs, type CleaningConfig } from '../lib/textCleaning';
+import { buildSlangLexicon, DEFAULT_SLANG_LEXICON, type SlangLexicon } from '../lib/slangNormalization';
+import { computeGeoDistribution, type GeoLocationDistribution } from '../lib/documentAnalysis';
 
 export function useGetAllDocuments() {
   const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
 
   return useQuery<Document[]>({
-    queryKey: ['documents'],
+    queryKey: ['documents', datasetId.toString()],
     queryFn: async () => {
       if (!actor) return [];
-      return actor.getAllDocuments();
+      return actor.getAllDocuments(datasetId);
     },
     enabled: !!actor && !isFetching,
     staleTime: 0, // Always consider stale to ensure fresh data
@@ -18,6 +26,37 @@ export function useGetAllDocuments() {
   });
 }
 
+// One server-filtered page of documents at a time; the next page continues from the previous
+// page's cursor
+export function useQueryDocuments(filter: DocumentFilter, sort: DocumentSort, pageSize: number) {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useInfiniteQuery({
+    queryKey: [
+      'documents',
+      datasetId.toString(),
+      'page',
+      filter.brand ?? '',
+      filter.emotion ?? '',
+      filter.region ?? '',
+      filter.source ?? '',
+      filter.since?.toString() ?? '',
+      filter.until?.toString() ?? '',
+      filter.text ?? '',
+      sort,
+      pageSize,
+    ],
+    queryFn: async ({ pageParam }): Promise<DocumentPage> => {
+      if (!actor) return { documents: [], snippets: [], total: 0n };
+      return actor.queryDocuments(datasetId, filter, sort, pageParam, BigInt(pageSize));
+    },
+    initialPageParam: null as DocumentCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!actor && !isFetching,
+  });
+}
+
 export function useGetDocument(id: bigint) {
   const { actor, isFetching } = useActor();
 
@@ -31,47 +70,224 @@ export function useGetDocument(id: bigint) {
   });
 }
 
+// Query keys whose second element is the dataset id
+const DATASET_SCOPED_QUERIES = [
+  'documents',
+  'cleaningLogs',
+  'confusionMatrix',
+  'modelPredictions',
+  'annotations',
+  'annotationQueue',
+  'annotationAgreement',
+  'contestedDocuments',
+  'callerRole',
+  'datasetMembers',
+  'trash',
+];
+
+export function useListDatasets() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<DatasetInfo[]>({
+    queryKey: ['datasets'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listDatasets();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useCreateDataset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.createDataset(name);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+    },
+  });
+}
+
+export function useRenameDataset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ datasetId, name }: { datasetId: bigint; name: string }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.renameDataset(datasetId, name);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+    },
+  });
+}
+
+export function useSetDatasetArchived() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ datasetId, archived }: { datasetId: bigint; archived: boolean }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setDatasetArchived(datasetId, archived);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+    },
+  });
+}
+
+export function useDeleteDataset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (datasetId: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.deleteDataset(datasetId);
+    },
+    onSuccess: (_, datasetId) => {
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+      queryClient.invalidateQueries({ queryKey: ['datasetTrash'] });
+      DATASET_SCOPED_QUERIES.forEach((name) => {
+        queryClient.removeQueries({ queryKey: [name, datasetId.toString()] });
+      });
+    },
+  });
+}
+
+export function useIsCallerAdministrator() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['isCallerAdministrator'],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.isCallerAdministrator();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetCallerRole() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<Role | null>({
+    queryKey: ['callerRole', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getCallerRole(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useListDatasetMembers() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<DatasetMember[]>({
+    queryKey: ['datasetMembers', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listDatasetMembers(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useAssignDatasetRole() {
+  const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ principal, role }: { principal: Principal; role: Role }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.assignDatasetRole(datasetId, principal, role);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasetMembers'] });
+      queryClient.invalidateQueries({ queryKey: ['callerRole'] });
+    },
+  });
+}
+
+export function useRemoveDatasetMember() {
+  const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (principal: Principal) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.removeDatasetMember(datasetId, principal);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasetMembers'] });
+      queryClient.invalidateQueries({ queryKey: ['callerRole'] });
+    },
+  });
+}
+
+export function useGetAuditLog(filter: AuditFilter, page: number, pageSize: number) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<AuditPage>({
+    queryKey: [
+      'auditLog',
+      filter.caller?.toString() ?? '',
+      filter.action ?? '',
+      filter.datasetId?.toString() ?? '',
+      filter.since?.toString() ?? '',
+      filter.until?.toString() ?? '',
+      page,
+      pageSize,
+    ],
+    queryFn: async () => {
+      if (!actor) return { entries: [], total: 0n };
+      return actor.getAuditLog(filter, BigInt(page * pageSize), BigInt(pageSize));
+    },
+    enabled: !!actor && !isFetching,
+    // Unauthorized callers get a trap; retrying will not change that
+    retry: false,
+  });
+}
+
 export function useUploadDocument() {
   const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, cleaning }: { content: string; cleaning: CleaningConfig }) => {
       if (!actor) throw new Error('Actor not initialized');
-      
-      // Generate cleaning logs before uploading
-      const cleaningLogs: CleaningLog[] = [
-        { step: 'Menghapus duplikat', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Menormalkan teks', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Pembersihan karakter khusus', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Validasi kolom penting', status: 'valid', timestamp: BigInt(Date.now()) },
-        { step: 'Pemeriksaan nilai numerik', status: 'aman', timestamp: BigInt(Date.now()) },
-      ];
+
+      // A single text has no columns to validate or rows to deduplicate against
+      const cleaned = cleanTexts([content], cleaning);
+      const cleanedContent = cleaned.texts[0];
+      if (cleanedContent.trim().length === 0) {
+        throw new Error('The text is empty after cleaning');
+      }
+      const cleaningLogs = toCleaningLogs(cleaned.reports);
       
       // Try to add cleaning logs, preserving original error for canister-stopped detection
       try {
-        await actor.addCleaningLog(cleaningLogs);
+        await actor.addCleaningLog(datasetId, cleaningLogs);
       } catch (logError) {
         // Rethrow the original error to preserve replica rejection details
         throw logError;
       }
       
-      // Proceed with document upload
-      const docId = await actor.uploadDocument(content);
-      
-      // Trigger confusion matrix generation for all models after upload
-      try {
-        await actor.processIncorrect(content, 'BERT', 'interest', 'trust');
-        await actor.processIncorrect(content, 'RoBERTa', 'interest', 'trust');
-        await actor.processIncorrect(content, 'DistilBERT', 'interest', 'trust');
-        await actor.processIncorrect(content, 'JC', 'interest', 'trust');
-        await actor.processIncorrect(content, 'JA', 'interest', 'trust');
-        await actor.processIncorrect(content, 'JD', 'interest', 'trust');
-      } catch (error) {
-        console.warn('Failed to generate confusion matrix:', error);
-      }
-      
-      return docId;
+      // Proceed with document upload; the backend runs every enabled model on ingestion
+      return actor.uploadDocument(datasetId, cleanedContent);
     },
     onSuccess: async () => {
       // Invalidate and refetch documents immediately
@@ -80,71 +296,242 @@ export function useUploadDocument() {
       
       // Invalidate other dependent queries
       queryClient.invalidateQueries({ queryKey: ['cleaningLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
       queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
-      queryClient.invalidateQueries({ queryKey: ['genderDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['geoDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['purchaseIntention'] });
+      queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
     },
   });
 }
 
+// Chunks stay well under the 2MB ingress message limit and the per-message instruction limit
+// of running every enabled model on each row
+const UPLOAD_CHUNK_MAX_ROWS = 500;
+const UPLOAD_CHUNK_MAX_BYTES = 1_000_000;
+const UPLOAD_CHUNK_ATTEMPTS = 3;
+
+export interface UploadProgress {
+  sessionId: bigint;
+  uploadedChunks: number;
+  totalChunks: number;
+  uploadedRows: number;
+}
+
+export interface UploadDocumentsBatchVariables {
+  rows: DatasetRow[];
+  // Continues an interrupted upload; chunks the session already received are skipped
+  resumeSessionId?: bigint;
+  // The stored file the rows were parsed from
+  source?: UploadSource;
+  // Cleaning, validation and deduplication measured while parsing, stored once per batch
+  cleaningLogs: CleaningLog[];
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Estimates the encoded size of a record from its text fields, leaving room for the numeric
+ * metadata and Candid framing
+ */
+function estimateInputBytes(input: DocumentInput): number {
+  const encoder = new TextEncoder();
+  const metadataText = [
+    input.metadata.externalId,
+    input.metadata.region,
+    input.metadata.source,
+    input.metadata.user,
+    input.metadata.originalDate,
+    input.metadata.aspectCategory,
+    input.metadata.intentionLevel,
+    input.metadata.goldEmotion,
+    input.metadata.replyToId,
+    input.metadata.threadId,
+    ...input.metadata.keywords,
+  ].join('');
+  return encoder.encode(input.content).length + encoder.encode(metadataText).length + 128;
+}
+
+/**
+ * Splits records into consecutive chunks bounded by row count and estimated size
+ */
+function chunkDocumentInputs(inputs: DocumentInput[]): DocumentInput[][] {
+  const chunks: DocumentInput[][] = [];
+  let current: DocumentInput[] = [];
+  let currentBytes = 0;
+  for (const input of inputs) {
+    const bytes = estimateInputBytes(input);
+    if (current.length > 0 && (current.length >= UPLOAD_CHUNK_MAX_ROWS || currentBytes + bytes > UPLOAD_CHUNK_MAX_BYTES)) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(input);
+    currentBytes += bytes;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// Retries a failed chunk with a growing delay; the backend ingests each chunk index once, so
+// a retry of a chunk that did land returns its ids without duplicating documents
+async function appendChunkWithRetry(actor: backendInterface, sessionId: bigint, chunkIndex: number, chunk: DocumentInput[]) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await actor.appendUploadChunk(sessionId, BigInt(chunkIndex), chunk);
+    } catch (error) {
+      if (attempt >= UPLOAD_CHUNK_ATTEMPTS) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+    }
+  }
+}
+
+/**
+ * Thrown when a chunked upload stops part way; the session stays open so the upload can be
+ * resumed or aborted
+ */
+export class ChunkedUploadError extends Error {
+  constructor(public readonly sessionId: bigint, public readonly error: unknown) {
+    super(error instanceof Error ? error.message : String(error));
+    this.name = 'ChunkedUploadError';
+  }
+}
+
 export function useUploadDocumentsBatch() {
   const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (contents: string[]) => {
+    mutationFn: async ({ rows, resumeSessionId, source, cleaningLogs, onProgress }: UploadDocumentsBatchVariables) => {
       if (!actor) throw new Error('Actor not initialized');
-      
-      // Generate cleaning logs once for the batch
-      const cleaningLogs: CleaningLog[] = [
-        { step: 'Menghapus duplikat', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Menormalkan teks', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Pembersihan karakter khusus', status: 'selesai', timestamp: BigInt(Date.now()) },
-        { step: 'Validasi kolom penting', status: 'valid', timestamp: BigInt(Date.now()) },
-        { step: 'Pemeriksaan nilai numerik', status: 'aman', timestamp: BigInt(Date.now()) },
-      ];
-      
-      // Try to add cleaning logs, preserving original error for canister-stopped detection
-      try {
-        await actor.addCleaningLog(cleaningLogs);
-      } catch (logError) {
-        // Rethrow the original error to preserve replica rejection details
-        throw logError;
+
+      const chunks = chunkDocumentInputs(rows.map(toDocumentInput));
+
+      // A resumed session keeps its chunk layout as long as the rows are the same file. One
+      // that expired or was aborted meanwhile is started over from the first chunk.
+      let sessionId: bigint | undefined;
+      let received = new Set<number>();
+      if (resumeSessionId !== undefined) {
+        const session = await actor.getUploadSession(resumeSessionId);
+        if (session && session.datasetId !== datasetId) {
+          throw new Error(`Upload session ${resumeSessionId} belongs to dataset ${session.datasetId}, not the active dataset`);
+        }
+        if (session && Number(session.totalChunks) === chunks.length) {
+          sessionId = session.id;
+          received = new Set(session.receivedChunks.map(Number));
+        }
       }
 
-      // Use single batch upload call instead of looping
-      const docIds = await actor.batchUploadDocuments(contents);
-
-      // Trigger confusion matrix generation for all models after batch upload
-      if (docIds.length > 0) {
-        try {
-          const sampleContent = contents[0];
-          await actor.processIncorrect(sampleContent, 'BERT', 'interest', 'trust');
-          await actor.processIncorrect(sampleContent, 'RoBERTa', 'interest', 'trust');
-          await actor.processIncorrect(sampleContent, 'DistilBERT', 'interest', 'trust');
-          await actor.processIncorrect(sampleContent, 'JC', 'interest', 'trust');
-          await actor.processIncorrect(sampleContent, 'JA', 'interest', 'trust');
-          await actor.processIncorrect(sampleContent, 'JD', 'interest', 'trust');
-        } catch (error) {
-          console.warn('Failed to generate confusion matrix:', error);
+      if (sessionId === undefined) {
+        // The cleaning logs were stored when the upload first started, so a resume skips them
+        if (resumeSessionId === undefined) {
+          // Try to add cleaning logs, preserving original error for canister-stopped detection
+          try {
+            await actor.addCleaningLog(datasetId, cleaningLogs);
+          } catch (logError) {
+            // Rethrow the original error to preserve replica rejection details
+            throw logError;
+          }
         }
+
+        sessionId = await actor.beginUploadSession(datasetId, BigInt(chunks.length), source ?? null);
+      }
+
+      const countRows = () => chunks.reduce((sum, chunk, index) => (received.has(index) ? sum + chunk.length : sum), 0);
+      onProgress?.({ sessionId, uploadedChunks: received.size, totalChunks: chunks.length, uploadedRows: countRows() });
+
+      // Chunks go one at a time so progress is reported in order and a failure stops early.
+      // The backend stores a prediction from every enabled model for each row.
+      try {
+        for (let index = 0; index < chunks.length; index++) {
+          if (received.has(index)) continue;
+          await appendChunkWithRetry(actor, sessionId, index, chunks[index]);
+          received.add(index);
+          onProgress?.({ sessionId, uploadedChunks: received.size, totalChunks: chunks.length, uploadedRows: countRows() });
+        }
+      } catch (error) {
+        throw new ChunkedUploadError(sessionId, error);
       }
 
+      const docIds = await actor.commitUploadSession(sessionId);
+
       return { success: docIds, failed: [] };
     },
-    onSuccess: async () => {
-      // Single invalidation and refetch to sync data in the background
+    onSettled: () => {
+      // The commit may have landed even if its reply did not, so refresh either way
       queryClient.invalidateQueries({ queryKey: ['documents'] });
       queryClient.invalidateQueries({ queryKey: ['cleaningLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+      queryClient.invalidateQueries({ queryKey: ['datasetFiles'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
       queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
-      queryClient.invalidateQueries({ queryKey: ['genderDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['geoDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['purchaseIntention'] });
+      queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
+    },
+  });
+}
+
+export function useListDatasetFiles() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<DatasetFile[]>({
+    queryKey: ['datasetFiles', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listDatasetFiles(datasetId);
     },
+    enabled: !!actor && !isFetching,
   });
 }
 
+// Stores the raw file in blob storage; the returned id names it as an upload's source
+export function useAddDatasetFile() {
+  const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: DatasetFileInput) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.addDatasetFile(datasetId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasetFiles'] });
+    },
+  });
+}
+
+// Drops an interrupted chunked upload together with the documents staged from its chunks;
+// they were never published, so no document query changes
+export function useAbortUploadSession() {
+  const { actor } = useActor();
+
+  return useMutation({
+    mutationFn: async (sessionId: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.abortUploadSession(sessionId);
+    },
+  });
+}
+
+/**
+ * Refetches everything derived from the set of live documents, after documents move to or
+ * from the trash
+ */
+function invalidateDocumentQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['documents'] });
+  queryClient.invalidateQueries({ queryKey: ['datasets'] });
+  queryClient.invalidateQueries({ queryKey: ['trash'] });
+  queryClient.invalidateQueries({ queryKey: ['documentPredictions'] });
+  queryClient.invalidateQueries({ queryKey: ['ensemblePredictions'] });
+  queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
+  queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+  queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
+  queryClient.invalidateQueries({ queryKey: ['annotations'] });
+  queryClient.invalidateQueries({ queryKey: ['annotationAgreement'] });
+  queryClient.invalidateQueries({ queryKey: ['contestedDocuments'] });
+}
+
 export function useDeleteDocument() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -155,12 +542,111 @@ export function useDeleteDocument() {
       return actor.deleteDocument(id);
     },
     onSuccess: () => {
-      // Invalidate all queries to force refetch
-      queryClient.invalidateQueries({ queryKey: ['documents'] });
-      queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
-      queryClient.invalidateQueries({ queryKey: ['genderDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['geoDistribution'] });
-      queryClient.invalidateQueries({ queryKey: ['purchaseIntention'] });
+      invalidateDocumentQueries(queryClient);
+    },
+  });
+}
+
+export function useListTrashedDocuments() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<TrashedDocumentInfo[]>({
+    queryKey: ['trash', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listTrashedDocuments(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useRestoreDocument() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.restoreDocument(id);
+    },
+    onSuccess: () => {
+      invalidateDocumentQueries(queryClient);
+    },
+  });
+}
+
+export function usePurgeDocument() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.purgeDocument(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+export function useListTrashedDatasets() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<TrashedDatasetInfo[]>({
+    queryKey: ['datasetTrash'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listTrashedDatasets();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useRestoreDataset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (datasetId: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.restoreDataset(datasetId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasetTrash'] });
+      invalidateDocumentQueries(queryClient);
+    },
+  });
+}
+
+export function usePurgeDataset() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (datasetId: bigint) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.purgeDataset(datasetId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['datasetTrash'] });
+    },
+  });
+}
+
+export function usePurgeExpiredTrash() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.purgeExpiredTrash();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['datasetTrash'] });
     },
   });
 }
@@ -176,207 +662,454 @@ export function useAnalyzeText() {
   });
 }
 
-export function useGetConfusionMatrix(modelName: string) {
+export function useListModels() {
   const { actor, isFetching } = useActor();
-  const { data: documents, isLoading: isLoadingDocs } = useGetAllDocuments();
 
-  const hasDocuments = documents && documents.length > 0;
+  return useQuery<ModelInfo[]>({
+    queryKey: ['models'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listModels();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
 
-  return useQuery<ConfusionMatrixResult | null>({
-    queryKey: ['confusionMatrix', modelName],
+export function useSetModelEnabled() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, enabled }: { name: string; enabled: boolean }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setModelEnabled(name, enabled);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['models'] });
+      queryClient.invalidateQueries({ queryKey: ['ensembles'] });
+    },
+  });
+}
+
+export function useListSlangEntries() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<SlangEntry[]>({
+    queryKey: ['slangEntries'],
     queryFn: async () => {
-      if (!actor) return null;
-      
-      // Return null if no documents exist (dataset is empty)
-      if (!hasDocuments) {
-        return null;
-      }
-      
-      try {
-        const result = await actor.getConfusionMatrix(modelName);
-        
-        // Validate that the result has proper structure
-        if (!result || !result.confusionMatrix || !result.emotions) {
-          console.warn('Invalid confusion matrix structure:', result);
-          return null;
-        }
-        
-        // Validate matrix dimensions match emotions array
-        const expectedSize = result.emotions.length;
-        if (result.confusionMatrix.length !== expectedSize) {
-          console.warn('Confusion matrix dimensions mismatch:', {
-            matrixRows: result.confusionMatrix.length,
-            emotionsCount: expectedSize
-          });
-          return null;
-        }
-        
-        // Validate each row has correct number of columns
-        for (const row of result.confusionMatrix) {
-          if (row.length !== expectedSize) {
-            console.warn('Confusion matrix row dimension mismatch:', {
-              rowLength: row.length,
-              expected: expectedSize
-            });
-            return null;
-          }
-        }
-        
-        return result;
-      } catch (error) {
-        console.warn('Confusion matrix not available for', modelName, ':', error);
-        return null;
-      }
+      if (!actor) return [];
+      return actor.listSlangEntries();
     },
-    enabled: !!actor && !isFetching && !isLoadingDocs && !!modelName && hasDocuments,
-    refetchOnMount: true,
-    staleTime: 0,
+    enabled: !!actor && !isFetching,
   });
 }
 
-export function useResetModelData() {
+/**
+ * Lexicon the scorers normalize slang with: the bundled entries plus the stored ones
+ */
+export function useSlangLexicon(): SlangLexicon {
+  const { data: entries } = useListSlangEntries();
+  return useMemo(() => (entries ? buildSlangLexicon(entries) : DEFAULT_SLANG_LEXICON), [entries]);
+}
+
+export function useSetSlangEntry() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (modelName: string) => {
+    mutationFn: async ({ slang, standard }: { slang: string; standard: string }) => {
       if (!actor) throw new Error('Actor not initialized');
-      return actor.resetModelData(modelName);
+      return actor.setSlangEntry(slang, standard);
     },
-    onSuccess: (_, modelName) => {
-      queryClient.invalidateQueries({ queryKey: ['confusionMatrix', modelName] });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['slangEntries'] });
     },
   });
 }
 
-export function useResetAllData() {
+export function useRemoveSlangEntry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (slang: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.removeSlangEntry(slang);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['slangEntries'] });
+    },
+  });
+}
+
+export function useRerunModels() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async () => {
       if (!actor) throw new Error('Actor not initialized');
-      return actor.resetAllData();
+      return actor.rerunModels();
     },
     onSuccess: () => {
-      // Reset all queries to force fresh data
-      queryClient.resetQueries({ queryKey: ['confusionMatrix'] });
-      queryClient.resetQueries({ queryKey: ['genderDistribution'] });
-      queryClient.resetQueries({ queryKey: ['geoDistribution'] });
-      queryClient.resetQueries({ queryKey: ['purchaseIntention'] });
       queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['documentPredictions'] });
+      queryClient.invalidateQueries({ queryKey: ['ensemblePredictions'] });
+      queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
+      queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
     },
   });
 }
 
-export function useGenderDistribution() {
+export function useGetDocumentPredictions(documentId: bigint) {
   const { actor, isFetching } = useActor();
-  const { data: documents } = useGetAllDocuments();
 
-  return useQuery<GenderDistribution | null>({
-    queryKey: ['genderDistribution'],
+  return useQuery<ModelPrediction[]>({
+    queryKey: ['documentPredictions', documentId.toString()],
     queryFn: async () => {
-      if (!actor) return null;
-      // Return null if no documents exist (dataset is empty)
-      if (!documents || documents.length === 0) {
-        return null;
-      }
-      try {
-        return await actor.analyzeGenderDistribution();
-      } catch (error) {
-        console.warn('Gender distribution not available:', error);
-        return null;
-      }
+      if (!actor) return [];
+      return actor.getDocumentPredictions(documentId);
     },
-    enabled: !!actor && !isFetching && !!documents && documents.length > 0,
-    staleTime: 0,
-    refetchOnMount: true,
+    enabled: !!actor && !isFetching,
   });
 }
 
-export function useGeoDistribution() {
+export function useListEnsembles() {
   const { actor, isFetching } = useActor();
-  const { data: documents } = useGetAllDocuments();
 
-  return useQuery<GeoLocationDistribution | null>({
-    queryKey: ['geoDistribution'],
+  return useQuery<EnsembleInfo[]>({
+    queryKey: ['ensembles'],
     queryFn: async () => {
-      if (!actor) return null;
-      // Return null if no documents exist (dataset is empty)
-      if (!documents || documents.length === 0) {
-        return null;
-      }
-      try {
-        const texts = documents.map(doc => [doc.content]);
-        return await actor.analyzeGeoDistribution(texts);
-      } catch (error) {
-        console.warn('Geo distribution not available:', error);
-        return null;
-      }
+      if (!actor) return [];
+      return actor.listEnsembles();
     },
-    enabled: !!actor && !isFetching && !!documents && documents.length > 0,
-    staleTime: 0,
-    refetchOnMount: true,
+    enabled: !!actor && !isFetching,
   });
 }
 
-export function usePurchaseIntentionData() {
+export function useSetDefaultEnsemble() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setDefaultEnsemble(name);
+    },
+    onSuccess: () => {
+      // Document analyses follow the default ensemble
+      queryClient.invalidateQueries({ queryKey: ['ensembles'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    },
+  });
+}
+
+export function useGetEnsemblePredictions(documentId: bigint) {
   const { actor, isFetching } = useActor();
-  const { data: documents } = useGetAllDocuments();
 
-  return useQuery<IntentionResult | null>({
-    queryKey: ['purchaseIntention'],
+  return useQuery<ModelPrediction[]>({
+    queryKey: ['ensemblePredictions', documentId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getEnsemblePredictions(documentId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useAnnotateDocument() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, emotion }: { documentId: bigint; emotion: string }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.annotateDocument(documentId, emotion);
+    },
+    onSuccess: () => {
+      // The annotation plurality becomes the document's gold label
+      queryClient.invalidateQueries({ queryKey: ['annotations'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationAgreement'] });
+      queryClient.invalidateQueries({ queryKey: ['contestedDocuments'] });
+      queryClient.invalidateQueries({ queryKey: ['ensembles'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
+      queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+    },
+  });
+}
+
+export function useGetAnnotationQueue(limit: number) {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<AnnotationCandidate[]>({
+    queryKey: ['annotationQueue', datasetId.toString(), limit],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getAnnotationQueue(datasetId, BigInt(limit));
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useListAnnotations() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<Annotation[]>({
+    queryKey: ['annotations', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listAnnotations(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetAgreementReport() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<AgreementReport | null>({
+    queryKey: ['annotationAgreement', datasetId.toString()],
     queryFn: async () => {
       if (!actor) return null;
-      // Return null if no documents exist (dataset is empty)
-      if (!documents || documents.length === 0) {
+      return actor.getAgreementReport(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useGetContestedDocuments() {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQuery<ContestedDocument[]>({
+    queryKey: ['contestedDocuments', datasetId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getContestedDocuments(datasetId);
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useAdjudicateDocument() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, emotion }: { documentId: bigint; emotion: string }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.adjudicateDocument(documentId, emotion);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contestedDocuments'] });
+      queryClient.invalidateQueries({ queryKey: ['annotationQueue'] });
+      queryClient.invalidateQueries({ queryKey: ['ensembles'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['confusionMatrix'] });
+      queryClient.invalidateQueries({ queryKey: ['modelPredictions'] });
+    },
+  });
+}
+
+/**
+ * Fetch a model's confusion matrix, returning null when it is missing or malformed
+ */
+async function fetchConfusionMatrix(
+  actor: backendInterface,
+  datasetId: bigint,
+  modelName: string
+): Promise<ConfusionMatrixResult | null> {
+  try {
+    const result = await actor.getConfusionMatrix(datasetId, modelName);
+    
+    // Validate that the result has proper structure
+    if (!result || !result.confusionMatrix || !result.emotions) {
+      console.warn('Invalid confusion matrix structure:', result);
+      return null;
+    }
+    
+    // Validate matrix dimensions match emotions array
+    const expectedSize = result.emotions.length;
+    if (result.confusionMatrix.length !== expectedSize) {
+      console.warn('Confusion matrix dimensions mismatch:', {
+        matrixRows: result.confusionMatrix.length,
+        emotionsCount: expectedSize
+      });
+      return null;
+    }
+    
+    // Validate each row has correct number of columns
+    for (const row of result.confusionMatrix) {
+      if (row.length !== expectedSize) {
+        console.warn('Confusion matrix row dimension mismatch:', {
+          rowLength: row.length,
+          expected: expectedSize
+        });
         return null;
       }
-      try {
-        // Use sample data from first document or default values
-        const sampleText = documents[0]?.content || 'Motor listrik Gesits sangat bagus';
-        return await actor.calculateIntention(sampleText, 'male', 'Jakarta', 'Gesits');
-      } catch (error) {
-        console.warn('Purchase intention not available:', error);
+    }
+    
+    return result;
+  } catch (error) {
+    console.warn('Confusion matrix not available for', modelName, ':', error);
+    return null;
+  }
+}
+
+export function useGetConfusionMatrix(modelName: string) {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+  const { data: documents, isLoading: isLoadingDocs } = useGetAllDocuments();
+
+  const hasDocuments = documents && documents.length > 0;
+
+  return useQuery<ConfusionMatrixResult | null>({
+    queryKey: ['confusionMatrix', datasetId.toString(), modelName],
+    queryFn: async () => {
+      if (!actor) return null;
+      
+      // Return null if no documents exist (dataset is empty)
+      if (!hasDocuments) {
         return null;
       }
+      
+      return fetchConfusionMatrix(actor, datasetId, modelName);
     },
-    enabled: !!actor && !isFetching && !!documents && documents.length > 0,
-    staleTime: 0,
+    enabled: !!actor && !isFetching && !isLoadingDocs && !!modelName && hasDocuments,
     refetchOnMount: true,
+    staleTime: 0,
+  });
+}
+
+// Module-level so useQueries only recombines when a query result changes
+function combineConfusionMatrices(results: UseQueryResult<ConfusionMatrixResult | null>[]) {
+  return {
+    data: results.map((result) => result.data ?? null),
+    isLoading: results.some((result) => result.isLoading),
+  };
+}
+
+/**
+ * Confusion matrices of several models at once, sharing the cache of useGetConfusionMatrix
+ */
+export function useGetConfusionMatrices(modelNames: string[]) {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+  const { data: documents, isLoading: isLoadingDocs } = useGetAllDocuments();
+
+  const hasDocuments = documents && documents.length > 0;
+
+  return useQueries({
+    queries: modelNames.map((modelName) => ({
+      queryKey: ['confusionMatrix', datasetId.toString(), modelName],
+      queryFn: async (): Promise<ConfusionMatrixResult | null> => {
+        if (!actor || !hasDocuments) return null;
+        return fetchConfusionMatrix(actor, datasetId, modelName);
+      },
+      enabled: !!actor && !isFetching && !isLoadingDocs && hasDocuments,
+      refetchOnMount: true,
+      staleTime: 0,
+    })),
+    combine: combineConfusionMatrices,
+  });
+}
+
+function combinePredictionSets(results: UseQueryResult<ModelPrediction[]>[]) {
+  return {
+    data: results.map((result) => result.data ?? []),
+    isLoading: results.some((result) => result.isLoading),
+  };
+}
+
+/**
+ * Stored predictions of several models across the active dataset, used for paired significance tests
+ */
+export function useGetModelPredictionSets(modelNames: string[]) {
+  const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
+
+  return useQueries({
+    queries: modelNames.map((modelName) => ({
+      queryKey: ['modelPredictions', datasetId.toString(), modelName],
+      queryFn: async (): Promise<ModelPrediction[]> => {
+        if (!actor) return [];
+        return actor.getModelPredictions(datasetId, modelName);
+      },
+      enabled: !!actor && !isFetching,
+    })),
+    combine: combinePredictionSets,
   });
 }
 
-export function useCalculateIntention() {
+export function useResetModelData() {
   const { actor } = useActor();
+  const { datasetId } = useActiveDataset();
+  const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      input,
-      gender,
-      location,
-      brand,
-    }: {
-      input: string;
-      gender: string;
-      location: string;
-      brand: string;
-    }) => {
+    mutationFn: async (modelName: string) => {
       if (!actor) throw new Error('Actor not initialized');
-      return actor.calculateIntention(input, gender, location, brand);
+      return actor.resetModelData(datasetId, modelName);
+    },
+    onSuccess: (_, modelName) => {
+      queryClient.invalidateQueries({ queryKey: ['confusionMatrix', datasetId.toString(), modelName] });
     },
   });
 }
 
+export function useResetAllData() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.resetAllData();
+    },
+    onSuccess: () => {
+      // Reset all queries to force fresh data
+      queryClient.resetQueries({ queryKey: ['confusionMatrix'] });
+      queryClient.resetQueries({ queryKey: ['documentPredictions'] });
+      queryClient.resetQueries({ queryKey: ['modelPredictions'] });
+      queryClient.resetQueries({ queryKey: ['ensemblePredictions'] });
+      queryClient.resetQueries({ queryKey: ['ensembles'] });
+      queryClient.resetQueries({ queryKey: ['annotations'] });
+      queryClient.resetQueries({ queryKey: ['annotationQueue'] });
+      queryClient.resetQueries({ queryKey: ['annotationAgreement'] });
+      queryClient.resetQueries({ queryKey: ['contestedDocuments'] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['datasets'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+// Emotion mix per region of the active dataset, from the region column of its documents
+export function useGeoDistribution() {
+  const { data: documents, isLoading } = useGetAllDocuments();
+  const data = useMemo<GeoLocationDistribution | null>(
+    () => (documents && documents.length > 0 ? computeGeoDistribution(documents) : null),
+    [documents]
+  );
+  return { data, isLoading };
+}
+
 export function useGetLatestCleaningLog() {
   const { actor, isFetching } = useActor();
+  const { datasetId } = useActiveDataset();
 
   return useQuery<CleaningLog[] | null>({
-    queryKey: ['cleaningLogs', 'latest'],
+    queryKey: ['cleaningLogs', datasetId.toString(), 'latest'],
     queryFn: async () => {
       if (!actor) return null;
       try {
-        return await actor.getLatestCleaningLog();
+        return await actor.getLatestCleaningLog(datasetId);
       } catch (error) {
         console.warn('Cleaning log not available:', error);
         return null;
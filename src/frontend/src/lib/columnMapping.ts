@@ -0,0 +1,221 @@
+/**
+ * Column mapping from arbitrary CSV/JSON schemas onto dataset fields
+ * Suggests which source column feeds each DatasetRow field from header names (English and
+ * Indonesian variants) and, for columns the names do not settle, from the cell contents
+ */
+
+import { parseDatasetDate } from './temporalBuckets';
+import { CANONICAL_EMOTIONS, normalizeEmotionLabel } from './visualizationState';
+import type { DatasetRow, SourceTable } from './datasetIngestion';
+
+export type DatasetField = keyof DatasetRow;
+
+/** Source column header feeding each dataset field; unmapped fields are absent */
+export type ColumnMapping = Partial<Record<DatasetField, string>>;
+
+export interface DatasetFieldInfo {
+  field: DatasetField;
+  label: string;
+  description: string;
+  required: boolean;
+  /** Normalized header names read as this field, most specific first */
+  headerNames: string[];
+}
+
+export const DATASET_FIELDS: DatasetFieldInfo[] = [
+  {
+    field: 'text',
+    label: 'Text',
+    description: 'Post, comment or review text to analyze',
+    required: true,
+    headerNames: [
+      'text', 'fulltext', 'content', 'konten', 'comment', 'komentar', 'tweet', 'isiulasan', 'ulasan', 'review',
+      'isi', 'message', 'pesan', 'caption', 'body', 'teks', 'textdisplay', 'textoriginal',
+    ],
+  },
+  {
+    field: 'ID',
+    label: 'ID',
+    description: 'Identifier of the post in the source system',
+    required: false,
+    headerNames: ['id', 'tweetid', 'commentid', 'postid', 'reviewid', 'idstr', 'no', 'nomor'],
+  },
+  {
+    field: 'Date',
+    label: 'Date',
+    description: 'When the post was published',
+    required: false,
+    headerNames: ['date', 'tanggal', 'createdat', 'publishedat', 'timestamp', 'waktu', 'time', 'datetime', 'tgl'],
+  },
+  {
+    field: 'Region',
+    label: 'Region',
+    description: 'City, province or location of the author',
+    required: false,
+    headerNames: ['region', 'lokasi', 'location', 'kota', 'city', 'provinsi', 'province', 'daerah', 'wilayah'],
+  },
+  {
+    field: 'Source',
+    label: 'Source',
+    description: 'Platform or channel the post came from',
+    required: false,
+    headerNames: ['source', 'sumber', 'platform', 'channel', 'media', 'kanal'],
+  },
+  {
+    field: 'User',
+    label: 'User',
+    description: 'Author name or handle',
+    required: false,
+    headerNames: ['user', 'username', 'author', 'authordisplayname', 'screenname', 'penulis', 'akun', 'nama', 'name', 'pengguna'],
+  },
+  {
+    field: 'Aspect_Category',
+    label: 'Aspect category',
+    description: 'Product aspect the post discusses',
+    required: false,
+    headerNames: ['aspectcategory', 'aspect', 'aspek', 'kategori', 'category', 'kategoriaspek'],
+  },
+  {
+    field: 'Keywords_Extracted',
+    label: 'Keywords',
+    description: 'Comma, semicolon or pipe separated keywords',
+    required: false,
+    headerNames: ['keywordsextracted', 'keywords', 'katakunci', 'tags', 'hashtags', 'tag'],
+  },
+  {
+    field: 'intention_level',
+    label: 'Intention level',
+    description: 'low / medium / high (rendah / sedang / tinggi)',
+    required: false,
+    headerNames: ['intentionlevel', 'levelintensi', 'tingkatintensi'],
+  },
+  {
+    field: 'intention_score',
+    label: 'Intention score',
+    description: 'Purchase intention score from 0 to 100',
+    required: false,
+    headerNames: ['intentionscore', 'skorintensi', 'nilaiintensi'],
+  },
+  {
+    field: 'gold_emotion',
+    label: 'Gold emotion',
+    description: 'Ground-truth emotion label for evaluation',
+    required: false,
+    headerNames: ['goldemotion', 'emotion', 'emotionlabel', 'label', 'emosi'],
+  },
+  {
+    field: 'like_count',
+    label: 'Like count',
+    description: 'Likes, favourites or upvotes the post received',
+    required: false,
+    headerNames: ['likecount', 'likes', 'likescount', 'favoritecount', 'favouritecount', 'votes', 'jumlahsuka', 'suka'],
+  },
+  {
+    field: 'reply_count',
+    label: 'Reply count',
+    description: 'Replies the post received',
+    required: false,
+    headerNames: ['replycount', 'replies', 'repliescount', 'totalreplycount', 'jumlahbalasan', 'balasan'],
+  },
+  {
+    field: 'reply_to_id',
+    label: 'Reply to ID',
+    description: 'ID of the post this one replies to',
+    required: false,
+    headerNames: ['replytoid', 'inreplytostatusidstr', 'inreplytostatusid', 'parentid', 'parentcommentid', 'balasanuntuk'],
+  },
+  {
+    field: 'thread_id',
+    label: 'Thread ID',
+    description: 'ID of the post that started the thread',
+    required: false,
+    headerNames: ['threadid', 'conversationid', 'rootid', 'utas'],
+  },
+];
+
+/**
+ * Normalize header/key names: case-insensitive, whitespace-tolerant, underscore/space variants
+ */
+export function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[\s_\-.]+/g, '');
+}
+
+// Rows inspected when suggesting columns from their contents
+const CONTENT_SAMPLE_SIZE = 50;
+// Share of non-empty sampled cells that must fit a field for a content-based suggestion
+const CONTENT_MATCH_RATIO = 0.8;
+
+function columnSample(table: SourceTable, index: number): string[] {
+  return table.rows
+    .slice(0, CONTENT_SAMPLE_SIZE)
+    .map((row) => (row[index] ?? '').trim())
+    .filter((value) => value.length > 0);
+}
+
+function mostlyMatch(values: string[], predicate: (value: string) => boolean): boolean {
+  return values.length > 0 && values.filter(predicate).length / values.length >= CONTENT_MATCH_RATIO;
+}
+
+/**
+ * Suggest a mapping for a table: header names first, then contents for the text, date and
+ * gold emotion fields when no header names them
+ */
+export function suggestColumnMapping(table: SourceTable): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalizedHeaders = table.headers.map(normalizeKey);
+
+  for (const info of DATASET_FIELDS) {
+    for (const name of info.headerNames) {
+      const index = normalizedHeaders.findIndex((header, i) => header === name && !used.has(i));
+      if (index !== -1) {
+        mapping[info.field] = table.headers[index];
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  const unused = table.headers.map((_, index) => index).filter((index) => !used.has(index));
+  const assign = (field: DatasetField, index: number | undefined) => {
+    if (index === undefined) return;
+    mapping[field] = table.headers[index];
+    used.add(index);
+  };
+
+  // The text is the column with the longest sentence-like cells
+  if (!mapping.text) {
+    let best: { index: number; averageLength: number } | undefined;
+    for (const index of unused) {
+      const values = columnSample(table, index);
+      if (!mostlyMatch(values, (value) => value.includes(' '))) continue;
+      const averageLength = values.reduce((sum, value) => sum + value.length, 0) / values.length;
+      if (averageLength >= 20 && (!best || averageLength > best.averageLength)) {
+        best = { index, averageLength };
+      }
+    }
+    assign('text', best?.index);
+  }
+
+  if (!mapping.Date) {
+    assign('Date', unused.find((index) => !used.has(index) && mostlyMatch(columnSample(table, index), (value) => parseDatasetDate(value) !== null)));
+  }
+
+  if (!mapping.gold_emotion) {
+    const isEmotion = (value: string) => (CANONICAL_EMOTIONS as readonly string[]).includes(normalizeEmotionLabel(value));
+    assign('gold_emotion', unused.find((index) => !used.has(index) && mostlyMatch(columnSample(table, index), isEmotion)));
+  }
+
+  return mapping;
+}
+
+/**
+ * Index of the column a mapping names, matching the header exactly or by normalized name
+ */
+export function findMappedColumn(headers: string[], header: string | undefined): number {
+  if (header === undefined) return -1;
+  const exact = headers.indexOf(header);
+  if (exact !== -1) return exact;
+  const normalized = normalizeKey(header);
+  return headers.findIndex((candidate) => normalizeKey(candidate) === normalized);
+}
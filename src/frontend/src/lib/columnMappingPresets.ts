@@ -0,0 +1,60 @@
+/**
+ * Saved column mappings, kept in the browser so exports from the same tool map in one step
+ */
+
+import { findMappedColumn, type ColumnMapping } from './columnMapping';
+
+const STORAGE_KEY = 'columnMappingPresets';
+
+export interface ColumnMappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+  /** Milliseconds since the epoch */
+  savedAt: number;
+}
+
+export function loadColumnMappingPresets(): ColumnMappingPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as ColumnMappingPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storePresets(presets: ColumnMappingPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage may be unavailable (private mode); presets then last for the session only
+  }
+}
+
+/**
+ * Save a preset, replacing one with the same name, and return the updated list
+ */
+export function saveColumnMappingPreset(name: string, mapping: ColumnMapping): ColumnMappingPreset[] {
+  const presets = loadColumnMappingPresets().filter((preset) => preset.name !== name);
+  presets.push({ name, mapping, savedAt: Date.now() });
+  storePresets(presets);
+  return presets;
+}
+
+export function deleteColumnMappingPreset(name: string): ColumnMappingPreset[] {
+  const presets = loadColumnMappingPresets().filter((preset) => preset.name !== name);
+  storePresets(presets);
+  return presets;
+}
+
+/**
+ * Most recently saved preset whose every mapped column exists in the given headers
+ */
+export function findMatchingPreset(presets: ColumnMappingPreset[], headers: string[]): ColumnMappingPreset | undefined {
+  return [...presets]
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .find((preset) => {
+      const columns = Object.values(preset.mapping);
+      return preset.mapping.text !== undefined && columns.every((column) => findMappedColumn(headers, column) !== -1);
+    });
+}
@@ -18,12 +18,12 @@ export interface ModelPalette {
 /**
  * Normalizes model name to standard format
  */
-export function normalizeModelName(modelName: string): 'BERT' | 'RoBERTa' | 'DistilBERT' | 'unknown' {
+export function normalizeModelName(modelName: string): 'Lexicon-Base' | 'Lexicon-Wide' | 'Lexicon-Narrow' | 'unknown' {
   const normalized = modelName.toUpperCase().trim();
   
-  if (normalized === 'BERT') return 'BERT';
-  if (normalized === 'ROBERTA') return 'RoBERTa';
-  if (normalized === 'DISTILBERT') return 'DistilBERT';
+  if (normalized === 'LEXICON-BASE') return 'Lexicon-Base';
+  if (normalized === 'LEXICON-WIDE') return 'Lexicon-Wide';
+  if (normalized === 'LEXICON-NARROW') return 'Lexicon-Narrow';
   
   return 'unknown';
 }
@@ -35,39 +35,39 @@ export function getModelPalette(modelName: string): ModelPalette {
   const model = normalizeModelName(modelName);
   
   switch (model) {
-    case 'BERT':
+    case 'Lexicon-Base':
       return {
-        gradientStart: 'var(--bert-matrix-green)',
-        gradientEnd: 'var(--bert-matrix-yellow)',
-        labelBg: 'var(--bert-matrix-label-bg)',
-        labelBorder: 'var(--bert-matrix-label-border)',
-        tooltipBg: 'var(--bert-matrix-tooltip-bg)',
-        tooltipBorder: 'var(--bert-matrix-tooltip-border)',
-        tooltipAccent: 'var(--bert-matrix-tooltip-accent)',
+        gradientStart: 'var(--lexicon-base-matrix-green)',
+        gradientEnd: 'var(--lexicon-base-matrix-yellow)',
+        labelBg: 'var(--lexicon-base-matrix-label-bg)',
+        labelBorder: 'var(--lexicon-base-matrix-label-border)',
+        tooltipBg: 'var(--lexicon-base-matrix-tooltip-bg)',
+        tooltipBorder: 'var(--lexicon-base-matrix-tooltip-border)',
+        tooltipAccent: 'var(--lexicon-base-matrix-tooltip-accent)',
         legendLabel: 'Intensitas: hijau (rendah) → kuning (tinggi)',
       };
     
-    case 'RoBERTa':
+    case 'Lexicon-Wide':
       return {
-        gradientStart: 'var(--roberta-matrix-blue)',
-        gradientEnd: 'var(--roberta-matrix-purple)',
-        labelBg: 'var(--roberta-matrix-label-bg)',
-        labelBorder: 'var(--roberta-matrix-label-border)',
-        tooltipBg: 'var(--roberta-matrix-tooltip-bg)',
-        tooltipBorder: 'var(--roberta-matrix-tooltip-border)',
-        tooltipAccent: 'var(--roberta-matrix-tooltip-accent)',
+        gradientStart: 'var(--lexicon-wide-matrix-blue)',
+        gradientEnd: 'var(--lexicon-wide-matrix-purple)',
+        labelBg: 'var(--lexicon-wide-matrix-label-bg)',
+        labelBorder: 'var(--lexicon-wide-matrix-label-border)',
+        tooltipBg: 'var(--lexicon-wide-matrix-tooltip-bg)',
+        tooltipBorder: 'var(--lexicon-wide-matrix-tooltip-border)',
+        tooltipAccent: 'var(--lexicon-wide-matrix-tooltip-accent)',
         legendLabel: 'Intensitas: biru (rendah) → ungu (tinggi)',
       };
     
-    case 'DistilBERT':
+    case 'Lexicon-Narrow':
       return {
-        gradientStart: 'var(--distilbert-matrix-orange)',
-        gradientEnd: 'var(--distilbert-matrix-red)',
-        labelBg: 'var(--distilbert-matrix-label-bg)',
-        labelBorder: 'var(--distilbert-matrix-label-border)',
-        tooltipBg: 'var(--distilbert-matrix-tooltip-bg)',
-        tooltipBorder: 'var(--distilbert-matrix-tooltip-border)',
-        tooltipAccent: 'var(--distilbert-matrix-tooltip-accent)',
+        gradientStart: 'var(--lexicon-narrow-matrix-orange)',
+        gradientEnd: 'var(--lexicon-narrow-matrix-red)',
+        labelBg: 'var(--lexicon-narrow-matrix-label-bg)',
+        labelBorder: 'var(--lexicon-narrow-matrix-label-border)',
+        tooltipBg: 'var(--lexicon-narrow-matrix-tooltip-bg)',
+        tooltipBorder: 'var(--lexicon-narrow-matrix-tooltip-border)',
+        tooltipAccent: 'var(--lexicon-narrow-matrix-tooltip-accent)',
         legendLabel: 'Intensitas: oranye (rendah) → merah (tinggi)',
       };
     
@@ -1,6 +1,7 @@
 /**
  * RFC4180-compliant CSV tokenizer/parser
- * Supports quoted fields containing commas, newlines, and escaped quotes
+ * Supports quoted fields containing commas, newlines, and escaped quotes, with the delimiter
+ * (comma, tab, semicolon or pipe) sniffed from the first lines
  */
 
 export interface ParseStats {
@@ -20,8 +21,9 @@ export interface RFC4180ParseResult {
  * - Quoted fields with newlines: "text\nwith\nnewline"
  * - Escaped quotes: "text with ""quotes"""
  * - Mixed quoted and unquoted fields
+ * - Tab, semicolon or pipe in place of the comma
  */
-export function parseRFC4180CSV(content: string): RFC4180ParseResult {
+export function parseRFC4180CSV(content: string, delimiter: string = ','): RFC4180ParseResult {
   const rows: string[][] = [];
   const fieldCountsPerRow: number[] = [];
   
@@ -59,7 +61,7 @@ export function parseRFC4180CSV(content: string): RFC4180ParseResult {
     }
     
     if (!insideQuotes) {
-      if (char === ',') {
+      if (char === delimiter) {
         // Field separator
         currentRow.push(currentField);
         currentField = '';
@@ -121,3 +123,55 @@ export function parseRFC4180CSV(content: string): RFC4180ParseResult {
 export function trimFields(row: string[]): string[] {
   return row.map(field => field.trim());
 }
+
+export const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'] as const;
+
+// Lines inspected when sniffing the delimiter
+const SNIFF_LINE_COUNT = 20;
+
+/**
+ * Count a delimiter outside quoted fields on each of the first lines
+ */
+function delimiterCounts(content: string, delimiter: string): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let insideQuotes = false;
+
+  for (let i = 0; i < content.length && counts.length < SNIFF_LINE_COUNT; i++) {
+    const char = content[i];
+    if (char === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (!insideQuotes && char === delimiter) {
+      count++;
+    } else if (!insideQuotes && char === '\n') {
+      counts.push(count);
+      count = 0;
+    }
+  }
+  if (count > 0) counts.push(count);
+
+  return counts;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the same, largest number of fields;
+ * the preferred delimiter (from the file extension) wins ties
+ */
+export function sniffDelimiter(content: string, preferred: string = ','): string {
+  let best = preferred;
+  let bestScore = 0;
+
+  for (const delimiter of [preferred, ...CANDIDATE_DELIMITERS.filter((candidate) => candidate !== preferred)]) {
+    const counts = delimiterCounts(content, delimiter);
+    if (counts.length === 0 || counts[0] === 0) continue;
+    // Lines splitting like the header count; a delimiter appearing only in the text does not
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (consistent >= 0.8 && score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
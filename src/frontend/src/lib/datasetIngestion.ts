@@ -1,12 +1,23 @@
 /**
- * Dataset ingestion utilities for parsing and validating CSV/JSON uploads
- * with the required schema: ID,Date,Region,Source,User,text,Aspect_Category,Keywords_Extracted
+ * Dataset ingestion utilities for parsing and validating CSV, TSV, JSON, JSON Lines and XLSX uploads
+ * Columns of any schema are mapped onto ID,Date,Region,Source,User,text,Aspect_Category,Keywords_Extracted
  * Supports optional intention_level and intention_score columns with auto-generation
+ * and an optional gold emotion column (emotion, gold_emotion or label) for evaluation
  * RFC4180-compliant CSV parsing with quoted field support and deterministic recovery
  */
 
 import { derivePurchaseIntentionFromText, validateIntentionScore, validateIntentionLevel } from './purchaseIntentionDerivation';
-import { parseRFC4180CSV, trimFields } from './csvRfc4180';
+import { parseRFC4180CSV, sniffDelimiter, trimFields } from './csvRfc4180';
+import { decodeText, type TextEncodingName } from './textEncoding';
+import { readXlsxWorkbook } from './xlsxWorkbook';
+import { PLATFORM_LABELS, readPlatformExport, stripArchiveAssignment, type PlatformExport } from './platformImporters';
+import { parseDatasetDate, dateToNanos } from './temporalBuckets';
+import { CANONICAL_EMOTIONS, normalizeEmotionLabel } from './visualizationState';
+import { findDuplicates, DEFAULT_NEAR_DUPLICATE_THRESHOLD, type DuplicateReport } from './deduplication';
+import { cleanTexts, toCleaningLogs, type CleaningConfig, type CleaningStepReport } from './textCleaning';
+import { DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
+import { DATASET_FIELDS, findMappedColumn, normalizeKey, suggestColumnMapping, type ColumnMapping } from './columnMapping';
+import type { CleaningLog, DocumentInput, FileDiagnostics } from '../backend';
 
 export interface DatasetRow {
   ID?: string;
@@ -19,6 +30,14 @@ export interface DatasetRow {
   Keywords_Extracted?: string;
   intention_level?: 'low' | 'medium' | 'high';
   intention_score?: number;
+  /** Canonical ground-truth emotion label, when the dataset carries one */
+  gold_emotion?: string;
+  like_count?: number;
+  reply_count?: number;
+  /** ID of the post this row replies to */
+  reply_to_id?: string;
+  /** ID of the post that started the row's thread */
+  thread_id?: string;
 }
 
 export interface ParseDiagnostics {
@@ -27,6 +46,55 @@ export interface ParseDiagnostics {
   fieldCountsPerRow: number[];
   sampleRows: Array<{ rowIndex: number; fieldCount: number; fields: string[] }>;
   recoveryAppliedCount: number;
+  /** Rows repeating an earlier row of the same file, compared after cleaning */
+  duplicates?: DuplicateReport;
+  /** What each enabled cleaning step changed */
+  cleaning?: CleaningStepReport[];
+  /** Rows left without text by cleaning, counted in skippedCount */
+  emptiedByCleaning?: number;
+  /** Format, encoding, delimiter and sheet the rows were read with */
+  source?: SourceFileInfo;
+}
+
+export interface ParseOptions {
+  /** Estimated similarity at which two rows count as near-duplicates (0-1) */
+  nearDuplicateThreshold?: number;
+  /** Cleaning steps to run on each row's text; rows are kept as written when omitted */
+  cleaning?: CleaningConfig;
+  /** Slang lexicon used when deriving missing intention fields from the text */
+  slangLexicon?: SlangLexicon;
+  /** Source column for each dataset field; suggested from the headers and contents when omitted */
+  columnMapping?: ColumnMapping;
+}
+
+/**
+ * Uploaded file read as a table of trimmed string cells, before columns are mapped
+ */
+export interface SourceTable {
+  headers: string[];
+  rows: string[][];
+  /** Field count of every record, header included */
+  fieldCountsPerRow: number[];
+  /** Whether a suspicious text cell may be replaced by the row's most sentence-like field */
+  recoverMisalignedText: boolean;
+  /** Records that could not be read as a row, such as non-object JSON items */
+  unreadableCount: number;
+  /** How the file was read */
+  source: SourceFileInfo;
+}
+
+export interface SourceFileInfo {
+  format: 'csv' | 'tsv' | 'json' | 'jsonl' | 'xlsx';
+  /** Encoding text formats were decoded with */
+  encoding?: TextEncodingName;
+  /** Whether the text started with a byte order mark */
+  bom?: boolean;
+  /** Field separator of delimited text, sniffed from the first lines */
+  delimiter?: string;
+  /** Worksheet the rows came from */
+  sheetName?: string;
+  /** Social platform whose export format was recognized */
+  platform?: PlatformExport;
 }
 
 export interface ParseResult {
@@ -39,10 +107,30 @@ export interface ParseResult {
 }
 
 /**
- * Normalize header/key names: case-insensitive, whitespace-tolerant, underscore/space variants
+ * Map a gold label cell (English or Indonesian) to a canonical emotion; unknown labels are dropped
  */
-function normalizeKey(key: string): string {
-  return key.trim().toLowerCase().replace(/[\s_]+/g, '');
+function parseGoldEmotion(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const emotion = normalizeEmotionLabel(String(value).trim());
+  return (CANONICAL_EMOTIONS as readonly string[]).includes(emotion) ? emotion : undefined;
+}
+
+// Abbreviations platforms use for large counts ("1.2K", "3 rb", "1,5 jt")
+const COUNT_SUFFIXES: Record<string, number> = { '': 1, k: 1_000, rb: 1_000, m: 1_000_000, jt: 1_000_000, b: 1_000_000_000 };
+
+/**
+ * Read an engagement count such as "12", "1,204" or "1.2K"; other values are dropped
+ */
+function parseCount(value: string): number | undefined {
+  const match = /^(\d+(?:[.,]\d+)*)\s*(k|rb|m|jt|b)?$/i.exec(value.trim());
+  if (!match) return undefined;
+  const suffix = match[2]?.toLowerCase() ?? '';
+  // With a suffix the separator is decimal. Without one a separator followed by exactly three
+  // digits groups thousands ("1,204", "1.204.567") and any other is decimal ("12.5", "1,5")
+  const digits = suffix ? match[1] : match[1].replace(/[.,](?=\d{3}(?!\d))/g, '');
+  const number = Number(digits.replace(',', '.'));
+  const count = Math.round(number * COUNT_SUFFIXES[suffix]);
+  return Number.isFinite(count) ? count : undefined;
 }
 
 /**
@@ -111,322 +199,454 @@ function recoverTextValue(fields: string[], textIndex: number, headers: string[]
   return { text: originalText, recovered: false };
 }
 
+type ReadTableResult = { success: true; table: SourceTable } | { success: false; error: string };
+
+const DELIMITED_EXTENSIONS: Record<string, string> = { csv: ',', tsv: '\t', tab: '\t' };
+const LINE_JSON_EXTENSIONS = ['jsonl', 'ndjson'];
+
+// X/Twitter archives hold their posts in tweets.js
+export const SUPPORTED_EXTENSIONS = ['csv', 'tsv', 'tab', 'json', 'jsonl', 'ndjson', 'js', 'xlsx'];
+
+function fileExtension(filename: string): string {
+  return filename.toLowerCase().split('.').pop() ?? '';
+}
+
 /**
- * Parse CSV content into rows with RFC4180 support and recovery
+ * Table of a list of records: columns are the keys of all objects in the order they first
+ * appear, nested values are kept as JSON, and items that are not objects are counted unreadable
  */
-function parseCSV(content: string): ParseResult {
+function tableFromRecords(records: unknown[], source: SourceFileInfo, unreadableCount = 0): SourceTable {
+  const items = records.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null && !Array.isArray(item));
+  const headers = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  const toCell = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+  };
+  const rows = items.map((item) => headers.map((header) => toCell(item[header])));
+  return {
+    headers,
+    rows,
+    fieldCountsPerRow: rows.map((row) => row.length),
+    recoverMisalignedText: false,
+    unreadableCount: unreadableCount + records.length - items.length,
+    source,
+  };
+}
+
+function readDelimitedTable(content: string, extension: string): ReadTableResult {
+  const label = extension.toUpperCase();
   try {
+    const delimiter = sniffDelimiter(content, DELIMITED_EXTENSIONS[extension]);
     // Parse using RFC4180 tokenizer
-    const { rows: rawRows, stats } = parseRFC4180CSV(content);
-    
+    const { rows: rawRows, stats } = parseRFC4180CSV(content, delimiter);
     if (rawRows.length < 2) {
-      return {
-        success: false,
-        rows: [],
-        error: 'CSV file is empty or has no data rows',
-        skippedCount: 0,
-        validCount: 0,
-      };
+      return { success: false, error: `${label} file is empty or has no data rows` };
     }
+    return {
+      success: true,
+      table: {
+        headers: trimFields(rawRows[0]),
+        rows: rawRows.slice(1).map(trimFields),
+        fieldCountsPerRow: stats.fieldCountsPerRow,
+        recoverMisalignedText: true,
+        unreadableCount: 0,
+        source: { format: delimiter === '\t' ? 'tsv' : 'csv', delimiter },
+      },
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to parse ${label} file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
 
-    // Parse and normalize header
-    const headerRow = trimFields(rawRows[0]);
-    const normalizedHeaders = headerRow.map(normalizeKey);
-    
-    // Check if 'text' column exists
-    const textIndex = normalizedHeaders.findIndex(h => h === 'text');
-    if (textIndex === -1) {
-      return {
-        success: false,
-        rows: [],
-        error: 'Required column "text" not found in CSV. Expected format: ID,Date,Region,Source,User,text,Aspect_Category,Keywords_Extracted',
-        skippedCount: 0,
-        validCount: 0,
-        diagnostics: {
-          normalizedHeaders,
-          textIndex: -1,
-          fieldCountsPerRow: stats.fieldCountsPerRow,
-          sampleRows: rawRows.slice(0, 3).map((fields, idx) => ({
-            rowIndex: idx,
-            fieldCount: fields.length,
-            fields: trimFields(fields),
-          })),
-          recoveryAppliedCount: 0,
-        },
-      };
+/**
+ * One JSON value per line; lines that do not parse are counted unreadable
+ */
+function readJsonLinesTable(content: string): ReadTableResult {
+  const records: unknown[] = [];
+  let unreadable = 0;
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      unreadable++;
     }
+  }
+  if (records.length === 0) {
+    return { success: false, error: 'JSON Lines file has no readable lines' };
+  }
+  const platformExport = readPlatformExport(records, 'jsonl');
+  if (platformExport) {
+    return { success: true, table: { ...platformExport.table, unreadableCount: unreadable } };
+  }
+  return { success: true, table: tableFromRecords(records, { format: 'jsonl' }, unreadable) };
+}
 
-    // Find optional intention columns
-    const intentionLevelIndex = normalizedHeaders.findIndex(h => h === 'intentionlevel');
-    const intentionScoreIndex = normalizedHeaders.findIndex(h => h === 'intentionscore');
-
-    // Parse data rows
-    const rows: DatasetRow[] = [];
-    let skippedCount = 0;
-    let recoveryAppliedCount = 0;
-
-    for (let i = 1; i < rawRows.length; i++) {
-      const rawFields = trimFields(rawRows[i]);
-      
-      // Skip completely empty rows
-      if (rawFields.every(f => !f)) {
-        skippedCount++;
-        continue;
-      }
-      
-      // Attempt to recover text value if needed
-      const { text: textValue, recovered } = recoverTextValue(rawFields, textIndex, headerRow);
-      
-      if (recovered) {
-        recoveryAppliedCount++;
-      }
-      
-      // Skip rows with empty text after recovery
-      if (!textValue) {
-        skippedCount++;
-        continue;
-      }
-
-      // Build row object with normalized keys
-      const row: DatasetRow = { text: textValue };
-      
-      // Map other fields
-      for (let idx = 0; idx < headerRow.length && idx < rawFields.length; idx++) {
-        const normalizedHeader = normalizedHeaders[idx];
-        const value = rawFields[idx] || '';
-        
-        if (normalizedHeader === 'id') row.ID = value;
-        else if (normalizedHeader === 'date') row.Date = value;
-        else if (normalizedHeader === 'region') row.Region = value;
-        else if (normalizedHeader === 'source') row.Source = value;
-        else if (normalizedHeader === 'user') row.User = value;
-        else if (normalizedHeader === 'aspectcategory') row.Aspect_Category = value;
-        else if (normalizedHeader === 'keywordsextracted') row.Keywords_Extracted = value;
-      }
+/**
+ * Read CSV, TSV, JSON or JSON Lines content into a table of string cells, before any column
+ * is assigned to a dataset field; social platform exports are flattened into one row per post
+ */
+export function readSourceTable(content: string, filename: string): ReadTableResult {
+  const extension = fileExtension(filename);
 
-      // Handle intention fields: use provided values or auto-generate
-      let hasIntentionLevel = false;
-      let hasIntentionScore = false;
+  if (extension in DELIMITED_EXTENSIONS) {
+    return readDelimitedTable(content, extension);
+  }
 
-      if (intentionLevelIndex !== -1 && intentionLevelIndex < rawFields.length && rawFields[intentionLevelIndex]) {
-        row.intention_level = validateIntentionLevel(rawFields[intentionLevelIndex]);
-        hasIntentionLevel = true;
-      }
+  if (LINE_JSON_EXTENSIONS.includes(extension)) {
+    return readJsonLinesTable(content);
+  }
 
-      if (intentionScoreIndex !== -1 && intentionScoreIndex < rawFields.length && rawFields[intentionScoreIndex]) {
-        row.intention_score = validateIntentionScore(rawFields[intentionScoreIndex]);
-        hasIntentionScore = true;
+  if (extension === 'json' || extension === 'js') {
+    let data: unknown;
+    try {
+      data = JSON.parse(stripArchiveAssignment(content));
+    } catch (error) {
+      // Line-delimited exports are often saved with a plain .json extension
+      const lines = content.split(/\r?\n/).filter((line) => line.trim());
+      if (lines.length > 1 && lines[0].trimStart().startsWith('{')) {
+        return readJsonLinesTable(content);
       }
-
-      // Auto-generate missing intention fields
-      if (!hasIntentionLevel || !hasIntentionScore) {
-        const derived = derivePurchaseIntentionFromText(textValue);
-        if (!hasIntentionLevel) {
-          row.intention_level = derived.intention_level;
-        }
-        if (!hasIntentionScore) {
-          row.intention_score = derived.intention_score;
-        }
+      return { success: false, error: `Failed to parse JSON file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+    const platformExport = readPlatformExport(data, 'json');
+    if (platformExport) {
+      if (platformExport.table.rows.length === 0) {
+        return { success: false, error: `${PLATFORM_LABELS[platformExport.platform]} export has no posts with text` };
       }
-
-      rows.push(row);
+      return { success: true, table: platformExport.table };
     }
+    if (!Array.isArray(data)) {
+      return { success: false, error: 'JSON file must contain an array of objects' };
+    }
+    if (data.length === 0) {
+      return { success: false, error: 'JSON file is empty' };
+    }
+    return { success: true, table: tableFromRecords(data, { format: 'json' }) };
+  }
 
-    const diagnostics: ParseDiagnostics = {
-      normalizedHeaders,
-      textIndex,
-      fieldCountsPerRow: stats.fieldCountsPerRow,
-      sampleRows: rawRows.slice(0, Math.min(4, rawRows.length)).map((fields, idx) => ({
-        rowIndex: idx,
-        fieldCount: fields.length,
-        fields: trimFields(fields).slice(0, 8), // Limit to first 8 fields for preview
-      })),
-      recoveryAppliedCount,
-    };
+  if (extension === 'xls') {
+    return { success: false, error: 'Legacy .xls workbooks are not supported. Save the file as .xlsx or CSV' };
+  }
+
+  return { success: false, error: `Unsupported file format: .${extension}. Use ${SUPPORTED_EXTENSIONS.map((ext) => `.${ext}`).join(', ')}` };
+}
 
-    if (rows.length === 0) {
-      return {
-        success: false,
-        rows: [],
-        error: 'No valid rows with non-empty "text" column found',
-        skippedCount,
-        validCount: 0,
-        diagnostics,
-      };
+/**
+ * Read an uploaded file into tables: one per non-empty worksheet for XLSX workbooks, and one
+ * for text formats after detecting their encoding
+ */
+export async function readSourceFile(
+  bytes: Uint8Array,
+  filename: string
+): Promise<{ success: true; tables: SourceTable[] } | { success: false; error: string }> {
+  if (fileExtension(filename) === 'xlsx') {
+    try {
+      const sheets = await readXlsxWorkbook(bytes);
+      const tables = sheets
+        .filter((sheet) => sheet.rows.length >= 2)
+        .map((sheet): SourceTable => ({
+          headers: sheet.rows[0].map((cell) => cell.trim()),
+          rows: sheet.rows.slice(1).map(trimFields),
+          fieldCountsPerRow: sheet.rows.map((row) => row.length),
+          recoverMisalignedText: false,
+          unreadableCount: 0,
+          source: { format: 'xlsx', sheetName: sheet.name },
+        }));
+      if (tables.length === 0) {
+        return { success: false, error: 'XLSX workbook has no sheet with a header and data rows' };
+      }
+      return { success: true, tables };
+    } catch (error) {
+      return { success: false, error: `Failed to read XLSX file: ${error instanceof Error ? error.message : 'Unknown error'}` };
     }
+  }
 
-    return {
-      success: true,
-      rows,
-      skippedCount,
-      validCount: rows.length,
-      diagnostics,
-    };
-  } catch (error) {
+  const { text, encoding, bom } = decodeText(bytes);
+  const result = readSourceTable(text, filename);
+  if (!result.success) return result;
+  return { success: true, tables: [{ ...result.table, source: { ...result.table.source, encoding, bom } }] };
+}
+
+/**
+ * Build dataset rows from a table with the given column mapping; missing intention fields are
+ * derived from the text
+ */
+export function applyColumnMapping(table: SourceTable, mapping: ColumnMapping, lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): ParseResult {
+  const normalizedHeaders = table.headers.map(normalizeKey);
+  const textIndex = findMappedColumn(table.headers, mapping.text);
+  const sampleRows = [table.headers, ...table.rows].slice(0, 4).map((fields, idx) => ({
+    rowIndex: idx,
+    fieldCount: fields.length,
+    fields: fields.slice(0, 8), // Limit to first 8 fields for preview
+  }));
+
+  if (textIndex === -1) {
     return {
       success: false,
       rows: [],
-      error: `Failed to parse CSV file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: 'No column is mapped to the required "text" field',
       skippedCount: 0,
       validCount: 0,
+      diagnostics: {
+        normalizedHeaders,
+        textIndex: -1,
+        fieldCountsPerRow: table.fieldCountsPerRow,
+        sampleRows,
+        recoveryAppliedCount: 0,
+        source: table.source,
+      },
     };
   }
-}
 
-/**
- * Parse JSON content into rows
- */
-function parseJSON(content: string): ParseResult {
-  try {
-    const data = JSON.parse(content);
-    
-    if (!Array.isArray(data)) {
-      return {
-        success: false,
-        rows: [],
-        error: 'JSON file must contain an array of objects',
-        skippedCount: 0,
-        validCount: 0,
-      };
-    }
-
-    if (data.length === 0) {
-      return {
-        success: false,
-        rows: [],
-        error: 'JSON file is empty',
-        skippedCount: 0,
-        validCount: 0,
-      };
-    }
+  const columns = DATASET_FIELDS
+    .map(({ field }) => ({ field, index: findMappedColumn(table.headers, mapping[field]) }))
+    .filter(({ field, index }) => field !== 'text' && index !== -1);
 
-    // Check if 'text' field exists in at least one object
-    const hasTextField = data.some(item => {
-      if (typeof item !== 'object' || item === null) return false;
-      const keys = Object.keys(item).map(normalizeKey);
-      return keys.includes('text');
-    });
+  const rows: DatasetRow[] = [];
+  let skippedCount = table.unreadableCount;
+  let recoveryAppliedCount = 0;
 
-    if (!hasTextField) {
-      return {
-        success: false,
-        rows: [],
-        error: 'Required field "text" not found in JSON. Expected format: array of objects with "text" key',
-        skippedCount: 0,
-        validCount: 0,
-      };
+  for (const fields of table.rows) {
+    // Skip completely empty rows
+    if (fields.every(f => !f)) {
+      skippedCount++;
+      continue;
     }
 
-    // Parse rows
-    const rows: DatasetRow[] = [];
-    let skippedCount = 0;
-
-    for (const item of data) {
-      if (typeof item !== 'object' || item === null) {
-        skippedCount++;
-        continue;
-      }
-
-      // Find text field (case-insensitive)
-      let textValue = '';
-      for (const [key, value] of Object.entries(item)) {
-        if (normalizeKey(key) === 'text') {
-          textValue = String(value || '').trim();
-          break;
-        }
-      }
+    // Attempt to recover text value if needed
+    const { text: textValue, recovered } = table.recoverMisalignedText
+      ? recoverTextValue(fields, textIndex, table.headers)
+      : { text: fields[textIndex]?.trim() || '', recovered: false };
 
-      // Skip rows with empty text
-      if (!textValue) {
-        skippedCount++;
-        continue;
-      }
-
-      // Build row object
-      const row: DatasetRow = { text: textValue };
-
-      let hasIntentionLevel = false;
-      let hasIntentionScore = false;
-
-      for (const [key, value] of Object.entries(item)) {
-        const normalizedKey = normalizeKey(key);
-        const strValue = String(value || '');
-
-        if (normalizedKey === 'id') row.ID = strValue;
-        else if (normalizedKey === 'date') row.Date = strValue;
-        else if (normalizedKey === 'region') row.Region = strValue;
-        else if (normalizedKey === 'source') row.Source = strValue;
-        else if (normalizedKey === 'user') row.User = strValue;
-        else if (normalizedKey === 'aspectcategory') row.Aspect_Category = strValue;
-        else if (normalizedKey === 'keywordsextracted') row.Keywords_Extracted = strValue;
-        else if (normalizedKey === 'intentionlevel') {
-          row.intention_level = validateIntentionLevel(value);
-          hasIntentionLevel = true;
-        }
-        else if (normalizedKey === 'intentionscore') {
-          row.intention_score = validateIntentionScore(value);
-          hasIntentionScore = true;
-        }
-      }
+    if (recovered) {
+      recoveryAppliedCount++;
+    }
 
-      // Auto-generate missing intention fields
-      if (!hasIntentionLevel || !hasIntentionScore) {
-        const derived = derivePurchaseIntentionFromText(textValue);
-        if (!hasIntentionLevel) {
-          row.intention_level = derived.intention_level;
-        }
-        if (!hasIntentionScore) {
-          row.intention_score = derived.intention_score;
-        }
-      }
+    // Skip rows with empty text after recovery
+    if (!textValue) {
+      skippedCount++;
+      continue;
+    }
 
-      rows.push(row);
+    const row: DatasetRow = { text: textValue };
+
+    // Map other fields
+    for (const { field, index } of columns) {
+      if (index >= fields.length) continue;
+      const value = fields[index] || '';
+
+      if (field === 'ID') row.ID = value;
+      else if (field === 'Date') row.Date = value;
+      else if (field === 'Region') row.Region = value;
+      else if (field === 'Source') row.Source = value;
+      else if (field === 'User') row.User = value;
+      else if (field === 'Aspect_Category') row.Aspect_Category = value;
+      else if (field === 'Keywords_Extracted') row.Keywords_Extracted = value;
+      else if (field === 'gold_emotion') row.gold_emotion = parseGoldEmotion(value);
+      else if (field === 'intention_level' && value) row.intention_level = validateIntentionLevel(value);
+      else if (field === 'intention_score' && value) row.intention_score = validateIntentionScore(value);
+      else if (field === 'like_count') row.like_count = parseCount(value);
+      else if (field === 'reply_count') row.reply_count = parseCount(value);
+      else if (field === 'reply_to_id') row.reply_to_id = value || undefined;
+      else if (field === 'thread_id') row.thread_id = value || undefined;
     }
 
-    if (rows.length === 0) {
-      return {
-        success: false,
-        rows: [],
-        error: 'No valid rows with non-empty "text" field found',
-        skippedCount,
-        validCount: 0,
-      };
+    // Auto-generate missing intention fields
+    if (row.intention_level === undefined || row.intention_score === undefined) {
+      const derived = derivePurchaseIntentionFromText(textValue, lexicon);
+      row.intention_level ??= derived.intention_level;
+      row.intention_score ??= derived.intention_score;
     }
 
-    return {
-      success: true,
-      rows,
-      skippedCount,
-      validCount: rows.length,
-    };
-  } catch (error) {
+    rows.push(row);
+  }
+
+  const diagnostics: ParseDiagnostics = {
+    normalizedHeaders,
+    textIndex,
+    fieldCountsPerRow: table.fieldCountsPerRow,
+    sampleRows,
+    recoveryAppliedCount,
+    source: table.source,
+  };
+
+  if (rows.length === 0) {
     return {
       success: false,
       rows: [],
-      error: `Failed to parse JSON file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      skippedCount: 0,
+      error: `No valid rows with non-empty "${table.headers[textIndex]}" column found`,
+      skippedCount,
       validCount: 0,
+      diagnostics,
     };
   }
+
+  return {
+    success: true,
+    rows,
+    skippedCount,
+    validCount: rows.length,
+    diagnostics,
+  };
 }
 
 /**
- * Main entry point: parse dataset file based on extension
+ * Build dataset rows from a table, then clean their text and report duplicate rows; columns
+ * are assigned from the suggested mapping unless one is given
  */
-export function parseDatasetFile(content: string, filename: string): ParseResult {
-  const extension = filename.toLowerCase().split('.').pop();
-
-  if (extension === 'csv') {
-    return parseCSV(content);
-  } else if (extension === 'json') {
-    return parseJSON(content);
-  } else {
-    return {
-      success: false,
-      rows: [],
-      error: `Unsupported file format: .${extension}. Use .csv or .json`,
-      skippedCount: 0,
-      validCount: 0,
-    };
+export function parseSourceTable(table: SourceTable, options: ParseOptions = {}): ParseResult {
+  const mapping = options.columnMapping ?? suggestColumnMapping(table);
+  const result = applyColumnMapping(table, mapping, options.slangLexicon);
+  if (!result.success) return result;
+
+  // Cleaning runs before deduplication so rows differing only in links or mentions match
+  let rows = result.rows;
+  let cleaning: CleaningStepReport[] | undefined;
+  let emptiedByCleaning = 0;
+  if (options.cleaning) {
+    const cleaned = cleanTexts(rows.map((row) => row.text), options.cleaning);
+    cleaning = cleaned.reports;
+    rows = rows
+      .map((row, index) => ({ ...row, text: cleaned.texts[index] }))
+      .filter((row) => row.text.trim().length > 0);
+    emptiedByCleaning = result.rows.length - rows.length;
+  }
+
+  const duplicates = findDuplicates(
+    rows.map((row) => row.text),
+    options.nearDuplicateThreshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD
+  );
+  const diagnostics: ParseDiagnostics = result.diagnostics ?? {
+    normalizedHeaders: [],
+    textIndex: -1,
+    fieldCountsPerRow: [],
+    sampleRows: [],
+    recoveryAppliedCount: 0,
+  };
+  return {
+    ...result,
+    rows,
+    skippedCount: result.skippedCount + emptiedByCleaning,
+    validCount: rows.length,
+    diagnostics: { ...diagnostics, duplicates, cleaning, emptiedByCleaning },
+  };
+}
+
+/**
+ * Main entry point: parse dataset file based on extension with the suggested column mapping,
+ * then report duplicate rows
+ */
+export function parseDatasetFile(content: string, filename: string, options: ParseOptions = {}): ParseResult {
+  const source = readSourceTable(content, filename);
+  if (!source.success) {
+    return { success: false, rows: [], error: source.error, skippedCount: 0, validCount: 0 };
+  }
+  return parseSourceTable(source.table, options);
+}
+
+/**
+ * Split a Keywords_Extracted cell into individual keywords
+ * Accepts comma, semicolon or pipe separated lists, optionally wrapped in brackets
+ */
+export function parseKeywordList(value: string | undefined): string[] {
+  if (!value) return [];
+
+  return value
+    .replace(/^[\[\(]|[\]\)]$/g, '')
+    .split(/[,;|]/)
+    .map(keyword => keyword.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(keyword => keyword.length > 0);
+}
+
+/**
+ * Convert a parsed dataset row into the structured record stored by the backend
+ */
+export function toDocumentInput(row: DatasetRow): DocumentInput {
+  const optional = (value: string | undefined) => (value && value.trim() ? value.trim() : undefined);
+  const publishedDate = parseDatasetDate(row.Date);
+
+  return {
+    content: row.text,
+    metadata: {
+      externalId: optional(row.ID),
+      region: optional(row.Region),
+      source: optional(row.Source),
+      user: optional(row.User),
+      originalDate: optional(row.Date),
+      publishedAt: publishedDate ? dateToNanos(publishedDate) : undefined,
+      aspectCategory: optional(row.Aspect_Category),
+      keywords: parseKeywordList(row.Keywords_Extracted),
+      intentionLevel: row.intention_level,
+      intentionScore: row.intention_score !== undefined ? BigInt(row.intention_score) : undefined,
+      goldEmotion: row.gold_emotion,
+      likeCount: row.like_count !== undefined ? BigInt(row.like_count) : undefined,
+      replyCount: row.reply_count !== undefined ? BigInt(row.reply_count) : undefined,
+      replyToId: optional(row.reply_to_id),
+      threadId: optional(row.thread_id),
+    },
+  };
+}
+
+/**
+ * Summarize a parse run for the stored copy of the file it came from
+ */
+export function toFileDiagnostics(result: ParseResult): FileDiagnostics {
+  const diagnostics = result.diagnostics;
+  return {
+    rowCount: BigInt(result.rows.length),
+    skippedCount: BigInt(result.skippedCount),
+    recoveryAppliedCount: BigInt(diagnostics?.recoveryAppliedCount ?? 0),
+    normalizedHeaders: diagnostics?.normalizedHeaders ?? [],
+    textColumn: diagnostics && diagnostics.textIndex >= 0 ? BigInt(diagnostics.textIndex) : undefined,
+  };
+}
+
+/**
+ * Log entries for a parsed upload: each cleaning step, the rows skipped for missing text and
+ * the duplicate check, measured on the rows as parsed
+ */
+export function buildCleaningLogs(result: ParseResult, duplicatesDropped: boolean): CleaningLog[] {
+  const timestamp = BigInt(Date.now());
+  const logs = toCleaningLogs(result.diagnostics?.cleaning ?? [], timestamp);
+
+  logs.push({
+    step: 'Validasi kolom teks',
+    status: result.skippedCount > 0 ? `${result.skippedCount} baris tanpa teks dilewati` : 'valid',
+    timestamp,
+    rowsAffected: BigInt(result.skippedCount),
+    charactersRemoved: 0n,
+    samples: [],
+  });
+
+  const duplicates = result.diagnostics?.duplicates;
+  if (duplicates) {
+    const matches = [...duplicates.exact, ...duplicates.near];
+    const droppedMatches = duplicatesDropped ? matches : [];
+    let status = 'tidak ada duplikat';
+    if (matches.length > 0) {
+      status = `${duplicates.exact.length} identik, ${duplicates.near.length} mirip; ${duplicatesDropped ? 'dihapus' : 'dipertahankan'}`;
+    }
+    logs.push({
+      step: 'Menghapus duplikat',
+      status,
+      timestamp,
+      rowsAffected: BigInt(droppedMatches.length),
+      charactersRemoved: BigInt(droppedMatches.reduce((sum, match) => sum + result.rows[match.rowIndex].text.length, 0)),
+      samples: droppedMatches.slice(0, 3).map((match) => ({
+        before: result.rows[match.rowIndex].text.slice(0, 200),
+        after: '',
+      })),
+    });
   }
+
+  return logs;
+}
+
+/**
+ * Hex SHA-256 of a file's bytes, recorded to identify identical uploads
+ */
+export async function hashFileContent(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
@@ -0,0 +1,169 @@
+/**
+ * Duplicate detection for parsed dataset rows
+ * Exact duplicates share the same normalized text; near-duplicates are found with MinHash
+ * signatures over character shingles, bucketed by locality-sensitive hashing so large
+ * files are not compared pair by pair
+ */
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 32;
+// 8 bands of 4 rows: pairs at 0.85 similarity share a band with probability above 99%
+const BAND_COUNT = 8;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BAND_COUNT;
+// Bounds the work per row when many rows share a template and crowd the same buckets
+const MAX_CANDIDATES = 200;
+
+export interface DuplicateMatch {
+  /** Zero-based index of the duplicate among the parsed rows */
+  rowIndex: number;
+  /** Index of the earlier row it repeats, which is kept */
+  duplicateOf: number;
+  /** 1 for exact duplicates, the estimated Jaccard similarity for near-duplicates */
+  similarity: number;
+}
+
+export interface DuplicateReport {
+  threshold: number;
+  exact: DuplicateMatch[];
+  near: DuplicateMatch[];
+}
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace so formatting differences do not
+ * hide a repeated post
+ */
+export function normalizeForDeduplication(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 53-bit string hash (cyrb53)
+ */
+function hashText(text: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// Fixed odd multipliers and offsets for the signature's hash permutations
+const PERMUTATIONS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => ({
+  multiplier: (hashText(`a${i}`) | 1) >>> 0,
+  offset: hashText(`b${i}`) >>> 0,
+}));
+
+function shingleHashes(normalized: string): number[] {
+  if (normalized.length <= SHINGLE_SIZE) {
+    return [hashText(normalized) >>> 0];
+  }
+  const hashes = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    hashes.add(hashText(normalized.slice(i, i + SHINGLE_SIZE)) >>> 0);
+  }
+  return Array.from(hashes);
+}
+
+function minHashSignature(normalized: string): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingleHashes(normalized)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = (Math.imul(shingle, PERMUTATIONS[i].multiplier) + PERMUTATIONS[i].offset) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * Find rows repeating an earlier row, exactly or with similarity at or above the threshold.
+ * Each duplicate points at the first row of its group, so dropping every match keeps one
+ * row per group
+ */
+export function findDuplicates(texts: string[], threshold = DEFAULT_NEAR_DUPLICATE_THRESHOLD): DuplicateReport {
+  const exact: DuplicateMatch[] = [];
+  const near: DuplicateMatch[] = [];
+  const firstByText = new Map<number, Array<{ index: number; normalized: string }>>();
+  const signatures = new Map<number, Uint32Array>();
+  const buckets = new Map<string, number[]>();
+
+  texts.forEach((text, index) => {
+    const normalized = normalizeForDeduplication(text);
+    const key = hashText(normalized);
+    const sameHash = firstByText.get(key) ?? [];
+    const original = sameHash.find((entry) => entry.normalized === normalized);
+    if (original) {
+      exact.push({ rowIndex: index, duplicateOf: original.index, similarity: 1 });
+      return;
+    }
+    // Only kept rows are registered, so an exact copy of a near duplicate matches the row
+    // that near duplicate was dropped for
+    if (threshold >= 1 || normalized.length === 0) {
+      firstByText.set(key, [...sameHash, { index, normalized }]);
+      return;
+    }
+
+    // Compare only against kept rows sharing at least one band
+    const signature = minHashSignature(normalized);
+    const bandKeys = Array.from({ length: BAND_COUNT }, (_, band) =>
+      `${band}:${Array.from(signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)).join(',')}`
+    );
+    let best: DuplicateMatch | null = null;
+    const compared = new Set<number>();
+    for (const bandKey of bandKeys) {
+      if (compared.size >= MAX_CANDIDATES) break;
+      for (const candidate of buckets.get(bandKey) ?? []) {
+        if (compared.size >= MAX_CANDIDATES) break;
+        const other = signatures.get(candidate);
+        if (!other || compared.has(candidate)) continue;
+        compared.add(candidate);
+        const similarity = estimateSimilarity(signature, other);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { rowIndex: index, duplicateOf: candidate, similarity };
+        }
+      }
+    }
+    if (best) {
+      near.push(best);
+      return;
+    }
+
+    firstByText.set(key, [...sameHash, { index, normalized }]);
+    signatures.set(index, signature);
+    for (const bandKey of bandKeys) {
+      const bucket = buckets.get(bandKey);
+      if (bucket) bucket.push(index);
+      else buckets.set(bandKey, [index]);
+    }
+  });
+
+  return { threshold, exact, near };
+}
+
+/**
+ * Remove every row reported as a duplicate, keeping the first row of each group
+ */
+export function dropDuplicates<T>(rows: T[], report: DuplicateReport): T[] {
+  const dropped = new Set([...report.exact, ...report.near].map((match) => match.rowIndex));
+  return rows.filter((_, index) => !dropped.has(index));
+}
@@ -0,0 +1,78 @@
+/**
+ * Accessors for the emotion analysis the backend classifier stores with each document
+ * The canister is the single source of truth for emotion labels and probabilities
+ */
+
+import type { BertResult, Document } from '../backend';
+import { detectBrand } from './mockData';
+import { CANONICAL_EMOTIONS, normalizeEmotionLabel } from './visualizationState';
+
+export interface DocumentAnalysis {
+  /** Canonical English emotion label (interest, trust, fear, skepticism, satisfaction) */
+  primaryEmotion: string;
+  confidence: number;
+  /** Probability per canonical emotion */
+  emotions: Record<string, number>;
+  brand: string | null;
+}
+
+export interface GeoLocationDistribution {
+  locations: string[];
+  emotions: string[];
+  /** Percentage of each location's documents per emotion, one row per location */
+  data: number[][];
+}
+
+/**
+ * Convert a classifier result's score vector into a canonical emotion -> probability map
+ */
+export function getEmotionProbabilities(result: BertResult): Record<string, number> {
+  const probabilities: Record<string, number> = {};
+  CANONICAL_EMOTIONS.forEach((emotion) => {
+    probabilities[emotion] = 0;
+  });
+  result.scores.forEach((score) => {
+    probabilities[normalizeEmotionLabel(score.emotion)] = score.probability;
+  });
+  return probabilities;
+}
+
+/**
+ * Read the stored classification of a document
+ */
+export function getDocumentAnalysis(doc: Document): DocumentAnalysis {
+  return {
+    primaryEmotion: normalizeEmotionLabel(doc.analysis.emotion),
+    confidence: doc.analysis.confidence,
+    emotions: getEmotionProbabilities(doc.analysis),
+    brand: detectBrand(doc.content),
+  };
+}
+
+/**
+ * Emotion mix per region, as the percentage of the region's documents with each emotion;
+ * documents without a region are left out and regions are ordered by document count
+ */
+export function computeGeoDistribution(documents: Document[]): GeoLocationDistribution {
+  const counts = new Map<string, Record<string, number>>();
+  documents.forEach((doc) => {
+    const region = doc.metadata.region?.trim();
+    if (!region) return;
+    const regionCounts = counts.get(region) ?? {};
+    const emotion = normalizeEmotionLabel(doc.analysis.emotion);
+    regionCounts[emotion] = (regionCounts[emotion] ?? 0) + 1;
+    counts.set(region, regionCounts);
+  });
+
+  const total = (regionCounts: Record<string, number>) =>
+    Object.values(regionCounts).reduce((sum, count) => sum + count, 0);
+  const regions = Array.from(counts.entries()).sort((a, b) => total(b[1]) - total(a[1]));
+
+  return {
+    locations: regions.map(([region]) => region),
+    emotions: [...CANONICAL_EMOTIONS],
+    data: regions.map(([, regionCounts]) =>
+      CANONICAL_EMOTIONS.map((emotion) => ((regionCounts[emotion] ?? 0) / total(regionCounts)) * 100)
+    ),
+  };
+}
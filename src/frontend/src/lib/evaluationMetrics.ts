@@ -0,0 +1,137 @@
+/**
+ * Classification metrics derived from a model's raw confusion matrix
+ * Rows are gold (actual) emotions, columns are predicted emotions
+ * Undefined ratios (no predictions, no support, degenerate chance agreement) evaluate to 0
+ */
+
+import type { ConfusionMatrixResult } from '../backend';
+
+export interface ClassMetrics {
+  emotion: string;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  /** Number of labeled documents whose gold label is this emotion */
+  support: number;
+}
+
+export interface AveragedMetrics {
+  precision: number;
+  recall: number;
+  f1Score: number;
+}
+
+export interface EvaluationReport {
+  model: string;
+  /** Total labeled predictions in the matrix */
+  total: number;
+  accuracy: number;
+  perClass: ClassMetrics[];
+  macro: AveragedMetrics;
+  micro: AveragedMetrics;
+  weighted: AveragedMetrics;
+  cohensKappa: number;
+  /** Multi-class Matthews correlation coefficient (Gorodkin's R_K) */
+  mcc: number;
+}
+
+/**
+ * Summary row consumed by ModelPerformanceChart and EnsembleComparisonChart (macro averages)
+ */
+export interface PerformanceSummary {
+  name: string;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  accuracy: number;
+  cohensKappa: number;
+  mcc: number;
+  total: number;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function f1(precision: number, recall: number): number {
+  return ratio(2 * precision * recall, precision + recall);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0);
+}
+
+/**
+ * Convert the backend's Nat counts into plain numbers
+ */
+export function toCountMatrix(raw: bigint[][]): number[][] {
+  return raw.map((row) => row.map((cell) => Number(cell)));
+}
+
+/**
+ * Compute per-class, averaged and agreement metrics from a square count matrix
+ */
+export function evaluateCounts(model: string, emotions: string[], counts: number[][]): EvaluationReport {
+  const size = emotions.length;
+  const rowTotals = counts.map((row) => sum(row));
+  const columnTotals = emotions.map((_, col) => sum(counts.map((row) => row[col] ?? 0)));
+  const total = sum(rowTotals);
+  const correct = sum(emotions.map((_, i) => counts[i]?.[i] ?? 0));
+
+  const perClass: ClassMetrics[] = emotions.map((emotion, i) => {
+    const truePositives = counts[i]?.[i] ?? 0;
+    const precision = ratio(truePositives, columnTotals[i]);
+    const recall = ratio(truePositives, rowTotals[i]);
+    return { emotion, precision, recall, f1Score: f1(precision, recall), support: rowTotals[i] };
+  });
+
+  const macro: AveragedMetrics = {
+    precision: ratio(sum(perClass.map((c) => c.precision)), size),
+    recall: ratio(sum(perClass.map((c) => c.recall)), size),
+    f1Score: ratio(sum(perClass.map((c) => c.f1Score)), size),
+  };
+
+  const weighted: AveragedMetrics = {
+    precision: ratio(sum(perClass.map((c) => c.precision * c.support)), total),
+    recall: ratio(sum(perClass.map((c) => c.recall * c.support)), total),
+    f1Score: ratio(sum(perClass.map((c) => c.f1Score * c.support)), total),
+  };
+
+  // Single-label classification: pooled precision, recall and F1 all equal accuracy
+  const accuracy = ratio(correct, total);
+  const micro: AveragedMetrics = { precision: accuracy, recall: accuracy, f1Score: accuracy };
+
+  const chanceProducts = sum(emotions.map((_, k) => rowTotals[k] * columnTotals[k]));
+  const expectedAgreement = ratio(chanceProducts, total * total);
+  const cohensKappa = ratio(accuracy - expectedAgreement, 1 - expectedAgreement);
+
+  const mccDenominator = Math.sqrt(
+    (total * total - sum(columnTotals.map((p) => p * p))) * (total * total - sum(rowTotals.map((t) => t * t)))
+  );
+  const mcc = ratio(correct * total - chanceProducts, mccDenominator);
+
+  return { model, total, accuracy, perClass, macro, micro, weighted, cohensKappa, mcc };
+}
+
+/**
+ * Evaluate a confusion matrix returned by the backend
+ */
+export function evaluateConfusionMatrix(result: ConfusionMatrixResult): EvaluationReport {
+  return evaluateCounts(result.model, result.emotions, toCountMatrix(result.confusionMatrixRaw));
+}
+
+/**
+ * Reduce a report to the macro-averaged summary shown in the performance charts
+ */
+export function toPerformanceSummary(name: string, report: EvaluationReport): PerformanceSummary {
+  return {
+    name,
+    precision: report.macro.precision,
+    recall: report.macro.recall,
+    f1Score: report.macro.f1Score,
+    accuracy: report.accuracy,
+    cohensKappa: report.cohensKappa,
+    mcc: report.mcc,
+    total: report.total,
+  };
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Document } from '../backend';
+import { normalizeSlang, DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
 
 // Marketing effectiveness metrics (funnel stages)
 export const MARKETING_METRICS = [
@@ -71,10 +72,10 @@ function computeMetricScore(content: string, metric: MarketingMetric): number {
 }
 
 /**
- * Compute all marketing metrics from documents
+ * Compute all marketing metrics from documents, with slang normalized before scoring
  * Returns array of metric objects with normalized scores (0-100)
  */
-export function computeMarketingMetrics(documents: Document[]): Array<{
+export function computeMarketingMetrics(documents: Document[], lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): Array<{
   metric: string;
   score: number;
 }> {
@@ -92,8 +93,9 @@ export function computeMarketingMetrics(documents: Document[]): Array<{
   };
   
   documents.forEach(doc => {
+    const content = normalizeSlang(doc.content, lexicon);
     MARKETING_METRICS.forEach(metric => {
-      const score = computeMetricScore(doc.content, metric);
+      const score = computeMetricScore(content, metric);
       metricScores[metric].push(score);
     });
   });
@@ -0,0 +1,327 @@
+/**
+ * Importers for social platform export files
+ * Recognizes X/Twitter archives and API responses, YouTube comment exports (Data API responses
+ * and youtube-comment-downloader output) and Instagram comment dumps (Meta account exports,
+ * Apify and Instaloader output), and flattens their nested posts into one row per post with
+ * the author, date, like and reply counts, and the post each one replies to
+ */
+
+import type { SourceFileInfo, SourceTable } from './datasetIngestion';
+
+export type PlatformExport = 'x' | 'youtube' | 'instagram';
+
+export const PLATFORM_LABELS: Record<PlatformExport, string> = {
+  x: 'X/Twitter',
+  youtube: 'YouTube',
+  instagram: 'Instagram',
+};
+
+interface PlatformPost {
+  id?: string;
+  text: string;
+  date?: string;
+  author?: string;
+  likeCount?: string;
+  replyCount?: string;
+  replyToId?: string;
+  threadId?: string;
+  keywords?: string[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+// Columns of an imported table, named after the dataset fields they fill
+const PLATFORM_COLUMNS = ['ID', 'Date', 'User', 'Source', 'text', 'Keywords_Extracted', 'like_count', 'reply_count', 'reply_to_id', 'thread_id'];
+
+function asRecord(value: unknown): JsonRecord | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonRecord) : null;
+}
+
+function asRecords(value: unknown): JsonRecord[] {
+  return Array.isArray(value) ? value.map(asRecord).filter((item): item is JsonRecord => item !== null) : [];
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'bigint') return value.toString();
+  return undefined;
+}
+
+/**
+ * ISO date from a date string or Unix epoch seconds/milliseconds
+ */
+function isoDate(value: unknown): string | undefined {
+  let date: Date | null = null;
+  if (typeof value === 'number') {
+    date = new Date(value < 1e12 ? value * 1000 : value);
+  } else if (typeof value === 'string' && value.trim()) {
+    date = new Date(value.trim());
+  }
+  return date && !isNaN(date.getTime()) ? date.toISOString() : text(value);
+}
+
+/**
+ * Meta account exports write each UTF-8 byte of non-ASCII text as its own character
+ * ("cafÃ©"); such strings are decoded again as UTF-8
+ */
+function fixMetaEncoding(value: string): string {
+  const codes = Array.from(value, (char) => char.charCodeAt(0));
+  if (!codes.some((code) => code >= 0x80) || codes.some((code) => code > 0xff)) return value;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(codes));
+  } catch {
+    return value;
+  }
+}
+
+function isXPost(item: JsonRecord): boolean {
+  const tweet = asRecord(item.tweet) ?? item;
+  return ('full_text' in tweet || 'text' in tweet) && ('id_str' in tweet || 'favorite_count' in tweet);
+}
+
+// API v2 responses carry posts under `data` and their authors under `includes.users`
+function isXApiV2Response(item: JsonRecord): boolean {
+  return asRecords(item.data).some((post) => 'text' in post && ('conversation_id' in post || 'public_metrics' in post || 'author_id' in post));
+}
+
+/**
+ * Archive tweets (wrapped in `tweet`) and v1.1 API tweets
+ */
+function fromXPost(item: JsonRecord): PlatformPost | null {
+  const tweet = asRecord(item.tweet) ?? item;
+  const content = text(tweet.full_text) ?? text(tweet.text);
+  if (!content) return null;
+  return {
+    id: text(tweet.id_str) ?? text(tweet.id),
+    text: content,
+    date: isoDate(tweet.created_at),
+    author: text(asRecord(tweet.user)?.screen_name),
+    likeCount: text(tweet.favorite_count),
+    replyCount: text(tweet.reply_count),
+    replyToId: text(tweet.in_reply_to_status_id_str) ?? text(tweet.in_reply_to_status_id),
+    keywords: asRecords(asRecord(tweet.entities)?.hashtags).map((tag) => text(tag.text)).filter((tag): tag is string => !!tag),
+  };
+}
+
+function fromXApiV2(response: JsonRecord): PlatformPost[] {
+  const users = new Map(
+    asRecords(asRecord(response.includes)?.users).map((user) => [text(user.id) ?? '', text(user.username)])
+  );
+  return asRecords(response.data).flatMap((post) => {
+    const content = text(post.text);
+    if (!content) return [];
+    const metrics = asRecord(post.public_metrics);
+    const authorId = text(post.author_id);
+    return [{
+      id: text(post.id),
+      text: content,
+      date: isoDate(post.created_at),
+      author: (authorId && users.get(authorId)) ?? authorId,
+      likeCount: text(metrics?.like_count),
+      replyCount: text(metrics?.reply_count),
+      replyToId: text(asRecords(post.referenced_tweets).find((reference) => reference.type === 'replied_to')?.id),
+      threadId: text(post.conversation_id),
+      keywords: asRecords(asRecord(post.entities)?.hashtags).map((tag) => text(tag.tag)).filter((tag): tag is string => !!tag),
+    }];
+  });
+}
+
+function isYouTubeResponse(item: JsonRecord): boolean {
+  return typeof item.kind === 'string' && item.kind.startsWith('youtube#');
+}
+
+// youtube-comment-downloader writes replies with a "<parent>.<reply>" comment id
+function isYouTubeDownloaderComment(item: JsonRecord): boolean {
+  return 'cid' in item && 'text' in item && ('votes' in item || 'time_parsed' in item);
+}
+
+function fromYouTubeComment(comment: JsonRecord, thread: { replyCount?: unknown; threadId?: string }): PlatformPost | null {
+  const snippet = asRecord(comment.snippet) ?? {};
+  const content = text(snippet.textOriginal) ?? text(snippet.textDisplay);
+  if (!content) return null;
+  const id = text(comment.id);
+  const replyToId = text(snippet.parentId);
+  return {
+    id,
+    text: content,
+    date: isoDate(snippet.publishedAt),
+    author: text(snippet.authorDisplayName),
+    likeCount: text(snippet.likeCount),
+    replyCount: text(thread.replyCount),
+    replyToId,
+    threadId: thread.threadId ?? replyToId ?? id,
+  };
+}
+
+/**
+ * Data API comment threads (a top-level comment with its replies) and plain comments, from a
+ * list response, an array of responses or an array of items
+ */
+function fromYouTubeResource(item: JsonRecord): PlatformPost[] {
+  if (item.kind === 'youtube#commentThread') {
+    const snippet = asRecord(item.snippet) ?? {};
+    const top = asRecord(snippet.topLevelComment);
+    const threadId = text(top?.id) ?? text(item.id);
+    const replies = asRecords(asRecord(item.replies)?.comments)
+      .map((reply) => fromYouTubeComment(reply, { threadId }))
+      .filter((post): post is PlatformPost => post !== null);
+    const topPost = top ? fromYouTubeComment(top, { replyCount: snippet.totalReplyCount, threadId }) : null;
+    return topPost ? [topPost, ...replies] : replies;
+  }
+  if (item.kind === 'youtube#comment') {
+    const post = fromYouTubeComment(item, {});
+    return post ? [post] : [];
+  }
+  return asRecords(item.items).flatMap(fromYouTubeResource);
+}
+
+function fromYouTubeDownloader(item: JsonRecord): PlatformPost | null {
+  const content = text(item.text);
+  if (!content) return null;
+  const id = text(item.cid);
+  const parent = id?.includes('.') ? id.split('.')[0] : undefined;
+  return {
+    id,
+    text: content,
+    date: isoDate(item.time_parsed) ?? text(item.time),
+    author: text(item.author),
+    likeCount: text(item.votes),
+    replyCount: parent ? undefined : text(item.replies),
+    replyToId: parent,
+    threadId: parent ?? id,
+  };
+}
+
+// Meta account exports keep each comment's fields under `string_map_data`
+function isMetaExportComment(item: JsonRecord): boolean {
+  return asRecord(item.string_map_data) !== null;
+}
+
+// Scraper output: Apify's `ownerUsername` and Instaloader's `owner.username`
+function isInstagramScrapedComment(item: JsonRecord): boolean {
+  return 'text' in item && ('ownerUsername' in item || asRecord(item.owner)?.username !== undefined);
+}
+
+/**
+ * The export holds the account owner's own comments, so only their text and time are known
+ */
+function fromMetaExport(item: JsonRecord): PlatformPost | null {
+  const fields = asRecord(item.string_map_data) ?? {};
+  const content = text(asRecord(fields.Comment)?.value);
+  if (!content) return null;
+  return {
+    text: fixMetaEncoding(content),
+    date: isoDate(asRecord(fields.Time)?.timestamp),
+  };
+}
+
+function fromInstagramScraped(item: JsonRecord, parentId?: string, threadId?: string): PlatformPost[] {
+  const content = text(item.text);
+  const id = text(item.id);
+  const nested = [...asRecords(item.replies), ...asRecords(item.answers)];
+  const post: PlatformPost[] = content
+    ? [{
+        id,
+        text: content,
+        date: isoDate(item.timestamp ?? item.created_at),
+        author: text(item.ownerUsername) ?? text(asRecord(item.owner)?.username),
+        likeCount: text(item.likesCount ?? item.likes_count),
+        replyCount: text(item.repliesCount) ?? (nested.length > 0 ? nested.length.toString() : undefined),
+        replyToId: parentId,
+        threadId: threadId ?? id,
+      }]
+    : [];
+  return [...post, ...nested.flatMap((reply) => fromInstagramScraped(reply, id, threadId ?? id))];
+}
+
+/**
+ * Items of a top-level JSON value: an array, or the arrays of an object such as a Meta
+ * export's `{ "comments_reels_comments": [...] }`
+ */
+function topLevelItems(data: unknown): JsonRecord[] {
+  if (Array.isArray(data)) return asRecords(data);
+  const record = asRecord(data);
+  if (!record) return [];
+  if (isYouTubeResponse(record) || isXApiV2Response(record)) return [record];
+  return Object.values(record).flatMap(asRecords);
+}
+
+function detectPosts(items: JsonRecord[]): { platform: PlatformExport; posts: PlatformPost[] } | null {
+  const some = (predicate: (item: JsonRecord) => boolean) => items.length > 0 && items.slice(0, 20).some(predicate);
+  const present = (post: PlatformPost | null): post is PlatformPost => post !== null;
+
+  if (some(isXApiV2Response)) return { platform: 'x', posts: items.flatMap(fromXApiV2) };
+  if (some(isXPost)) return { platform: 'x', posts: items.map(fromXPost).filter(present) };
+  if (some(isYouTubeResponse)) return { platform: 'youtube', posts: items.flatMap(fromYouTubeResource) };
+  if (some(isYouTubeDownloaderComment)) return { platform: 'youtube', posts: items.map(fromYouTubeDownloader).filter(present) };
+  if (some(isMetaExportComment)) return { platform: 'instagram', posts: items.map(fromMetaExport).filter(present) };
+  if (some(isInstagramScrapedComment)) return { platform: 'instagram', posts: items.flatMap((item) => fromInstagramScraped(item)) };
+  return null;
+}
+
+/**
+ * Thread of posts that name only their parent: the earliest ancestor in the file, or the
+ * parent itself when the file does not hold it
+ */
+function resolveThreads(posts: PlatformPost[]): void {
+  const parents = new Map(posts.filter((post) => post.id).map((post) => [post.id as string, post.replyToId]));
+  for (const post of posts) {
+    if (post.threadId) continue;
+    let root = post.id;
+    let parent = post.replyToId;
+    const seen = new Set<string>();
+    while (parent && !seen.has(parent)) {
+      seen.add(parent);
+      root = parent;
+      parent = parents.get(parent);
+    }
+    post.threadId = root;
+  }
+}
+
+/**
+ * X/Twitter archive files are scripts assigning the data to a global
+ * ("window.YTD.tweets.part0 = [...]"); the assignment is dropped so the rest reads as JSON
+ */
+export function stripArchiveAssignment(content: string): string {
+  return content.replace(/^\s*window\.YTD\.[\w.]+\s*=\s*/, '');
+}
+
+/**
+ * Read parsed JSON as a platform export, or null when its structure matches no known platform
+ */
+export function readPlatformExport(
+  data: unknown,
+  format: SourceFileInfo['format']
+): { platform: PlatformExport; table: SourceTable } | null {
+  const items = topLevelItems(data);
+  const detected = detectPosts(items);
+  if (!detected) return null;
+
+  const { platform, posts } = detected;
+  resolveThreads(posts);
+  const rows = posts.map((post) => [
+    post.id ?? '',
+    post.date ?? '',
+    post.author ?? '',
+    PLATFORM_LABELS[platform],
+    post.text,
+    (post.keywords ?? []).join(', '),
+    post.likeCount ?? '',
+    post.replyCount ?? '',
+    post.replyToId ?? '',
+    post.threadId ?? '',
+  ]);
+
+  return {
+    platform,
+    table: {
+      headers: PLATFORM_COLUMNS,
+      rows,
+      fieldCountsPerRow: rows.map((row) => row.length),
+      recoverMisalignedText: false,
+      unreadableCount: 0,
+      source: { format, platform },
+    },
+  };
+}
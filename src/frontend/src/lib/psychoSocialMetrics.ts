@@ -1,10 +1,11 @@
 /**
  * Psycho-social metrics computation for heatmap visualization
- * Deterministic, frontend-only helpers for classifying emotions and scoring UTAUT2 constructs
+ * Deterministic helpers for scoring UTAUT2 constructs against backend emotion labels
  */
 
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from './mockData';
+import { getDocumentAnalysis } from './documentAnalysis';
+import { normalizeSlang, DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
 
 // UTAUT2 constructs for technology acceptance analysis
 export const PSYCHO_SOCIAL_DIMENSIONS = [
@@ -30,28 +31,11 @@ export type PsychoSocialDimension = typeof PSYCHO_SOCIAL_DIMENSIONS[number];
 export type EmotionCategory = typeof EMOTION_CATEGORIES[number];
 
 /**
- * Classify document into an emotion category based on content keywords
- * Deterministic classification with no randomness
+ * Emotion category of a document, as assigned by the backend classifier
  */
-export function classifyEmotionCategory(content: string): EmotionCategory {
-  const lowerText = content.toLowerCase();
-  
-  // Priority-based classification (first match wins)
-  if (lowerText.includes('bagus') || lowerText.includes('puas') || lowerText.includes('senang')) {
-    return 'satisfaction';
-  }
-  if (lowerText.includes('percaya') || lowerText.includes('yakin') || lowerText.includes('aman')) {
-    return 'trust';
-  }
-  if (lowerText.includes('takut') || lowerText.includes('khawatir') || lowerText.includes('bahaya')) {
-    return 'fear';
-  }
-  if (lowerText.includes('ragu') || lowerText.includes('skeptis') || lowerText.includes('tidak yakin')) {
-    return 'skepticism';
-  }
-  
-  // Default to interest
-  return 'interest';
+export function classifyEmotionCategory(doc: Document): EmotionCategory {
+  const emotion = getDocumentAnalysis(doc).primaryEmotion;
+  return (EMOTION_CATEGORIES as readonly string[]).includes(emotion) ? (emotion as EmotionCategory) : 'interest';
 }
 
 /**
@@ -123,10 +107,10 @@ function scoreDimension(content: string, dimension: PsychoSocialDimension): numb
 }
 
 /**
- * Compute UTAUT2 construct scores for all documents
+ * Compute UTAUT2 construct scores for all documents, with slang normalized before scoring
  * Returns a matrix: dimensions x emotions with normalized scores
  */
-export function computePsychoSocialMatrix(documents: Document[]): number[][] {
+export function computePsychoSocialMatrix(documents: Document[], lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): number[][] {
   if (documents.length === 0) {
     return [];
   }
@@ -143,10 +127,11 @@ export function computePsychoSocialMatrix(documents: Document[]): number[][] {
   
   // Score each document
   documents.forEach(doc => {
-    const emotion = classifyEmotionCategory(doc.content);
+    const emotion = classifyEmotionCategory(doc);
+    const content = normalizeSlang(doc.content, lexicon);
     
     PSYCHO_SOCIAL_DIMENSIONS.forEach(dimension => {
-      const score = scoreDimension(doc.content, dimension);
+      const score = scoreDimension(content, dimension);
       matrix[dimension][emotion].push(score);
     });
   });
@@ -4,7 +4,9 @@
  */
 
 import type { Document } from '../backend';
-import { derivePurchaseIntentionFromText } from './purchaseIntentionDerivation';
+import { derivePurchaseIntentionFromText, deriveIntentionLevel, validateIntentionLevel } from './purchaseIntentionDerivation';
+import { groupDocumentsByPeriod, type TimeGranularity } from './temporalBuckets';
+import { DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
 
 export interface IntentionDistribution {
   high: number;
@@ -21,14 +23,41 @@ export interface IntentionByBrand {
 
 export interface IntentionTrendPoint {
   id: number;
+  period: string;
   intentionLevel: string;
   trend: number;
+  levelScores: Partial<Record<'high' | 'medium' | 'low', number>>;
+}
+
+/**
+ * Resolve a document's purchase intention, preferring the level/score provided by the dataset
+ * and deriving from text only for fields the upload did not carry
+ */
+export function resolveDocumentIntention(doc: Document, lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): {
+  intention_score: number;
+  intention_level: 'low' | 'medium' | 'high';
+} {
+  const { intentionLevel, intentionScore } = doc.metadata;
+  if (intentionLevel && intentionScore !== undefined) {
+    return { intention_score: Number(intentionScore), intention_level: validateIntentionLevel(intentionLevel) };
+  }
+
+  if (intentionScore !== undefined) {
+    const score = Number(intentionScore);
+    return { intention_score: score, intention_level: deriveIntentionLevel(score) };
+  }
+
+  const derived = derivePurchaseIntentionFromText(doc.content, lexicon);
+  if (intentionLevel) {
+    return { intention_score: derived.intention_score, intention_level: validateIntentionLevel(intentionLevel) };
+  }
+  return derived;
 }
 
 /**
  * Compute purchase intention distribution from documents
  */
-export function computeIntentionDistribution(documents: Document[]): IntentionDistribution {
+export function computeIntentionDistribution(documents: Document[], lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): IntentionDistribution {
   if (documents.length === 0) {
     return { high: 0, medium: 0, low: 0 };
   }
@@ -36,7 +65,7 @@ export function computeIntentionDistribution(documents: Document[]): IntentionDi
   const distribution = { high: 0, medium: 0, low: 0 };
 
   documents.forEach(doc => {
-    const { intention_level } = derivePurchaseIntentionFromText(doc.content);
+    const { intention_level } = resolveDocumentIntention(doc, lexicon);
     distribution[intention_level]++;
   });
 
@@ -46,13 +75,13 @@ export function computeIntentionDistribution(documents: Document[]): IntentionDi
 /**
  * Compute average intention score from documents
  */
-export function computeAverageIntentionScore(documents: Document[]): number {
+export function computeAverageIntentionScore(documents: Document[], lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): number {
   if (documents.length === 0) {
     return 0;
   }
 
   const totalScore = documents.reduce((sum, doc) => {
-    const { intention_score } = derivePurchaseIntentionFromText(doc.content);
+    const { intention_score } = resolveDocumentIntention(doc, lexicon);
     return sum + intention_score;
   }, 0);
 
@@ -82,7 +111,7 @@ function detectBrand(text: string): string | null {
 /**
  * Compute intention distribution by brand
  */
-export function computeIntentionByBrand(documents: Document[]): IntentionByBrand[] {
+export function computeIntentionByBrand(documents: Document[], lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): IntentionByBrand[] {
   if (documents.length === 0) {
     return [];
   }
@@ -93,7 +122,7 @@ export function computeIntentionByBrand(documents: Document[]): IntentionByBrand
     const brand = detectBrand(doc.content);
     if (!brand) return;
 
-    const { intention_level } = derivePurchaseIntentionFromText(doc.content);
+    const { intention_level } = resolveDocumentIntention(doc, lexicon);
 
     if (!brandMap.has(brand)) {
       brandMap.set(brand, { high: 0, medium: 0, low: 0 });
@@ -118,49 +147,50 @@ export function computeIntentionByBrand(documents: Document[]): IntentionByBrand
 }
 
 /**
- * Compute intention trend data (mock time series based on documents)
+ * Compute intention trend data bucketed by the documents' post dates
+ * Each point carries the overall average score, the dominant level and the average score per level
  */
-export function computeIntentionTrends(documents: Document[]): IntentionTrendPoint[] {
+export function computeIntentionTrends(
+  documents: Document[],
+  granularity: TimeGranularity = 'month',
+  lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON
+): IntentionTrendPoint[] {
   if (documents.length === 0) {
     return [];
   }
 
-  // Group documents into time buckets (simulate 6 time periods)
-  const bucketSize = Math.max(1, Math.floor(documents.length / 6));
-  const trends: IntentionTrendPoint[] = [];
-  let trendId = 0;
-
-  for (let i = 0; i < 6; i++) {
-    const start = i * bucketSize;
-    const end = Math.min(start + bucketSize, documents.length);
-    const bucket = documents.slice(start, end);
-
-    if (bucket.length === 0) continue;
+  return groupDocumentsByPeriod(documents, granularity).map((bucket, index) => {
+    const intentions = bucket.items.map((doc) => resolveDocumentIntention(doc, lexicon));
 
     // Compute average score for this bucket
-    const avgScore = bucket.reduce((sum, doc) => {
-      const { intention_score } = derivePurchaseIntentionFromText(doc.content);
-      return sum + intention_score;
-    }, 0) / bucket.length;
-
-    // Determine dominant emotion/level
-    const levelCounts = { high: 0, medium: 0, low: 0 };
-    bucket.forEach(doc => {
-      const { intention_level } = derivePurchaseIntentionFromText(doc.content);
-      levelCounts[intention_level]++;
+    const avgScore = intentions.reduce((sum, { intention_score }) => sum + intention_score, 0) / intentions.length;
+
+    // Determine dominant level and per-level average scores
+    const levelTotals = { high: { count: 0, score: 0 }, medium: { count: 0, score: 0 }, low: { count: 0, score: 0 } };
+    intentions.forEach(({ intention_level, intention_score }) => {
+      levelTotals[intention_level].count++;
+      levelTotals[intention_level].score += intention_score;
     });
 
-    const dominantLevel = Object.entries(levelCounts)
-      .sort((a, b) => b[1] - a[1])[0][0];
+    const dominantLevel = Object.entries(levelTotals)
+      .sort((a, b) => b[1].count - a[1].count)[0][0];
 
-    trends.push({
-      id: trendId++,
-      intentionLevel: dominantLevel,
-      trend: Math.round(avgScore),
+    const levelScores: IntentionTrendPoint['levelScores'] = {};
+    (Object.keys(levelTotals) as Array<keyof typeof levelTotals>).forEach(level => {
+      const { count, score } = levelTotals[level];
+      if (count > 0) {
+        levelScores[level] = Math.round(score / count);
+      }
     });
-  }
 
-  return trends;
+    return {
+      id: index,
+      period: bucket.label,
+      intentionLevel: dominantLevel,
+      trend: Math.round(avgScore),
+      levelScores,
+    };
+  });
 }
 
 /**
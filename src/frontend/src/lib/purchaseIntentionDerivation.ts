@@ -3,6 +3,8 @@
  * Derives intention_score (0-100) and intention_level (low/medium/high) from text content
  */
 
+import { normalizeSlang, DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
+
 /**
  * Simple deterministic hash function for strings
  * Returns a stable integer for the same input
@@ -18,15 +20,15 @@ function simpleHash(str: string): number {
 }
 
 /**
- * Derive purchase intention score from text content
+ * Derive purchase intention score from text content, with slang normalized first
  * Score is deterministic and ranges from 0-100
  */
-export function deriveIntentionScore(text: string): number {
+export function deriveIntentionScore(text: string, lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): number {
   if (!text || text.trim().length === 0) {
     return 50; // Default neutral score for empty text
   }
 
-  const normalized = text.toLowerCase().trim();
+  const normalized = normalizeSlang(text, lexicon).trim();
   
   // Base score from hash (0-100)
   const hash = simpleHash(normalized);
@@ -75,11 +77,11 @@ export function deriveIntentionLevel(score: number): 'low' | 'medium' | 'high' {
 /**
  * Derive both score and level from text in one call
  */
-export function derivePurchaseIntentionFromText(text: string): {
+export function derivePurchaseIntentionFromText(text: string, lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): {
   intention_score: number;
   intention_level: 'low' | 'medium' | 'high';
 } {
-  const score = deriveIntentionScore(text);
+  const score = deriveIntentionScore(text, lexicon);
   const level = deriveIntentionLevel(score);
   
   return {
@@ -0,0 +1,248 @@
+/**
+ * Significance testing between classifiers on gold-labeled documents
+ * McNemar's test on paired per-document predictions and percentile bootstrap confidence intervals
+ * Bootstrap resampling uses a seeded generator so the intervals are stable across renders
+ */
+
+import type { Document, ModelPrediction } from '../backend';
+import { evaluateCounts } from './evaluationMetrics';
+import { CANONICAL_EMOTIONS } from './visualizationState';
+
+export interface LabeledPrediction {
+  documentId: string;
+  gold: string;
+  predicted: string;
+}
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+/** Bootstrap intervals of the macro-averaged metrics and accuracy, in the 0-1 range */
+export interface MetricIntervals {
+  precision: ConfidenceInterval;
+  recall: ConfidenceInterval;
+  f1Score: ConfidenceInterval;
+  accuracy: ConfidenceInterval;
+}
+
+export interface McNemarResult {
+  /** Documents model A got right and model B got wrong */
+  onlyACorrect: number;
+  /** Documents model B got right and model A got wrong */
+  onlyBCorrect: number;
+  /** Continuity-corrected chi-square statistic (1 degree of freedom) */
+  statistic: number;
+  pValue: number;
+  /** True when the p-value comes from the exact binomial test (few discordant pairs) */
+  exact: boolean;
+}
+
+export interface ModelComparison {
+  modelA: string;
+  modelB: string;
+  /** Documents labeled and predicted by both models */
+  pairedCount: number;
+  accuracyA: number;
+  accuracyB: number;
+  /** Accuracy of A minus accuracy of B */
+  difference: number;
+  differenceInterval: ConfidenceInterval | null;
+  mcNemar: McNemarResult;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidence?: number;
+  seed?: number;
+}
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_CONFIDENCE = 0.95;
+const DEFAULT_SEED = 20240601;
+
+// Below this many discordant pairs the chi-square approximation is unreliable
+const EXACT_TEST_THRESHOLD = 25;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Mulberry32 pseudo-random generator returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Complementary error function (Numerical Recipes erfcc, fractional error below 1.2e-7)
+ */
+function erfc(x: number): number {
+  const coefficients = [
+    -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+    0.17087277,
+  ];
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const polynomial = coefficients.reduceRight((acc, coefficient) => coefficient + t * acc, 0);
+  const r = t * Math.exp(-z * z + polynomial);
+  return x >= 0 ? r : 2 - r;
+}
+
+/**
+ * Two-sided exact binomial p-value for k successes out of n at p = 0.5
+ */
+function binomialTwoSided(k: number, n: number): number {
+  if (n === 0) return 1;
+  const lower = Math.min(k, n - k);
+  let term = Math.pow(0.5, n);
+  let tail = term;
+  for (let i = 1; i <= lower; i++) {
+    term = (term * (n - i + 1)) / i;
+    tail += term;
+  }
+  return Math.min(1, 2 * tail);
+}
+
+function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toInterval(samples: number[], confidence: number): ConfidenceInterval {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const alpha = (1 - confidence) / 2;
+  return { low: percentile(sorted, alpha), high: percentile(sorted, 1 - alpha) };
+}
+
+/**
+ * Join a model's stored predictions with the gold labels of the documents
+ * Documents without a gold label are left out
+ */
+export function collectLabeledPredictions(documents: Document[], predictions: ModelPrediction[]): LabeledPrediction[] {
+  const goldById = new Map<string, string>();
+  documents.forEach((doc) => {
+    if (doc.metadata.goldEmotion) {
+      goldById.set(doc.id.toString(), doc.metadata.goldEmotion);
+    }
+  });
+
+  return predictions.flatMap((prediction) => {
+    const documentId = prediction.documentId.toString();
+    const gold = goldById.get(documentId);
+    return gold ? [{ documentId, gold, predicted: prediction.emotion }] : [];
+  });
+}
+
+/**
+ * McNemar's test on the discordant pairs of two models' correctness
+ */
+export function mcNemarTest(outcomes: Array<{ aCorrect: boolean; bCorrect: boolean }>): McNemarResult {
+  const onlyACorrect = outcomes.filter((o) => o.aCorrect && !o.bCorrect).length;
+  const onlyBCorrect = outcomes.filter((o) => !o.aCorrect && o.bCorrect).length;
+  const discordant = onlyACorrect + onlyBCorrect;
+
+  const statistic = discordant === 0 ? 0 : Math.pow(Math.max(0, Math.abs(onlyACorrect - onlyBCorrect) - 1), 2) / discordant;
+  const exact = discordant < EXACT_TEST_THRESHOLD;
+  const pValue = exact ? binomialTwoSided(onlyACorrect, discordant) : erfc(Math.sqrt(statistic / 2));
+
+  return { onlyACorrect, onlyBCorrect, statistic, pValue, exact };
+}
+
+/**
+ * Percentile bootstrap intervals of a model's macro precision, recall, F1 and accuracy
+ */
+export function bootstrapMetricIntervals(
+  predictions: LabeledPrediction[],
+  options: BootstrapOptions = {}
+): MetricIntervals | null {
+  if (predictions.length === 0) return null;
+
+  const { iterations = DEFAULT_ITERATIONS, confidence = DEFAULT_CONFIDENCE, seed = DEFAULT_SEED } = options;
+  const emotions: string[] = [...CANONICAL_EMOTIONS];
+  const indexOf = new Map(emotions.map((emotion, i) => [emotion, i]));
+  const cells = predictions.map((p) => [indexOf.get(p.gold) ?? -1, indexOf.get(p.predicted) ?? -1]);
+  const random = createRandom(seed);
+
+  const samples = { precision: [] as number[], recall: [] as number[], f1Score: [] as number[], accuracy: [] as number[] };
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const counts = emotions.map(() => emotions.map(() => 0));
+    for (let i = 0; i < cells.length; i++) {
+      const [actual, predicted] = cells[Math.floor(random() * cells.length)];
+      if (actual >= 0 && predicted >= 0) {
+        counts[actual][predicted] += 1;
+      }
+    }
+    const report = evaluateCounts('', emotions, counts);
+    samples.precision.push(report.macro.precision);
+    samples.recall.push(report.macro.recall);
+    samples.f1Score.push(report.macro.f1Score);
+    samples.accuracy.push(report.accuracy);
+  }
+
+  return {
+    precision: toInterval(samples.precision, confidence),
+    recall: toInterval(samples.recall, confidence),
+    f1Score: toInterval(samples.f1Score, confidence),
+    accuracy: toInterval(samples.accuracy, confidence),
+  };
+}
+
+/**
+ * Compare two models on the documents both predicted: McNemar's test plus a paired
+ * bootstrap interval of the accuracy difference
+ */
+export function compareModels(
+  modelA: string,
+  predictionsA: LabeledPrediction[],
+  modelB: string,
+  predictionsB: LabeledPrediction[],
+  options: BootstrapOptions = {}
+): ModelComparison {
+  const { iterations = DEFAULT_ITERATIONS, confidence = DEFAULT_CONFIDENCE, seed = DEFAULT_SEED } = options;
+  const byDocument = new Map(predictionsB.map((p) => [p.documentId, p]));
+  const outcomes = predictionsA.flatMap((a) => {
+    const b = byDocument.get(a.documentId);
+    return b ? [{ aCorrect: a.predicted === a.gold, bCorrect: b.predicted === b.gold }] : [];
+  });
+
+  const pairedCount = outcomes.length;
+  const accuracyA = pairedCount === 0 ? 0 : outcomes.filter((o) => o.aCorrect).length / pairedCount;
+  const accuracyB = pairedCount === 0 ? 0 : outcomes.filter((o) => o.bCorrect).length / pairedCount;
+
+  let differenceInterval: ConfidenceInterval | null = null;
+  if (pairedCount > 0) {
+    const random = createRandom(seed);
+    const differences: number[] = [];
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      let delta = 0;
+      for (let i = 0; i < pairedCount; i++) {
+        const outcome = outcomes[Math.floor(random() * pairedCount)];
+        delta += Number(outcome.aCorrect) - Number(outcome.bCorrect);
+      }
+      differences.push(delta / pairedCount);
+    }
+    differenceInterval = toInterval(differences, confidence);
+  }
+
+  return {
+    modelA,
+    modelB,
+    pairedCount,
+    accuracyA,
+    accuracyB,
+    difference: accuracyA - accuracyB,
+    differenceInterval,
+    mcNemar: mcNemarTest(outcomes),
+  };
+}
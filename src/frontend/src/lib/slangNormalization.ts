@@ -0,0 +1,310 @@
+/**
+ * Indonesian colloquial and slang normalization
+ * Rewrites social-media spellings ("gak", "bgt", "yg", "mantul", alay spellings such as "s4y4")
+ * into their standard KBBI forms so the keyword scorers match them. The bundled lexicon can
+ * be extended and overridden with entries stored in the backend
+ */
+
+import type { SlangEntry } from '../backend';
+
+/** Lowercased slang word to its standard form; the standard form may span several words */
+export type SlangLexicon = ReadonlyMap<string, string>;
+
+/**
+ * Bundled slang-to-standard lexicon
+ */
+export const BUNDLED_SLANG_ENTRIES: Record<string, string> = {
+  // Negation
+  gak: 'tidak',
+  ga: 'tidak',
+  gk: 'tidak',
+  nggak: 'tidak',
+  ngga: 'tidak',
+  enggak: 'tidak',
+  engga: 'tidak',
+  kagak: 'tidak',
+  tdk: 'tidak',
+  ndak: 'tidak',
+  gaada: 'tidak ada',
+  gada: 'tidak ada',
+  blm: 'belum',
+  lom: 'belum',
+  jgn: 'jangan',
+  // Intensifiers and degree
+  bgt: 'banget',
+  bngt: 'banget',
+  bangt: 'banget',
+  bener: 'benar',
+  bnr: 'benar',
+  sgt: 'sangat',
+  aja: 'saja',
+  aj: 'saja',
+  doang: 'saja',
+  dikit: 'sedikit',
+  dkt: 'dekat',
+  lbh: 'lebih',
+  krg: 'kurang',
+  kurng: 'kurang',
+  // Function words
+  yg: 'yang',
+  yng: 'yang',
+  dgn: 'dengan',
+  dg: 'dengan',
+  sm: 'sama',
+  ama: 'sama',
+  utk: 'untuk',
+  untk: 'untuk',
+  dr: 'dari',
+  dri: 'dari',
+  krn: 'karena',
+  karna: 'karena',
+  soalnya: 'karena',
+  tp: 'tetapi',
+  tpi: 'tetapi',
+  tapi: 'tetapi',
+  jd: 'jadi',
+  jdi: 'jadi',
+  klo: 'kalau',
+  kalo: 'kalau',
+  kl: 'kalau',
+  kyk: 'seperti',
+  kyak: 'seperti',
+  kayak: 'seperti',
+  kek: 'seperti',
+  gimana: 'bagaimana',
+  gmn: 'bagaimana',
+  gmna: 'bagaimana',
+  knp: 'kenapa',
+  napa: 'kenapa',
+  udh: 'sudah',
+  udah: 'sudah',
+  dah: 'sudah',
+  sdh: 'sudah',
+  lg: 'lagi',
+  lgi: 'lagi',
+  msh: 'masih',
+  masi: 'masih',
+  bs: 'bisa',
+  bsa: 'bisa',
+  hrs: 'harus',
+  mo: 'mau',
+  pengen: 'ingin',
+  pgn: 'ingin',
+  pingin: 'ingin',
+  kepengen: 'ingin',
+  emang: 'memang',
+  emg: 'memang',
+  tau: 'tahu',
+  tw: 'tahu',
+  ntar: 'nanti',
+  nti: 'nanti',
+  skrg: 'sekarang',
+  skrng: 'sekarang',
+  skg: 'sekarang',
+  bbrp: 'beberapa',
+  sy: 'saya',
+  aku: 'saya',
+  gw: 'saya',
+  gue: 'saya',
+  gua: 'saya',
+  lu: 'kamu',
+  lo: 'kamu',
+  elu: 'kamu',
+  org: 'orang',
+  orng: 'orang',
+  temen: 'teman',
+  tmn: 'teman',
+  bokap: 'ayah',
+  nyokap: 'ibu',
+  // Verbs
+  bikin: 'membuat',
+  bkin: 'membuat',
+  nyari: 'mencari',
+  nyoba: 'mencoba',
+  cobain: 'mencoba',
+  pake: 'pakai',
+  beliin: 'membelikan',
+  ngerasa: 'merasa',
+  ngerti: 'mengerti',
+  liat: 'lihat',
+  ngeliat: 'melihat',
+  denger: 'dengar',
+  dengerin: 'mendengarkan',
+  nunggu: 'menunggu',
+  nanya: 'bertanya',
+  ngasih: 'memberi',
+  rekomen: 'rekomendasi',
+  recomended: 'rekomendasi',
+  rekomended: 'rekomendasi',
+  recommended: 'rekomendasi',
+  rekom: 'rekomendasi',
+  saranin: 'sarankan',
+  // Evaluations
+  mantul: 'mantap betul',
+  mantep: 'mantap',
+  jos: 'bagus',
+  kece: 'bagus',
+  oke: 'baik',
+  ok: 'baik',
+  okey: 'baik',
+  bgs: 'bagus',
+  jlk: 'jelek',
+  ancur: 'hancur',
+  zonk: 'mengecewakan',
+  nyesel: 'menyesal',
+  nyesal: 'menyesal',
+  seneng: 'senang',
+  sneng: 'senang',
+  demen: 'suka',
+  doyan: 'suka',
+  ngefans: 'suka',
+  gampang: 'mudah',
+  gampil: 'mudah',
+  susah: 'sulit',
+  ribet: 'rumit',
+  ruwet: 'rumit',
+  lemot: 'lambat',
+  lelet: 'lambat',
+  cpt: 'cepat',
+  cepet: 'cepat',
+  irit: 'hemat',
+  murmer: 'murah meriah',
+  mrh: 'murah',
+  mhl: 'mahal',
+  pricey: 'mahal',
+  worthit: 'sepadan',
+  wortit: 'sepadan',
+  bete: 'kesal',
+  bt: 'kesal',
+  kesel: 'kesal',
+  parno: 'takut',
+  kepo: 'ingin tahu',
+  mager: 'malas gerak',
+  males: 'malas',
+  wkwk: 'tertawa',
+  wkwkwk: 'tertawa',
+  haha: 'tertawa',
+  hehe: 'tertawa',
+  gokil: 'luar biasa',
+  // Products and purchase
+  mtr: 'motor',
+  lstrk: 'listrik',
+  batre: 'baterai',
+  batere: 'baterai',
+  bli: 'beli',
+  cekout: 'beli',
+  checkout: 'beli',
+  hrg: 'harga',
+  duit: 'uang',
+  doku: 'uang',
+  cuan: 'untung',
+  promo: 'promosi',
+  info: 'informasi',
+  inpo: 'informasi',
+  riview: 'review',
+  rivew: 'review',
+};
+
+/**
+ * The bundled lexicon, used until the stored entries are loaded
+ */
+export const DEFAULT_SLANG_LEXICON: SlangLexicon = new Map(Object.entries(BUNDLED_SLANG_ENTRIES));
+
+/**
+ * Bundled entries combined with the stored ones; a stored entry replaces the bundled entry
+ * for the same word, and one mapping a word to itself removes it
+ */
+export function buildSlangLexicon(entries: SlangEntry[]): SlangLexicon {
+  const lexicon = new Map(DEFAULT_SLANG_LEXICON);
+  for (const entry of entries) {
+    if (entry.slang === entry.standard) {
+      lexicon.delete(entry.slang);
+    } else {
+      lexicon.set(entry.slang, entry.standard);
+    }
+  }
+  return lexicon;
+}
+
+// Digits alay spelling uses in place of letters
+const ALAY_DIGITS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '6': 'g',
+  '7': 't',
+  '8': 'b',
+  '9': 'g',
+};
+
+// Single digits between letters ("s4y4", "b3g1tu"); runs of digits ("covid19") and short
+// codes ("mp3", "4g") are left alone
+const ALAY_TOKEN = /^(?=.{4,}$)\p{L}+(?:[0-9]\p{L}+)+[0-9]?$/u;
+
+// "hati2" and "kata2" write a reduplicated word with a trailing 2
+const REDUPLICATION = /^(\p{L}{2,})2$/u;
+
+const collapseRepeats = (word: string) => word.replace(/(\p{L})\1+/gu, '$1');
+
+interface TokenMatch {
+  /** Lexicon word the token was read as, or null for an alay spelling of a standard word */
+  entry: string | null;
+  replacement: string;
+}
+
+/**
+ * How a single word token is normalized: the token itself, the token with repeated letters
+ * collapsed ("bgttt", "gakk") or, for alay spellings, the token with digits read as letters
+ */
+function matchToken(token: string, lexicon: SlangLexicon): TokenMatch | null {
+  const candidates = [token, collapseRepeats(token)];
+  const dealay = ALAY_TOKEN.test(token) ? token.replace(/[0-9]/g, (digit) => ALAY_DIGITS[digit] ?? digit) : null;
+  if (dealay) candidates.push(dealay, collapseRepeats(dealay));
+
+  for (const candidate of candidates) {
+    const replacement = lexicon.get(candidate);
+    if (replacement !== undefined) return { entry: candidate, replacement };
+  }
+  return dealay ? { entry: null, replacement: dealay } : null;
+}
+
+function normalizeToken(token: string, lexicon: SlangLexicon): TokenMatch | null {
+  const reduplicated = REDUPLICATION.exec(token);
+  if (reduplicated) {
+    const base = reduplicated[1];
+    const match = matchToken(base, lexicon);
+    const word = match?.replacement ?? base;
+    return { entry: match?.entry ?? null, replacement: `${word}-${word}` };
+  }
+  return matchToken(token, lexicon);
+}
+
+const WORD_TOKEN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercase a text and replace every slang word with its standard form
+ */
+export function normalizeSlang(text: string, lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON): string {
+  return text.toLowerCase().replace(WORD_TOKEN, (token) => normalizeToken(token, lexicon)?.replacement ?? token);
+}
+
+/**
+ * Number of texts each lexicon entry rewrites, keyed by slang word; entries matching no
+ * text are absent
+ */
+export function countSlangUsage(texts: string[], lexicon: SlangLexicon): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    const matched = new Set<string>();
+    for (const [token] of text.toLowerCase().matchAll(WORD_TOKEN)) {
+      const entry = normalizeToken(token, lexicon)?.entry;
+      if (entry) matched.add(entry);
+    }
+    for (const entry of matched) {
+      counts.set(entry, (counts.get(entry) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
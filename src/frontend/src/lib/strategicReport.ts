@@ -4,9 +4,10 @@
  */
 
 import type { Document } from '../backend';
-import { mockEmotionAnalysis } from './mockData';
+import { getDocumentAnalysis } from './documentAnalysis';
 import { computePsychoSocialMatrix, PSYCHO_SOCIAL_DIMENSIONS, EMOTION_CATEGORIES } from './psychoSocialMetrics';
 import { computeMarketingMetrics } from './marketingMetrics';
+import { DEFAULT_SLANG_LEXICON, type SlangLexicon } from './slangNormalization';
 import { type Locale, getReportTemplates, translateEmotion, getUILabels, getPriorityLabel } from './strategicReportLocale';
 
 export interface StrategicRecommendation {
@@ -38,7 +39,7 @@ function analyzeEmotionDistribution(documents: Document[]): Record<string, numbe
   const emotionCounts: Record<string, number> = {};
   
   documents.forEach(doc => {
-    const analysis = mockEmotionAnalysis(doc.content);
+    const analysis = getDocumentAnalysis(doc);
     const emotion = analysis.primaryEmotion;
     emotionCounts[emotion] = (emotionCounts[emotion] || 0) + 1;
   });
@@ -69,7 +70,7 @@ function analyzeBrandMentions(documents: Document[]): Record<string, number> {
   const brandCounts: Record<string, number> = {};
   
   documents.forEach(doc => {
-    const analysis = mockEmotionAnalysis(doc.content);
+    const analysis = getDocumentAnalysis(doc);
     if (analysis.brand) {
       brandCounts[analysis.brand] = (brandCounts[analysis.brand] || 0) + 1;
     }
@@ -81,8 +82,8 @@ function analyzeBrandMentions(documents: Document[]): Record<string, number> {
 /**
  * Get dominant UTAUT2 constructs
  */
-function getDominantPsychoSocialDimensions(documents: Document[]): Array<{ dimension: string; score: number }> {
-  const matrix = computePsychoSocialMatrix(documents);
+function getDominantPsychoSocialDimensions(documents: Document[], lexicon: SlangLexicon): Array<{ dimension: string; score: number }> {
+  const matrix = computePsychoSocialMatrix(documents, lexicon);
   
   if (matrix.length === 0) {
     return [];
@@ -103,12 +104,12 @@ function getDominantPsychoSocialDimensions(documents: Document[]): Array<{ dimen
 /**
  * Get weakest and strongest marketing metrics
  */
-function analyzeMarketingMetrics(documents: Document[]): {
+function analyzeMarketingMetrics(documents: Document[], lexicon: SlangLexicon): {
   weakest: { metric: string; score: number } | null;
   strongest: { metric: string; score: number } | null;
   all: Array<{ metric: string; score: number }>;
 } {
-  const metrics = computeMarketingMetrics(documents);
+  const metrics = computeMarketingMetrics(documents, lexicon);
   
   if (metrics.length === 0) {
     return { weakest: null, strongest: null, all: [] };
@@ -310,7 +311,11 @@ function generateRisks(
 /**
  * Generate strategic report from documents
  */
-export function generateStrategicReport(documents: Document[], locale: Locale = 'en'): StrategicReport {
+export function generateStrategicReport(
+  documents: Document[],
+  locale: Locale = 'en',
+  lexicon: SlangLexicon = DEFAULT_SLANG_LEXICON
+): StrategicReport {
   const templates = getReportTemplates(locale);
   
   if (documents.length === 0) {
@@ -335,8 +340,8 @@ export function generateStrategicReport(documents: Document[], locale: Locale =
   const emotionCounts = analyzeEmotionDistribution(documents);
   const topEmotions = getTopEmotions(emotionCounts, 3);
   const brandMentions = analyzeBrandMentions(documents);
-  const psychoSocialDimensions = getDominantPsychoSocialDimensions(documents);
-  const marketingAnalysis = analyzeMarketingMetrics(documents);
+  const psychoSocialDimensions = getDominantPsychoSocialDimensions(documents, lexicon);
+  const marketingAnalysis = analyzeMarketingMetrics(documents, lexicon);
 
   // Generate recommendations
   const recommendations = generateRecommendations(
@@ -0,0 +1,179 @@
+/**
+ * Date parsing and time bucketing utilities for temporal charts
+ * Resolves each document to its original post date (falling back to ingestion time)
+ * and groups documents into day/week/month periods
+ */
+
+import type { Document } from '../backend';
+
+export type TimeGranularity = 'day' | 'week' | 'month';
+
+export const TIME_GRANULARITY_LABELS: Record<TimeGranularity, string> = {
+  day: 'Harian',
+  week: 'Mingguan',
+  month: 'Bulanan',
+};
+
+const NANOS_PER_MILLI = 1_000_000n;
+
+// Indonesian and English month names/abbreviations -> zero-based month index
+const MONTH_NAMES: Record<string, number> = {
+  jan: 0, januari: 0, january: 0,
+  feb: 1, februari: 1, february: 1, peb: 1, pebruari: 1,
+  mar: 2, maret: 2, march: 2,
+  apr: 3, april: 3,
+  mei: 4, may: 4,
+  jun: 5, juni: 5, june: 5,
+  jul: 6, juli: 6, july: 6,
+  agu: 7, agt: 7, agustus: 7, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  okt: 9, oktober: 9, oct: 9, october: 9,
+  nov: 10, nopember: 10, november: 10,
+  des: 11, desember: 11, dec: 11, december: 11,
+};
+
+function buildUtcDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject overflowed values such as 31/02/2024
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a dataset Date cell into an instant
+ * Supports ISO 8601, day-first numeric dates (DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY),
+ * "15 Januari 2024" style month names, and Unix epoch seconds/milliseconds
+ */
+export function parseDatasetDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  // Unix epoch (10 digits = seconds, 13 digits = milliseconds)
+  if (/^\d{10}$/.test(trimmed)) return new Date(Number(trimmed) * 1000);
+  if (/^\d{13}$/.test(trimmed)) return new Date(Number(trimmed));
+
+  // ISO 8601 date or date-time
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    if (iso[4] !== undefined) {
+      const parsed = new Date(trimmed.replace(' ', 'T'));
+      if (!isNaN(parsed.getTime())) return parsed;
+    }
+    return buildUtcDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+
+  // Day-first numeric dates, as used in Indonesian exports
+  const dayFirst = trimmed.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})(?:\s.*)?$/);
+  if (dayFirst) {
+    return buildUtcDate(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]));
+  }
+
+  // "15 Januari 2024" / "15 Jan 2024"
+  const named = trimmed.match(/^(\d{1,2})\s+([A-Za-z]+)\.?\s+(\d{2,4})/);
+  if (named) {
+    const month = MONTH_NAMES[named[2].toLowerCase()];
+    if (month !== undefined) {
+      return buildUtcDate(Number(named[3]), month, Number(named[1]));
+    }
+  }
+
+  // Last resort: let the JS engine try (e.g. "Jan 15, 2024", RFC 2822)
+  const fallback = Date.parse(trimmed);
+  return isNaN(fallback) ? null : new Date(fallback);
+}
+
+/**
+ * Convert a JS Date to canister time (nanoseconds since the epoch)
+ */
+export function dateToNanos(date: Date): bigint {
+  return BigInt(date.getTime()) * NANOS_PER_MILLI;
+}
+
+/**
+ * Convert canister time (nanoseconds since the epoch) to a JS Date
+ */
+export function nanosToDate(nanos: bigint): Date {
+  return new Date(Number(nanos / NANOS_PER_MILLI));
+}
+
+/**
+ * Resolve the instant a document represents: its original post date when the dataset
+ * provided one, otherwise the time it was ingested. Returns null for legacy documents
+ * stored without any timestamp.
+ */
+export function getDocumentDate(doc: Document): Date | null {
+  if (doc.metadata.publishedAt !== undefined) {
+    return nanosToDate(doc.metadata.publishedAt);
+  }
+  const parsed = parseDatasetDate(doc.metadata.originalDate);
+  if (parsed) return parsed;
+  if (doc.timestamp > 0n) return nanosToDate(doc.timestamp);
+  return null;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Compute the sortable bucket key for a date (UTC)
+ * day -> YYYY-MM-DD, week -> YYYY-MM-DD of the Monday starting the week, month -> YYYY-MM
+ */
+export function getBucketKey(date: Date, granularity: TimeGranularity): string {
+  if (granularity === 'month') {
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+  }
+
+  let day = date;
+  if (granularity === 'week') {
+    const offset = (date.getUTCDay() + 6) % 7; // Monday = 0
+    day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - offset));
+  }
+  return `${day.getUTCFullYear()}-${pad(day.getUTCMonth() + 1)}-${pad(day.getUTCDate())}`;
+}
+
+/**
+ * Human-readable label for a bucket key
+ */
+export function formatBucketLabel(key: string, granularity: TimeGranularity): string {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day || 1));
+
+  if (granularity === 'month') {
+    return date.toLocaleDateString('id-ID', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  const label = date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  return granularity === 'week' ? `Mg. ${label}` : label;
+}
+
+export interface TimeBucket<T> {
+  key: string;
+  label: string;
+  items: T[];
+}
+
+/**
+ * Group documents into chronologically sorted time buckets
+ * Documents without any resolvable date are left out
+ */
+export function groupDocumentsByPeriod(documents: Document[], granularity: TimeGranularity): TimeBucket<Document>[] {
+  const buckets = new Map<string, Document[]>();
+
+  documents.forEach(doc => {
+    const date = getDocumentDate(doc);
+    if (!date) return;
+    const key = getBucketKey(date, granularity);
+    if (!buckets.has(key)) {
+      buckets.set(key, []);
+    }
+    buckets.get(key)!.push(doc);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, items]) => ({ key, label: formatBucketLabel(key, granularity), items }));
+}
@@ -0,0 +1,185 @@
+/**
+ * Configurable text-cleaning pipeline applied to uploaded text before analysis
+ * Each enabled step runs over every row and reports how many rows it changed, how many
+ * characters it removed and a few before/after samples, which become the dataset's
+ * stored cleaning log
+ */
+
+import type { CleaningLog } from '../backend';
+
+export type CleaningStepId =
+  | 'htmlEntities'
+  | 'urls'
+  | 'mentions'
+  | 'hashtags'
+  | 'emoji'
+  | 'repeatedCharacters'
+  | 'lowercase'
+  | 'whitespace';
+
+export type CleaningConfig = Record<CleaningStepId, boolean>;
+
+export interface CleaningStepReport {
+  step: CleaningStepId;
+  label: string;
+  rowsAffected: number;
+  charactersRemoved: number;
+  samples: Array<{ before: string; after: string }>;
+}
+
+export interface CleaningResult {
+  texts: string[];
+  reports: CleaningStepReport[];
+}
+
+const MAX_SAMPLES = 3;
+// Samples are stored with the log, so long rows are cut short
+const MAX_SAMPLE_LENGTH = 200;
+
+function truncateSample(text: string): string {
+  return text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH)}…` : text;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+interface CleaningStep {
+  id: CleaningStepId;
+  label: string;
+  description: string;
+  apply: (text: string) => string;
+}
+
+/**
+ * Steps in the order they run; entities are decoded first so encoded URLs and mentions
+ * are recognized, and whitespace is collapsed last to close the gaps other steps leave
+ */
+export const CLEANING_STEPS: CleaningStep[] = [
+  {
+    id: 'htmlEntities',
+    label: 'Dekode entitas HTML',
+    description: 'Ubah &amp;, &quot;, &#39; dan sejenisnya menjadi karakter aslinya',
+    apply: decodeHtmlEntities,
+  },
+  {
+    id: 'urls',
+    label: 'Hapus URL',
+    description: 'Buang tautan http(s):// dan www.',
+    apply: (text) => text.replace(/\b(?:https?:\/\/|www\.)\S+/gi, ' '),
+  },
+  {
+    id: 'mentions',
+    label: 'Hapus mention',
+    description: 'Buang @username',
+    apply: (text) => text.replace(/(^|[^\p{L}\p{N}_])@[\p{L}\p{N}_.]+/gu, '$1 '),
+  },
+  {
+    id: 'hashtags',
+    label: 'Hapus tanda hashtag',
+    description: 'Ubah #KataKunci menjadi KataKunci agar kata tetap dianalisis',
+    apply: (text) => text.replace(/(^|[^\p{L}\p{N}_])#([\p{L}\p{N}_]+)/gu, '$1$2'),
+  },
+  {
+    id: 'emoji',
+    label: 'Hapus emoji',
+    description: 'Buang emoji dan simbol piktografik',
+    apply: (text) => text.replace(/[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200d\ufe0f]/gu, ' '),
+  },
+  {
+    id: 'repeatedCharacters',
+    label: 'Ringkas huruf berulang',
+    description: 'Ubah tiga atau lebih huruf sama berturut-turut menjadi satu (mantappp → mantap)',
+    apply: (text) => text.replace(/(\p{L})\1{2,}/gu, '$1'),
+  },
+  {
+    id: 'lowercase',
+    label: 'Huruf kecil',
+    description: 'Seragamkan kapitalisasi',
+    apply: (text) => text.toLowerCase(),
+  },
+  {
+    id: 'whitespace',
+    label: 'Normalisasi spasi',
+    description: 'Gabungkan spasi, tab dan baris baru berturut-turut lalu pangkas tepinya',
+    apply: (text) => text.replace(/\s+/g, ' ').trim(),
+  },
+];
+
+export const DEFAULT_CLEANING_CONFIG: CleaningConfig = {
+  htmlEntities: true,
+  urls: true,
+  mentions: true,
+  hashtags: true,
+  emoji: false,
+  repeatedCharacters: true,
+  lowercase: false,
+  whitespace: true,
+};
+
+/**
+ * Run the enabled steps over every text, measuring each step on its own input
+ */
+export function cleanTexts(texts: string[], config: CleaningConfig): CleaningResult {
+  let current = texts;
+  const reports: CleaningStepReport[] = [];
+
+  for (const step of CLEANING_STEPS) {
+    if (!config[step.id]) continue;
+    const report: CleaningStepReport = {
+      step: step.id,
+      label: step.label,
+      rowsAffected: 0,
+      charactersRemoved: 0,
+      samples: [],
+    };
+    current = current.map((before) => {
+      const after = step.apply(before);
+      if (after !== before) {
+        report.rowsAffected++;
+        report.charactersRemoved += before.length - after.length;
+        if (report.samples.length < MAX_SAMPLES) {
+          report.samples.push({ before: truncateSample(before), after: truncateSample(after) });
+        }
+      }
+      return after;
+    });
+    reports.push(report);
+  }
+
+  return { texts: current, reports };
+}
+
+/**
+ * Convert step reports into the log entries stored with the dataset
+ */
+export function toCleaningLogs(reports: CleaningStepReport[], timestamp = BigInt(Date.now())): CleaningLog[] {
+  return reports.map((report) => ({
+    step: report.label,
+    status: report.rowsAffected > 0 ? 'selesai' : 'tidak ada perubahan',
+    timestamp,
+    rowsAffected: BigInt(report.rowsAffected),
+    charactersRemoved: BigInt(report.charactersRemoved),
+    samples: report.samples,
+  }));
+}
@@ -0,0 +1,65 @@
+/**
+ * Text encoding detection for uploaded files
+ * Honours a byte order mark, recognizes BOM-less UTF-16 from its zero bytes, and falls back to
+ * Windows-1252 when the bytes are not valid UTF-8 (older Excel and survey tool exports)
+ */
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+  /** Whether the file started with a byte order mark, which is not part of the text */
+  bom: boolean;
+}
+
+// Bytes inspected when looking for the zero bytes of BOM-less UTF-16
+const UTF16_SAMPLE_SIZE = 1024;
+
+function detectBom(bytes: Uint8Array): TextEncodingName | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+/**
+ * ASCII text stored as UTF-16 has a zero in every other byte: the odd bytes for little endian
+ * and the even ones for big endian
+ */
+function detectUtf16(bytes: Uint8Array): TextEncodingName | null {
+  const length = Math.min(bytes.length, UTF16_SAMPLE_SIZE) & ~1;
+  if (length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.1) return 'utf-16le';
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.1) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Decode file bytes with the detected encoding; the byte order mark is dropped from the text
+ */
+export function decodeText(bytes: Uint8Array): DecodedText {
+  const bomEncoding = detectBom(bytes);
+  if (bomEncoding) {
+    return { text: new TextDecoder(bomEncoding).decode(bytes), encoding: bomEncoding, bom: true };
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16, bom: false };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', bom: false };
+  } catch {
+    // Every byte sequence is valid Windows-1252, so this cannot fail
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252', bom: false };
+  }
+}
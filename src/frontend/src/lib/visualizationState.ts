@@ -150,14 +150,14 @@ export const CANONICAL_EMOTIONS = ['interest', 'trust', 'fear', 'skepticism', 's
  * Aggregate normalized emotion totals from documents
  * Returns a map of normalized emotion -> count
  */
-export function aggregateEmotionTotals(
-  documents: { content: string }[],
-  mockAnalysisFn: (content: string) => { primaryEmotion: string }
+export function aggregateEmotionTotals<T>(
+  documents: T[],
+  analysisFn: (doc: T) => { primaryEmotion: string }
 ): Record<string, number> {
   const emotionCounts: Record<string, number> = {};
   
   documents.forEach((doc) => {
-    const analysis = mockAnalysisFn(doc.content);
+    const analysis = analysisFn(doc);
     const normalizedEmotion = normalizeEmotionLabel(analysis.primaryEmotion);
     emotionCounts[normalizedEmotion] = (emotionCounts[normalizedEmotion] || 0) + 1;
   });
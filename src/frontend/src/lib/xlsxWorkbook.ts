@@ -0,0 +1,286 @@
+/**
+ * Minimal XLSX (Office Open XML workbook) reader
+ * Unpacks the zip container with the browser's DecompressionStream and reads each worksheet's
+ * cells as display strings: shared and inline strings, booleans, numbers, and date-formatted
+ * serial numbers as ISO dates
+ */
+
+export interface XlsxSheet {
+  name: string;
+  /** Rows from the first non-empty one, each cell as a string; missing cells are '' */
+  rows: string[][];
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Index the zip central directory by file name
+ */
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-central-directory record sits in the last 64 KiB, before an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('The file is not an XLSX workbook (no zip directory found)');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const names = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error('The XLSX zip directory is corrupt');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('The XLSX zip entry is corrupt');
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method === 8) {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+  }
+  throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+}
+
+function parseXml(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The XLSX workbook contains malformed XML');
+  }
+  return document;
+}
+
+// Elements are matched by local name, since some writers prefix the spreadsheet namespace
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.localName === localName);
+}
+
+/**
+ * Text of a shared or inline string, skipping the phonetic runs East Asian workbooks carry
+ */
+function stringItemText(item: Element): string {
+  return elements(item, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function isDateFormatCode(code: string): boolean {
+  // Quoted literals, escaped characters and colour/locale brackets do not format the value
+  const stripped = code.replace(/"[^"]*"|\\.|\[(?![hms]+\])[^\]]*\]/gi, '');
+  return /[dmyhs]/i.test(stripped);
+}
+
+/**
+ * Cell style indexes whose number format shows a date
+ */
+function readDateStyles(styles: Document | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customDateFormats = new Set(
+    elements(styles, 'numFmt')
+      .filter((format) => isDateFormatCode(format.getAttribute('formatCode') ?? ''))
+      .map((format) => Number(format.getAttribute('numFmtId')))
+  );
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  childElements(cellXfs, 'xf').forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId') ?? 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+const MILLIS_PER_DAY = 86_400_000;
+// Serial day of 1970-01-01 in the 1900 date system, which counts the fictitious 1900-02-29
+const UNIX_EPOCH_SERIAL = 25569;
+const DATE_1904_OFFSET = 1462;
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Spreadsheet serial day number to "YYYY-MM-DD", with " HH:MM:SS" when it has a time part
+ */
+function serialToDateString(serial: number, date1904: boolean): string {
+  const days = serial + (date1904 ? DATE_1904_OFFSET : 0) - UNIX_EPOCH_SERIAL;
+  const date = new Date(Math.round(days * MILLIS_PER_DAY / 1000) * 1000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (Number.isInteger(serial)) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+interface CellContext {
+  sharedStrings: string[];
+  dateStyles: Set<number>;
+  date1904: boolean;
+}
+
+function cellValue(cell: Element, context: CellContext): string {
+  const type = cell.getAttribute('t') ?? 'n';
+  const value = childElements(cell, 'v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return context.sharedStrings[Number(value)] ?? '';
+    case 'inlineStr': {
+      const inline = childElements(cell, 'is')[0];
+      return inline ? stringItemText(inline) : '';
+    }
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'n': {
+      const number = Number(value);
+      if (value !== '' && !isNaN(number) && context.dateStyles.has(Number(cell.getAttribute('s') ?? 0))) {
+        return serialToDateString(number, context.date1904);
+      }
+      return value;
+    }
+    default:
+      // "str" formula results, "e" errors and ISO "d" dates are stored as text
+      return value;
+  }
+}
+
+function readSheetRows(sheet: Document, context: CellContext): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowElement of elements(sheet, 'row')) {
+    const rowNumber = Number(rowElement.getAttribute('r') ?? rows.length + 1);
+    const cells: string[] = [];
+    for (const cell of childElements(rowElement, 'c')) {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < column) cells.push('');
+      cells[column] = cellValue(cell, context);
+    }
+    // Rows the sheet skips are empty
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(cells);
+  }
+
+  const isEmpty = (row: string[]) => row.every((cell) => !cell.trim());
+  const first = rows.findIndex((row) => !isEmpty(row));
+  if (first === -1) return [];
+  let last = rows.length - 1;
+  while (isEmpty(rows[last])) last--;
+  return rows.slice(first, last + 1);
+}
+
+/**
+ * Resolve a relationship target against the workbook part
+ */
+function resolveTarget(target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  return `xl/${target}`.replace(/[^/]+\/\.\.\//g, '');
+}
+
+/**
+ * Read every worksheet of an XLSX workbook in tab order
+ */
+export async function readXlsxWorkbook(bytes: Uint8Array): Promise<XlsxSheet[]> {
+  const entries = readZipDirectory(bytes);
+  const readPart = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await readZipEntry(bytes, entry)) : null;
+  };
+
+  const workbook = await readPart('xl/workbook.xml');
+  const relationships = await readPart('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) {
+    throw new Error('The file is not an XLSX workbook (workbook part missing)');
+  }
+
+  const sharedStringsPart = await readPart('xl/sharedStrings.xml');
+  const workbookProperties = elements(workbook, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(workbookProperties?.getAttribute('date1904') ?? '');
+  const context: CellContext = {
+    sharedStrings: sharedStringsPart ? elements(sharedStringsPart, 'si').map(stringItemText) : [],
+    dateStyles: readDateStyles(await readPart('xl/styles.xml')),
+    date1904,
+  };
+
+  const targets = new Map(
+    elements(relationships, 'Relationship').map((relationship) => [
+      relationship.getAttribute('Id') ?? '',
+      relationship.getAttribute('Target') ?? '',
+    ])
+  );
+
+  const sheets: XlsxSheet[] = [];
+  for (const sheet of elements(workbook, 'sheet')) {
+    const relationshipId = sheet.getAttribute('r:id')
+      ?? Array.from(sheet.attributes).find((attribute) => attribute.localName === 'id')?.value
+      ?? '';
+    const target = targets.get(relationshipId);
+    const part = target ? await readPart(resolveTarget(target)) : null;
+    if (!part) continue;
+    sheets.push({ name: sheet.getAttribute('name') ?? `Sheet ${sheets.length + 1}`, rows: readSheetRows(part, context) });
+  }
+
+  return sheets;
+}
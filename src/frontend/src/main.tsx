@@ -1,5 +1,6 @@
 import ReactDOM from 'react-dom/client';
 import { InternetIdentityProvider } from './hooks/useInternetIdentity';
+import { ActiveDatasetProvider } from './hooks/useActiveDataset';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from './App';
 import './index.css';
@@ -9,7 +10,9 @@ const queryClient = new QueryClient();
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <QueryClientProvider client={queryClient}>
         <InternetIdentityProvider>
-            <App />
+            <ActiveDatasetProvider>
+                <App />
+            </ActiveDatasetProvider>
         </InternetIdentityProvider>
     </QueryClientProvider>
 );
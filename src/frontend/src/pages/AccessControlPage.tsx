@@ -0,0 +1,271 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Shield, UserPlus, Users, Trash2, KeyRound } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Principal } from '@icp-sdk/core/principal';
+import { Role } from '../backend';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useActiveDataset } from '../hooks/useActiveDataset';
+import {
+  useListDatasets,
+  useIsCallerAdministrator,
+  useGetCallerRole,
+  useListDatasetMembers,
+  useAssignDatasetRole,
+  useRemoveDatasetMember,
+} from '../hooks/useQueries';
+
+const ROLES: Role[] = [Role.owner, Role.analyst, Role.viewer];
+
+const ROLE_LABELS: Record<Role, string> = {
+  [Role.owner]: 'Pemilik',
+  [Role.analyst]: 'Analis',
+  [Role.viewer]: 'Pembaca',
+};
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  [Role.owner]: 'Mengelola dataset dan anggota, menghapus dokumen, adjudikasi label',
+  [Role.analyst]: 'Upload dokumen dan memberi anotasi',
+  [Role.viewer]: 'Hanya membaca hasil analisis',
+};
+
+/**
+ * Formats a backend timestamp (nanoseconds since the epoch)
+ */
+function formatTimestamp(nanoseconds: bigint): string {
+  return new Date(Number(nanoseconds / 1_000_000n)).toLocaleString();
+}
+
+function parsePrincipal(text: string): Principal | null {
+  try {
+    return Principal.fromText(text.trim());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Dataset membership administration: owners invite Internet Identity principals and assign
+ * them a role in the active dataset
+ */
+export function AccessControlPage() {
+  const { identity } = useInternetIdentity();
+  const { datasetId } = useActiveDataset();
+  const { data: datasets = [] } = useListDatasets();
+  const { data: isAdministrator = false } = useIsCallerAdministrator();
+  const { data: callerRole = null } = useGetCallerRole();
+  const { data: members = [], isLoading } = useListDatasetMembers();
+  const assignMutation = useAssignDatasetRole();
+  const removeMutation = useRemoveDatasetMember();
+  const [principalInput, setPrincipalInput] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>(Role.analyst);
+
+  const dataset = datasets.find((entry) => entry.id === datasetId);
+  const callerPrincipal = identity?.getPrincipal().toString();
+  const canManage = callerRole === Role.owner;
+
+  const handleAssign = async (principal: Principal, role: Role) => {
+    try {
+      await assignMutation.mutateAsync({ principal, role });
+      toast.success(`Peran ${ROLE_LABELS[role]} diberikan`);
+      return true;
+    } catch (error) {
+      toast.error('Gagal menyimpan peran anggota');
+      return false;
+    }
+  };
+
+  const handleInvite = async () => {
+    const principal = parsePrincipal(principalInput);
+    if (!principal) {
+      toast.error('Principal tidak valid');
+      return;
+    }
+    if (await handleAssign(principal, inviteRole)) {
+      setPrincipalInput('');
+    }
+  };
+
+  const handleRemove = async (principal: Principal) => {
+    try {
+      await removeMutation.mutateAsync(principal);
+      toast.success('Anggota dihapus dari dataset');
+    } catch (error) {
+      toast.error('Gagal menghapus anggota');
+    }
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="mb-2 text-3xl font-bold">Kontrol Akses</h1>
+        <p className="text-muted-foreground">
+          Atur siapa yang dapat membaca, mengunggah dan mengelola dataset {dataset ? dataset.name : ''}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              Akses Anda
+            </CardTitle>
+            <CardDescription>Peran principal Anda pada dataset aktif</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {!callerPrincipal ? (
+              <p className="text-muted-foreground">
+                Masuk dengan Internet Identity untuk mengunggah, memberi anotasi atau mengelola dataset
+              </p>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Principal</p>
+                  <p className="break-all font-mono text-xs">{callerPrincipal}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {isAdministrator && <Badge>Administrator</Badge>}
+                  <Badge variant="secondary">{callerRole ? ROLE_LABELS[callerRole] : 'Bukan anggota'}</Badge>
+                </div>
+                {callerRole && <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[callerRole]}</p>}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5 text-primary" />
+              Undang Anggota
+            </CardTitle>
+            <CardDescription>Hanya pemilik dataset yang dapat mengundang dan mengubah peran anggota</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="member-principal">Principal Internet Identity</Label>
+              <Input
+                id="member-principal"
+                placeholder="xxxxx-xxxxx-xxxxx-xxxxx-xxx"
+                value={principalInput}
+                onChange={(e) => setPrincipalInput(e.target.value)}
+                disabled={!canManage}
+              />
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)} disabled={!canManage}>
+                <SelectTrigger className="sm:w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleInvite}
+                disabled={!canManage || !principalInput.trim() || assignMutation.isPending}
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                Undang
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Anggota Dataset
+          </CardTitle>
+          <CardDescription>Administrator adalah pemilik setiap dataset tanpa perlu diundang</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-24 items-center justify-center">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : members.length === 0 ? (
+            <div className="flex h-[120px] flex-col items-center justify-center gap-3 text-center">
+              <Shield className="h-10 w-10 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">
+                {callerRole ? 'Belum ada anggota yang diundang' : 'Daftar anggota hanya terlihat oleh anggota dataset'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="pb-3 text-left font-medium">Principal</th>
+                    <th className="pb-3 text-left font-medium">Diundang</th>
+                    <th className="pb-3 text-right font-medium">Peran</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((member) => (
+                    <tr key={member.principal.toString()} className="border-b last:border-0">
+                      <td className="max-w-xs py-3 pr-4">
+                        <p className="truncate font-mono text-xs" title={member.principal.toString()}>
+                          {member.principal.toString()}
+                        </p>
+                        {member.principal.toString() === callerPrincipal && (
+                          <Badge variant="outline" className="mt-1">
+                            Anda
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="py-3 text-xs text-muted-foreground">{formatTimestamp(member.assignedAt)}</td>
+                      <td className="py-3">
+                        <div className="flex items-center justify-end gap-2">
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleAssign(member.principal, value as Role)}
+                            disabled={!canManage || assignMutation.isPending}
+                          >
+                            <SelectTrigger className="h-8 w-[130px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => handleRemove(member.principal)}
+                            disabled={!canManage || removeMutation.isPending}
+                            title="Hapus anggota"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
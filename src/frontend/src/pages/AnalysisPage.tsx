@@ -5,10 +5,12 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Search, Filter, Tag, Trash2, FileText, CheckCircle2, ArrowRight } from 'lucide-react';
-import { useState, useMemo } from 'react';
-import { useGetAllDocuments, useDeleteDocument } from '../hooks/useQueries';
-import { mockEmotionAnalysis } from '../lib/mockData';
+import { Search, Filter, Tag, Trash2, FileText, CheckCircle2, ArrowRight, MapPin, Globe, Calendar, ArrowUpDown } from 'lucide-react';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useGetAllDocuments, useQueryDocuments, useDeleteDocument } from '../hooks/useQueries';
+import { DocumentSort, type DocumentFilter } from '../backend';
+import { getDocumentAnalysis } from '../lib/documentAnalysis';
+import { getEmotionDisplayLabel } from '../lib/visualizationState';
 import { EmotionChart } from '../components/EmotionChart';
 import { BrandEmotionChart } from '../components/BrandEmotionChart';
 import { TemporalEvolutionChart } from '../components/TemporalEvolutionChart';
@@ -16,6 +18,8 @@ import { GenderEmotionChart } from '../components/GenderEmotionChart';
 import { GeoEmotionMap } from '../components/GeoEmotionMap';
 import { EmotionDistributionChart } from '../components/EmotionDistributionChart';
 import { CleaningLogPanel } from '../components/CleaningLogPanel';
+import { DocumentPredictions } from '../components/DocumentPredictions';
+import { TrashPanel } from '../components/TrashPanel';
 import { toast } from 'sonner';
 import { useNavigate } from '@tanstack/react-router';
 
@@ -32,61 +36,130 @@ const emotionColors: Record<string, string> = {
   kepuasan: 'bg-chart-5',
 };
 
+// Brand names as they appear in posts; the backend matches documents mentioning them
 const brands = [
   'Semua Merek',
   'Gesits',
   'Alva',
   'Selis',
-  'Viar Q1',
-  'Polytron Fox-R',
+  'Viar',
+  'Polytron',
   'Yadea',
   'NIU',
   'Volta',
-  'United T1800',
+  'United',
   'Davigo',
 ];
 
+const ALL_REGIONS = 'Semua Wilayah';
+const ALL_SOURCES = 'Semua Sumber';
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+const NANOSECONDS_PER_DAY = 86_400_000_000_000n;
+
+const sortOptions: { value: DocumentSort; label: string }[] = [
+  { value: DocumentSort.newest, label: 'Terbaru' },
+  { value: DocumentSort.oldest, label: 'Terlama' },
+  { value: DocumentSort.mostConfident, label: 'Confidence tertinggi' },
+  { value: DocumentSort.leastConfident, label: 'Confidence terendah' },
+];
+
+/**
+ * Start of the given local calendar day (yyyy-mm-dd) in nanoseconds since the epoch
+ */
+function dayStartNanoseconds(date: string): bigint {
+  return BigInt(new Date(`${date}T00:00:00`).getTime()) * 1_000_000n;
+}
+
+/**
+ * Distinct non-empty values, sorted
+ */
+function distinctValues(values: (string | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+}
+
 export function AnalysisPage() {
-  const { data: documents = [], isLoading } = useGetAllDocuments();
+  // The whole dataset feeds the charts; the document list is filtered and paged by the backend
+  const { data: documents = [] } = useGetAllDocuments();
   const deleteMutation = useDeleteDocument();
   const navigate = useNavigate();
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [selectedBrand, setSelectedBrand] = useState('Semua Merek');
   const [selectedEmotion, setSelectedEmotion] = useState('Semua Emosi');
+  const [selectedRegion, setSelectedRegion] = useState(ALL_REGIONS);
+  const [selectedSource, setSelectedSource] = useState(ALL_SOURCES);
+  const [sinceDate, setSinceDate] = useState('');
+  const [untilDate, setUntilDate] = useState('');
+  const [sort, setSort] = useState<DocumentSort>(DocumentSort.newest);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const filter: DocumentFilter = useMemo(
+    () => ({
+      text: debouncedSearch || undefined,
+      brand: selectedBrand === 'Semua Merek' ? undefined : selectedBrand,
+      emotion: selectedEmotion === 'Semua Emosi' ? undefined : selectedEmotion,
+      region: selectedRegion === ALL_REGIONS ? undefined : selectedRegion,
+      source: selectedSource === ALL_SOURCES ? undefined : selectedSource,
+      since: sinceDate ? dayStartNanoseconds(sinceDate) : undefined,
+      // Inclusive of the whole end day
+      until: untilDate ? dayStartNanoseconds(untilDate) + NANOSECONDS_PER_DAY - 1n : undefined,
+    }),
+    [debouncedSearch, selectedBrand, selectedEmotion, selectedRegion, selectedSource, sinceDate, untilDate]
+  );
+
+  const {
+    data: pages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useQueryDocuments(filter, sort, PAGE_SIZE);
+
+  const pagedDocuments = useMemo(() => pages?.pages.flatMap((page) => page.documents) ?? [], [pages]);
+  // Highlighted search snippets by document id, present while a search query is active
+  const snippets = useMemo(
+    () =>
+      new Map(
+        (pages?.pages.flatMap((page) => page.snippets) ?? []).map((snippet) => [
+          snippet.documentId.toString(),
+          snippet.segments,
+        ])
+      ),
+    [pages]
+  );
 
   // Compute dataset status directly from full documents (not filtered)
   const hasActiveDataset = useMemo(() => documents.length > 0, [documents.length]);
+  const regions = useMemo(() => distinctValues(documents.map((doc) => doc.metadata.region)), [documents]);
+  const sources = useMemo(() => distinctValues(documents.map((doc) => doc.metadata.source)), [documents]);
 
-  // Compute filtered documents - ensure this is declared before any usage
-  const filteredDocuments = useMemo(() => {
-    if (!documents || documents.length === 0) {
-      return [];
-    }
-    
-    return documents.filter((doc) => {
-      const analysis = mockEmotionAnalysis(doc.content);
-      const matchesSearch = doc.content.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesBrand =
-        selectedBrand === 'Semua Merek' ||
-        (analysis.brand && analysis.brand.toLowerCase().includes(selectedBrand.toLowerCase()));
-      const matchesEmotion =
-        selectedEmotion === 'Semua Emosi' || 
-        analysis.primaryEmotion === selectedEmotion.toLowerCase() ||
-        analysis.primaryEmotion.toLowerCase() === selectedEmotion.toLowerCase();
+  const filteredCount = Number(pages?.pages[0]?.total ?? 0n);
+  const totalCount = documents.length;
 
-      return matchesSearch && matchesBrand && matchesEmotion;
+  // Load the next page once the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
     });
-  }, [documents, searchQuery, selectedBrand, selectedEmotion]);
-
-  // Compute derived values after filteredDocuments is declared
-  const filteredCount = filteredDocuments.length;
-  const totalCount = documents.length;
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const handleDelete = async (id: bigint) => {
     try {
       await deleteMutation.mutateAsync(id);
-      toast.success('Dokumen berhasil dihapus');
+      toast.success('Dokumen dipindahkan ke tempat sampah');
     } catch (error) {
       toast.error('Gagal menghapus dokumen');
     }
@@ -146,7 +219,7 @@ export function AnalysisPage() {
               </Label>
               <Input
                 id="search"
-                placeholder="Cari dalam dokumen..."
+                placeholder='baterai awet OR "tahan lama" -mahal'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
@@ -189,6 +262,78 @@ export function AnalysisPage() {
               </Select>
             </div>
           </div>
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label htmlFor="region">
+                <MapPin className="mr-2 inline h-4 w-4" />
+                Wilayah
+              </Label>
+              <Select value={selectedRegion} onValueChange={setSelectedRegion}>
+                <SelectTrigger id="region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_REGIONS}>{ALL_REGIONS}</SelectItem>
+                  {regions.map((region) => (
+                    <SelectItem key={region} value={region}>
+                      {region}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source">
+                <Globe className="mr-2 inline h-4 w-4" />
+                Sumber
+              </Label>
+              <Select value={selectedSource} onValueChange={setSelectedSource}>
+                <SelectTrigger id="source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SOURCES}>{ALL_SOURCES}</SelectItem>
+                  {sources.map((source) => (
+                    <SelectItem key={source} value={source}>
+                      {source}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="since">
+                <Calendar className="mr-2 inline h-4 w-4" />
+                Dari Tanggal
+              </Label>
+              <Input id="since" type="date" value={sinceDate} onChange={(e) => setSinceDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="until">
+                <Calendar className="mr-2 inline h-4 w-4" />
+                Sampai Tanggal
+              </Label>
+              <Input id="until" type="date" value={untilDate} onChange={(e) => setUntilDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sort">
+                <ArrowUpDown className="mr-2 inline h-4 w-4" />
+                Urutkan
+              </Label>
+              <Select value={sort} onValueChange={(value) => setSort(value as DocumentSort)}>
+                <SelectTrigger id="sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <FileText className="h-4 w-4" />
             Menampilkan {filteredCount} dari {totalCount} dokumen
@@ -196,54 +341,58 @@ export function AnalysisPage() {
         </CardContent>
       </Card>
 
-      {/* Visualizations - use full documents for dataset status, filtered for display */}
+      {/* Visualizations - cover the whole active dataset */}
       <Tabs defaultValue="overview" className="mb-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="brands">Per Merek</TabsTrigger>
           <TabsTrigger value="demographics">Demografis</TabsTrigger>
+          <TabsTrigger value="trash">Sampah</TabsTrigger>
         </TabsList>
         <TabsContent value="overview" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-2">
             <EmotionChart 
-              key={`emotion-chart-analysis-${filteredCount}-${totalCount}`}
-              documents={filteredDocuments}
+              key={`emotion-chart-analysis-${totalCount}`}
+              documents={documents}
               hasActiveDataset={hasActiveDataset}
             />
             <EmotionDistributionChart 
-              key={`emotion-dist-analysis-${filteredCount}-${totalCount}`}
-              documents={filteredDocuments} 
+              key={`emotion-dist-analysis-${totalCount}`}
+              documents={documents} 
               hasActiveDataset={hasActiveDataset}
             />
           </div>
           <TemporalEvolutionChart 
-            key={`temporal-${filteredCount}`}
-            documents={filteredDocuments} 
+            key={`temporal-${totalCount}`}
+            documents={documents} 
           />
         </TabsContent>
         <TabsContent value="brands" className="space-y-6">
           <BrandEmotionChart 
-            key={`brand-analysis-${filteredCount}`}
-            documents={filteredDocuments} 
+            key={`brand-analysis-${totalCount}`}
+            documents={documents} 
           />
         </TabsContent>
         <TabsContent value="demographics" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-2">
             <GenderEmotionChart 
-              key={`gender-analysis-${filteredCount}-${totalCount}`}
-              documents={filteredDocuments}
+              key={`gender-analysis-${totalCount}`}
+              documents={documents}
               hasActiveDataset={hasActiveDataset}
             />
             <GeoEmotionMap key={`geo-analysis-${totalCount}`} />
           </div>
         </TabsContent>
+        <TabsContent value="trash">
+          <TrashPanel />
+        </TabsContent>
       </Tabs>
 
       {/* Document List */}
       <Card>
         <CardHeader>
           <CardTitle>Daftar Dokumen</CardTitle>
-          <CardDescription>Semua dokumen yang telah dianalisis</CardDescription>
+          <CardDescription>Dokumen yang sesuai dengan filter, dimuat bertahap saat digulir</CardDescription>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -258,8 +407,9 @@ export function AnalysisPage() {
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredDocuments.map((doc) => {
-                const analysis = mockEmotionAnalysis(doc.content);
+              {pagedDocuments.map((doc) => {
+                const analysis = getDocumentAnalysis(doc);
+                const snippet = snippets.get(doc.id.toString());
                 return (
                   <div
                     key={doc.id.toString()}
@@ -268,7 +418,7 @@ export function AnalysisPage() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center gap-2">
                         <Badge className={emotionColors[analysis.primaryEmotion] || 'bg-muted'}>
-                          {analysis.primaryEmotion}
+                          {getEmotionDisplayLabel(analysis.primaryEmotion)}
                         </Badge>
                         {analysis.brand && (
                           <Badge variant="outline">{analysis.brand}</Badge>
@@ -276,8 +426,23 @@ export function AnalysisPage() {
                         <span className="text-xs text-muted-foreground">
                           Confidence: {(analysis.confidence * 100).toFixed(1)}%
                         </span>
+                        <DocumentPredictions documentId={doc.id} />
                       </div>
-                      <p className="text-sm line-clamp-2">{doc.content}</p>
+                      {snippet ? (
+                        <p className="text-sm">
+                          {snippet.map((segment, index) =>
+                            segment.highlighted ? (
+                              <mark key={index} className="rounded bg-primary/20 px-0.5 text-foreground">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{segment.text}</span>
+                            )
+                          )}
+                        </p>
+                      ) : (
+                        <p className="text-sm line-clamp-2">{doc.content}</p>
+                      )}
                     </div>
                     <Button
                       variant="ghost"
@@ -290,6 +455,11 @@ export function AnalysisPage() {
                   </div>
                 );
               })}
+              <div ref={loadMoreRef} className="flex h-8 items-center justify-center">
+                {isFetchingNextPage && (
+                  <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                )}
+              </div>
             </div>
           )}
         </CardContent>
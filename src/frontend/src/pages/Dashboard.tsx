@@ -2,10 +2,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import { Upload, Sparkles, TrendingUp, BarChart3, FileText } from 'lucide-react';
 import { useState, useMemo } from 'react';
 import { useNavigate } from '@tanstack/react-router';
-import { useUploadDocument, useUploadDocumentsBatch, useGetAllDocuments } from '../hooks/useQueries';
+import { useUploadDocument, useUploadDocumentsBatch, useAbortUploadSession, useAddDatasetFile, useGetAllDocuments, useListDatasets, useListModels, useSlangLexicon, ChunkedUploadError } from '../hooks/useQueries';
+import { useActiveDataset } from '../hooks/useActiveDataset';
 import { toast } from 'sonner';
 import { EmotionChart } from '../components/EmotionChart';
 import { RecentAnalysis } from '../components/RecentAnalysis';
@@ -17,16 +19,64 @@ import { PsychoSocialHeatmap } from '../components/PsychoSocialHeatmap';
 import { MarketingRadarChart } from '../components/MarketingRadarChart';
 import { MarketingMixRadarChart } from '../components/MarketingMixRadarChart';
 import { DatasetUploadStatus, DatasetUploadStatusProps } from '../components/DatasetUploadStatus';
-import { parseDatasetFile } from '../lib/datasetIngestion';
+import { DatasetFilesPanel } from '../components/DatasetFilesPanel';
+import { TextCleaningOptions } from '../components/TextCleaningOptions';
+import { ColumnMappingWizard } from '../components/ColumnMappingWizard';
+import { readSourceFile, parseSourceTable, SUPPORTED_EXTENSIONS, toFileDiagnostics, hashFileContent, buildCleaningLogs, type DatasetRow, type ParseResult, type SourceTable } from '../lib/datasetIngestion';
+import type { ColumnMapping } from '../lib/columnMapping';
+import { decodeText } from '../lib/textEncoding';
+import { dropDuplicates, DEFAULT_NEAR_DUPLICATE_THRESHOLD } from '../lib/deduplication';
+import { DEFAULT_CLEANING_CONFIG } from '../lib/textCleaning';
+import { ExternalBlob, type CleaningLog, type DatasetFile, type UploadSource } from '../backend';
 import { mapUploadError } from '../lib/icReplicaErrors';
 
+// A parsed file on its way to the backend: a new upload whose bytes still need storing, or
+// a stored file being reprocessed
+interface ParsedUpload {
+  parseResult: ParseResult;
+  file: { bytes: Uint8Array<ArrayBuffer>; filename: string } | { fileId: bigint };
+}
+
+// A file read into tables (one per worksheet), waiting for its columns to be mapped to
+// dataset fields
+interface UnmappedUpload {
+  tables: SourceTable[];
+  filename: string;
+  file: ParsedUpload['file'];
+}
+
 export function Dashboard() {
   const [textInput, setTextInput] = useState('');
   const [uploadStatus, setUploadStatus] = useState<DatasetUploadStatusProps>({ state: 'idle' });
   const navigate = useNavigate();
   const uploadMutation = useUploadDocument();
   const batchUploadMutation = useUploadDocumentsBatch();
+  const abortUploadMutation = useAbortUploadSession();
+  const addFileMutation = useAddDatasetFile();
+  // Rows of an upload that stopped part way, kept with its dataset and source file so it can
+  // be resumed or aborted
+  const [interruptedUpload, setInterruptedUpload] = useState<{
+    rows: DatasetRow[];
+    skippedCount: number;
+    cleaningLogs: CleaningLog[];
+    sessionId: bigint;
+    datasetId: bigint;
+    source?: UploadSource;
+    droppedDuplicateCount: number;
+  } | null>(null);
+  const [pendingReview, setPendingReview] = useState<ParsedUpload | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<UnmappedUpload | null>(null);
+  const [nearDuplicateThreshold, setNearDuplicateThreshold] = useState(DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+  const [cleaningConfig, setCleaningConfig] = useState(DEFAULT_CLEANING_CONFIG);
+  const slangLexicon = useSlangLexicon();
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const { datasetId } = useActiveDataset();
+  const { data: datasets = [] } = useListDatasets();
+  const { data: models = [] } = useListModels();
+  const activeModelCount = models.filter((model) => model.enabled).length;
+
+  // Archived datasets stay readable but reject uploads
+  const isArchived = datasets.some((dataset) => dataset.id === datasetId && dataset.archived);
 
   // Compute dataset status directly from documents
   const hasActiveDataset = useMemo(() => documents.length > 0, [documents.length]);
@@ -38,7 +88,7 @@ export function Dashboard() {
     }
 
     try {
-      await uploadMutation.mutateAsync(textInput);
+      await uploadMutation.mutateAsync({ content: textInput, cleaning: cleaningConfig });
       toast.success('Text analyzed successfully!');
       setTextInput('');
       // Small delay to ensure queries refetch
@@ -53,6 +103,253 @@ export function Dashboard() {
     }
   };
 
+  // Sends the rows chunk by chunk, reporting progress per chunk. A failure leaves the session
+  // open so the staged chunks can be published by resuming or dropped by aborting.
+  const runBatchUpload = async (
+    rows: DatasetRow[],
+    skippedCount: number,
+    cleaningLogs: CleaningLog[],
+    options: { resumeSessionId?: bigint; source?: UploadSource; droppedDuplicateCount?: number } = {}
+  ) => {
+    const { resumeSessionId, source, droppedDuplicateCount = 0 } = options;
+    let progress = { sessionId: resumeSessionId, uploadedChunks: 0, totalChunks: 0, uploadedRows: 0 };
+
+    setInterruptedUpload(null);
+    setUploadStatus({
+      state: 'uploading',
+      totalRows: rows.length,
+      uploadedCount: 0,
+      skippedCount,
+    });
+
+    try {
+      const result = await batchUploadMutation.mutateAsync({
+        rows,
+        resumeSessionId,
+        source,
+        cleaningLogs,
+        onProgress: (update) => {
+          progress = update;
+          setUploadStatus({
+            state: 'uploading',
+            totalRows: rows.length,
+            uploadedCount: update.uploadedRows,
+            uploadedChunks: update.uploadedChunks,
+            totalChunks: update.totalChunks,
+            skippedCount,
+          });
+        },
+      });
+
+      // Stage 4: Done
+      setUploadStatus({
+        state: 'done',
+        totalRows: rows.length,
+        uploadedCount: result.success.length,
+        failedCount: result.failed.length,
+        skippedCount,
+        droppedDuplicateCount,
+      });
+
+      toast.success(`Dataset uploaded: ${result.success.length} rows processed successfully!`);
+    } catch (error) {
+      const interrupted = error instanceof ChunkedUploadError;
+      const { summary, details } = mapUploadError(interrupted ? error.error : error);
+      if (interrupted) {
+        setInterruptedUpload({ rows, skippedCount, cleaningLogs, sessionId: error.sessionId, datasetId, source, droppedDuplicateCount });
+      }
+      setUploadStatus({
+        state: 'error',
+        errorMessage: details,
+        totalRows: rows.length,
+        uploadedCount: progress.uploadedRows,
+        uploadedChunks: progress.uploadedChunks,
+        totalChunks: progress.totalChunks,
+        skippedCount,
+      });
+      toast.error(summary);
+      console.error('Batch upload error - Summary:', summary);
+      console.error('Batch upload error - Technical details:\n', details);
+    }
+  };
+
+  const handleResumeUpload = () => {
+    if (!interruptedUpload) return;
+    if (interruptedUpload.datasetId !== datasetId) {
+      toast.error('Switch back to the dataset the interrupted upload belongs to before resuming it');
+      return;
+    }
+    runBatchUpload(interruptedUpload.rows, interruptedUpload.skippedCount, interruptedUpload.cleaningLogs, {
+      resumeSessionId: interruptedUpload.sessionId,
+      source: interruptedUpload.source,
+      droppedDuplicateCount: interruptedUpload.droppedDuplicateCount,
+    });
+  };
+
+  const handleAbortUpload = async () => {
+    if (!interruptedUpload) return;
+    try {
+      await abortUploadMutation.mutateAsync(interruptedUpload.sessionId);
+      setInterruptedUpload(null);
+      setUploadStatus({ state: 'idle' });
+      toast.success('Interrupted upload discarded');
+    } catch (error) {
+      const { summary, details } = mapUploadError(error);
+      toast.error(summary);
+      console.error('Abort upload error - Technical details:\n', details);
+    }
+  };
+
+  // Stores a new file's bytes, then uploads its rows with or without the duplicates found
+  // while parsing
+  const ingestParsedUpload = async (upload: ParsedUpload, dropDuplicateRows: boolean) => {
+    const { parseResult } = upload;
+    const duplicates = parseResult.diagnostics?.duplicates;
+    setPendingReview(null);
+
+    try {
+      const rows = duplicates && dropDuplicateRows ? dropDuplicates(parseResult.rows, duplicates) : parseResult.rows;
+      const diagnostics = toFileDiagnostics(parseResult);
+
+      // Keep the raw file with the dataset so it can be downloaded or parsed again later
+      const fileId =
+        'fileId' in upload.file
+          ? upload.file.fileId
+          : await addFileMutation.mutateAsync({
+              blob: ExternalBlob.fromBytes(upload.file.bytes),
+              filename: upload.file.filename,
+              contentHash: await hashFileContent(upload.file.bytes),
+              size: BigInt(upload.file.bytes.length),
+              diagnostics,
+            });
+
+      // Stage 3: Uploading in chunks
+      await runBatchUpload(rows, parseResult.skippedCount, buildCleaningLogs(parseResult, dropDuplicateRows), {
+        source: { fileId, diagnostics },
+        droppedDuplicateCount: parseResult.rows.length - rows.length,
+      });
+    } catch (error) {
+      const { summary, details } = mapUploadError(error);
+      setUploadStatus({
+        state: 'error',
+        errorMessage: details,
+      });
+      toast.error(summary);
+      console.error('Batch upload error - Summary:', summary);
+      console.error('Batch upload error - Technical details:\n', details);
+    }
+  };
+
+  // Pauses for a keep-or-drop decision when the file repeats rows
+  const reviewParsedUpload = (upload: ParsedUpload) => {
+    const { rows, skippedCount, diagnostics } = upload.parseResult;
+    const duplicates = diagnostics?.duplicates;
+    if (!duplicates || duplicates.exact.length + duplicates.near.length === 0) {
+      ingestParsedUpload(upload, false);
+      return;
+    }
+
+    setPendingReview(upload);
+    setUploadStatus({
+      state: 'reviewing',
+      totalRows: rows.length,
+      skippedCount,
+      duplicates,
+      duplicateExamples: [...duplicates.near, ...duplicates.exact].slice(0, 3).map((match) => ({
+        rowIndex: match.rowIndex,
+        text: rows[match.rowIndex].text,
+        original: rows[match.duplicateOf].text,
+        similarity: match.similarity,
+      })),
+    });
+  };
+
+  // Parses a stored file again with the current parsing rules; its new documents replace the
+  // ones from its previous run
+  const handleReprocessFile = async (file: DatasetFile) => {
+    setUploadStatus({ state: 'parsing' });
+    setInterruptedUpload(null);
+    setPendingReview(null);
+    setPendingMapping(null);
+
+    try {
+      const bytes = await file.blob.getBytes();
+      const source = await readSourceFile(bytes, file.filename);
+
+      if (!source.success) {
+        setUploadStatus({ state: 'error', errorMessage: source.error });
+        return;
+      }
+
+      setUploadStatus({ state: 'idle' });
+      setPendingMapping({ tables: source.tables, filename: file.filename, file: { fileId: file.id } });
+    } catch (error) {
+      const { summary, details } = mapUploadError(error);
+      setUploadStatus({
+        state: 'error',
+        errorMessage: details,
+      });
+      toast.error(summary);
+    }
+  };
+
+  // Parses the mapped file with the current cleaning and duplicate settings, then hands it to
+  // the duplicate review
+  const handleConfirmMapping = async (columnMapping: ColumnMapping, table: SourceTable) => {
+    if (!pendingMapping) return;
+    const { file } = pendingMapping;
+    setPendingMapping(null);
+
+    // Stage 1: Parsing
+    setUploadStatus({ state: 'parsing' });
+
+    try {
+      const parseResult = parseSourceTable(table, { columnMapping, nearDuplicateThreshold, cleaning: cleaningConfig, slangLexicon });
+
+      if (!parseResult.success) {
+        setUploadStatus({
+          state: 'error',
+          errorMessage: parseResult.error || 'Failed to parse file',
+          diagnostics: parseResult.diagnostics,
+        });
+        return;
+      }
+
+      const rows = parseResult.rows;
+      const skippedCount = parseResult.skippedCount;
+
+      if (rows.length === 0) {
+        setUploadStatus({
+          state: 'error',
+          errorMessage: 'No valid rows found in the dataset. Please check that the column mapped to "Text" contains data.',
+          diagnostics: parseResult.diagnostics,
+        });
+        return;
+      }
+
+      // Stage 2: Validating
+      setUploadStatus({
+        state: 'validating',
+        totalRows: rows.length,
+        skippedCount,
+      });
+
+      // Small delay to show validation stage
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      reviewParsedUpload({ parseResult, file });
+    } catch (error) {
+      const { summary, details } = mapUploadError(error);
+      setUploadStatus({
+        state: 'error',
+        errorMessage: details,
+      });
+      toast.error(summary);
+      console.error('Batch upload error - Summary:', summary);
+      console.error('Batch upload error - Technical details:\n', details);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -62,15 +359,17 @@ export function Dashboard() {
 
     // Reset upload status
     setUploadStatus({ state: 'idle' });
+    setInterruptedUpload(null);
+    setPendingReview(null);
+    setPendingMapping(null);
 
     const reader = new FileReader();
     reader.onload = async (e) => {
-      const content = e.target?.result as string;
-
+      const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
       // Handle .txt files as before (single document upload)
       if (extension === 'txt') {
         try {
-          await uploadMutation.mutateAsync(content);
+          await uploadMutation.mutateAsync({ content: decodeText(bytes).text, cleaning: cleaningConfig });
           toast.success('Text file uploaded successfully!');
         } catch (error) {
           const { summary, details } = mapUploadError(error);
@@ -81,66 +380,21 @@ export function Dashboard() {
         return;
       }
 
-      // Handle CSV/JSON files with batch upload
-      if (extension === 'csv' || extension === 'json') {
+      // Handle tabular files with batch upload
+      if (extension && (SUPPORTED_EXTENSIONS.includes(extension) || extension === 'xls')) {
         // Stage 1: Parsing
         setUploadStatus({ state: 'parsing' });
 
         try {
-          const parseResult = parseDatasetFile(content, extension);
+          const source = await readSourceFile(bytes, filename);
 
-          if (!parseResult.success) {
-            setUploadStatus({
-              state: 'error',
-              errorMessage: parseResult.error || 'Failed to parse file',
-              diagnostics: parseResult.diagnostics,
-            });
+          if (!source.success) {
+            setUploadStatus({ state: 'error', errorMessage: source.error });
             return;
           }
 
-          // Extract text content from parsed rows
-          const contents = parseResult.rows.map(row => row.text);
-          const skippedCount = parseResult.skippedCount;
-
-          if (contents.length === 0) {
-            setUploadStatus({
-              state: 'error',
-              errorMessage: 'No valid rows found in the dataset. Please check that the "text" column contains data.',
-              diagnostics: parseResult.diagnostics,
-            });
-            return;
-          }
-
-          // Stage 2: Validating
-          setUploadStatus({
-            state: 'validating',
-            totalRows: contents.length,
-            skippedCount,
-          });
-
-          // Small delay to show validation stage
-          await new Promise(resolve => setTimeout(resolve, 300));
-
-          // Stage 3: Uploading (single batch call)
-          setUploadStatus({
-            state: 'uploading',
-            totalRows: contents.length,
-            uploadedCount: 0,
-            skippedCount,
-          });
-
-          const result = await batchUploadMutation.mutateAsync(contents);
-
-          // Stage 4: Done
-          setUploadStatus({
-            state: 'done',
-            totalRows: contents.length,
-            uploadedCount: result.success.length,
-            failedCount: result.failed.length,
-            skippedCount,
-          });
-
-          toast.success(`Dataset uploaded: ${result.success.length} rows processed successfully!`);
+          setUploadStatus({ state: 'idle' });
+          setPendingMapping({ tables: source.tables, filename, file: { bytes, filename } });
         } catch (error) {
           const { summary, details } = mapUploadError(error);
           setUploadStatus({
@@ -155,10 +409,10 @@ export function Dashboard() {
       }
 
       // Unsupported file type
-      toast.error('Unsupported file type. Please upload CSV, JSON, or TXT files.');
+      toast.error('Unsupported file type. Please upload CSV, TSV, JSON, JSON Lines, XLSX, TXT, or an X archive tweets.js file.');
     };
 
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
     event.target.value = '';
   };
 
@@ -191,7 +445,7 @@ export function Dashboard() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">3</div>
+            <div className="text-2xl font-bold">{activeModelCount}</div>
             <p className="text-xs text-muted-foreground">Active models</p>
           </CardContent>
         </Card>
@@ -244,7 +498,7 @@ export function Dashboard() {
             </div>
             <Button
               onClick={handleAnalyze}
-              disabled={!textInput.trim() || uploadMutation.isPending}
+              disabled={isArchived || !textInput.trim() || uploadMutation.isPending}
               className="w-full"
             >
               {uploadMutation.isPending ? (
@@ -269,7 +523,7 @@ export function Dashboard() {
               <Upload className="h-5 w-5" />
               Dataset Upload
             </CardTitle>
-            <CardDescription>Upload CSV, JSON, or TXT files for batch analysis</CardDescription>
+            <CardDescription>Upload CSV, TSV, JSON, JSON Lines, XLSX, or TXT files, including X/Twitter, YouTube and Instagram exports, for batch analysis</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
@@ -278,31 +532,79 @@ export function Dashboard() {
                 <input
                   id="file-upload"
                   type="file"
-                  accept=".csv,.json,.txt"
+                  accept={[...SUPPORTED_EXTENSIONS, 'txt'].map((ext) => `.${ext}`).join(',')}
                   onChange={handleFileUpload}
                   className="hidden"
-                  disabled={batchUploadMutation.isPending}
+                  disabled={isArchived || batchUploadMutation.isPending}
                 />
                 <Button
                   onClick={() => document.getElementById('file-upload')?.click()}
                   variant="outline"
                   className="w-full"
-                  disabled={batchUploadMutation.isPending}
+                  disabled={isArchived || batchUploadMutation.isPending}
                 >
                   <Upload className="mr-2 h-4 w-4" />
                   Choose File
                 </Button>
               </div>
+              <div className="space-y-2 pt-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="near-duplicate-threshold" className="text-xs">
+                    Near-duplicate similarity threshold
+                  </Label>
+                  <span className="text-xs text-muted-foreground">{Math.round(nearDuplicateThreshold * 100)}%</span>
+                </div>
+                <Slider
+                  id="near-duplicate-threshold"
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={[nearDuplicateThreshold]}
+                  onValueChange={([value]) => setNearDuplicateThreshold(value)}
+                />
+              </div>
+              <TextCleaningOptions
+                config={cleaningConfig}
+                onChange={setCleaningConfig}
+                disabled={batchUploadMutation.isPending}
+              />
               <p className="text-xs text-muted-foreground">
-                Supported formats: CSV, JSON, TXT (max 10MB)
+                {isArchived
+                  ? 'This dataset is archived; unarchive it to upload more files'
+                  : 'Supported formats: CSV, TSV, JSON, JSONL/NDJSON, XLSX, TXT, X archive tweets.js (max 10MB)'}
               </p>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Column Mapping */}
+      {pendingMapping && (
+        <ColumnMappingWizard
+          key={pendingMapping.filename}
+          filename={pendingMapping.filename}
+          tables={pendingMapping.tables}
+          onConfirm={handleConfirmMapping}
+          onCancel={() => setPendingMapping(null)}
+          disabled={isArchived}
+        />
+      )}
+
       {/* Upload Status */}
-      <DatasetUploadStatus {...uploadStatus} />
+      <DatasetUploadStatus
+        {...uploadStatus}
+        onResume={interruptedUpload && !isArchived ? handleResumeUpload : undefined}
+        onAbort={interruptedUpload ? handleAbortUpload : undefined}
+        onKeepDuplicates={pendingReview ? () => ingestParsedUpload(pendingReview, false) : undefined}
+        onDropDuplicates={pendingReview ? () => ingestParsedUpload(pendingReview, true) : undefined}
+        actionPending={batchUploadMutation.isPending || abortUploadMutation.isPending || addFileMutation.isPending}
+      />
+
+      {/* Stored Files */}
+      <DatasetFilesPanel
+        onReprocess={handleReprocessFile}
+        reprocessDisabled={isArchived || batchUploadMutation.isPending || addFileMutation.isPending}
+      />
 
       {/* Visualizations Grid */}
       <div className="grid gap-6 lg:grid-cols-2">
@@ -0,0 +1,234 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tag, ListOrdered, History, SkipForward, CheckCircle2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { AnnotatorAgreementCard } from '../components/AnnotatorAgreementCard';
+import { ContestedDocumentsTable } from '../components/ContestedDocumentsTable';
+import {
+  useGetAllDocuments,
+  useGetAnnotationQueue,
+  useListAnnotations,
+  useAnnotateDocument,
+  useGetAgreementReport,
+  useGetContestedDocuments,
+} from '../hooks/useQueries';
+import { getEmotionDisplayLabel, CANONICAL_EMOTIONS } from '../lib/visualizationState';
+
+// Candidates fetched per round; the queue is re-ranked after every annotation
+const QUEUE_SIZE = 20;
+const RECENT_ANNOTATIONS = 8;
+
+/**
+ * Formats a backend timestamp (nanoseconds since the epoch)
+ */
+function formatTimestamp(nanoseconds: bigint): string {
+  return new Date(Number(nanoseconds / 1_000_000n)).toLocaleString();
+}
+
+function formatPercentage(value: number): string {
+  return (value * 100).toFixed(1);
+}
+
+/**
+ * Active-learning annotation: analysts label the documents the models disagree on most
+ * or are least confident about; their agreement is tracked and contested labels adjudicated
+ */
+export function LabelingPage() {
+  const { data: documents = [] } = useGetAllDocuments();
+  const { data: queue = [], isLoading } = useGetAnnotationQueue(QUEUE_SIZE);
+  const { data: annotations = [] } = useListAnnotations();
+  const { data: agreementReport } = useGetAgreementReport();
+  const { data: contestedDocuments = [] } = useGetContestedDocuments();
+  const annotateMutation = useAnnotateDocument();
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const labeledCount = documents.filter((doc) => doc.metadata.goldEmotion).length;
+  const labeledShare = documents.length === 0 ? 0 : (labeledCount / documents.length) * 100;
+  const pending = queue.filter((candidate) => !skipped.includes(candidate.documentId.toString()));
+  const current = pending[0];
+
+  const recentAnnotations = useMemo(
+    () => [...annotations].sort((a, b) => Number(b.annotatedAt - a.annotatedAt)).slice(0, RECENT_ANNOTATIONS),
+    [annotations]
+  );
+
+  const handleAnnotate = async (emotion: string) => {
+    if (!current) return;
+    try {
+      await annotateMutation.mutateAsync({ documentId: current.documentId, emotion });
+      toast.success(`Dokumen #${current.documentId.toString()} diberi label ${getEmotionDisplayLabel(emotion)}`);
+    } catch (error) {
+      toast.error('Gagal menyimpan anotasi');
+    }
+  };
+
+  const handleSkip = () => {
+    if (!current) return;
+    setSkipped((ids) => [...ids, current.documentId.toString()]);
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="mb-2 text-3xl font-bold">Anotasi Emosi</h1>
+        <p className="text-muted-foreground">
+          Beri label pada dokumen yang paling diperdebatkan model atau paling rendah keyakinannya
+        </p>
+      </div>
+
+      <div className="mb-6 grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Dokumen berlabel</CardDescription>
+            <CardTitle className="text-2xl">
+              {labeledCount} / {documents.length}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Progress value={labeledShare} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Antrean prioritas</CardDescription>
+            <CardTitle className="text-2xl">{pending.length}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">Maksimal {QUEUE_SIZE} dokumen teratas per putaran</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total anotasi</CardDescription>
+            <CardTitle className="text-2xl">{annotations.length}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">Satu anotasi per analis per dokumen</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5 text-primary" />
+              Dokumen Berikutnya
+            </CardTitle>
+            <CardDescription>Diurutkan berdasarkan ketidaksepakatan model dan keyakinan rendah</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex h-40 items-center justify-center">
+                <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+              </div>
+            ) : !current ? (
+              <div className="flex h-40 flex-col items-center justify-center gap-3 text-center">
+                <CheckCircle2 className="h-10 w-10 text-muted-foreground/50" />
+                <p className="text-sm text-muted-foreground">
+                  {documents.length === 0
+                    ? 'Upload dataset untuk mulai memberi label'
+                    : 'Tidak ada dokumen yang menunggu anotasi Anda'}
+                </p>
+                {skipped.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setSkipped([])}>
+                    Tampilkan {skipped.length} dokumen yang dilewati
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-5">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant="outline">Dokumen #{current.documentId.toString()}</Badge>
+                  <Badge variant="secondary">Prioritas {current.priority.toFixed(3)}</Badge>
+                  <Badge variant="secondary">Ketidaksepakatan {current.disagreement.toFixed(3)}</Badge>
+                  <Badge variant="secondary">
+                    Prediksi {getEmotionDisplayLabel(current.emotion)} ({formatPercentage(current.confidence)}%)
+                  </Badge>
+                </div>
+
+                <p className="rounded-md border bg-muted/30 p-4 text-sm leading-relaxed">{current.content}</p>
+
+                {current.predictions.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">Prediksi per Model</p>
+                    <div className="flex flex-wrap gap-2">
+                      {current.predictions.map((prediction) => (
+                        <Badge key={prediction.model} variant="outline" className="gap-1">
+                          {prediction.model}: {getEmotionDisplayLabel(prediction.emotion)}
+                          <span className="text-muted-foreground">{formatPercentage(prediction.confidence)}%</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2 border-t pt-4">
+                  {CANONICAL_EMOTIONS.map((emotion) => (
+                    <Button
+                      key={emotion}
+                      onClick={() => handleAnnotate(emotion)}
+                      disabled={annotateMutation.isPending}
+                    >
+                      {getEmotionDisplayLabel(emotion)}
+                    </Button>
+                  ))}
+                  <Button variant="ghost" onClick={handleSkip} disabled={annotateMutation.isPending}>
+                    <SkipForward className="mr-2 h-4 w-4" />
+                    Lewati
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Anotasi Terbaru
+            </CardTitle>
+            <CardDescription>Label terakhir yang disimpan analis</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentAnnotations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Belum ada anotasi</p>
+            ) : (
+              <div className="space-y-3">
+                {recentAnnotations.map((annotation) => (
+                  <div
+                    key={`${annotation.documentId.toString()}-${annotation.annotator.toString()}`}
+                    className="flex items-start justify-between gap-3 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium">Dokumen #{annotation.documentId.toString()}</p>
+                      <p className="truncate text-xs text-muted-foreground" title={annotation.annotator.toString()}>
+                        {annotation.annotator.toString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{formatTimestamp(annotation.annotatedAt)}</p>
+                    </div>
+                    <Badge variant="secondary" className="shrink-0 gap-1">
+                      <Tag className="h-3 w-3" />
+                      {getEmotionDisplayLabel(annotation.emotion)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-3">
+        <AnnotatorAgreementCard report={agreementReport} />
+        <div className="lg:col-span-2">
+          <ContestedDocumentsTable documents={contestedDocuments} />
+        </div>
+      </div>
+    </div>
+  );
+}
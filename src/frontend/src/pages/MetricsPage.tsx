@@ -3,14 +3,61 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { TrendingUp, Target, Zap, RotateCcw, CheckCircle2 } from 'lucide-react';
 import { ModelPerformanceChart } from '../components/ModelPerformanceChart';
 import { EnsembleComparisonChart } from '../components/EnsembleComparisonChart';
 import { ConfusionMatrixChart } from '../components/ConfusionMatrixChart';
-import { useGetConfusionMatrix, useResetAllData, useGetAllDocuments } from '../hooks/useQueries';
+import { ClassificationReportTable } from '../components/ClassificationReportTable';
+import { SignificanceComparisonTable } from '../components/SignificanceComparisonTable';
+import {
+  useGetConfusionMatrix,
+  useGetConfusionMatrices,
+  useGetModelPredictionSets,
+  useListEnsembles,
+  useResetAllData,
+  useGetAllDocuments,
+} from '../hooks/useQueries';
+import { evaluateConfusionMatrix, evaluateCounts, toPerformanceSummary, type EvaluationReport } from '../lib/evaluationMetrics';
+import {
+  bootstrapMetricIntervals,
+  collectLabeledPredictions,
+  type LabeledPrediction,
+  type MetricIntervals,
+} from '../lib/significanceTests';
 import { useState, useMemo, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
 
+const MODEL_NAMES = ['Lexicon-Base', 'Lexicon-Wide', 'Lexicon-Narrow'];
+
+// Display names of the ensembles, in the JC, JA, JD order EnsembleComparisonChart expects
+const ENSEMBLE_LABELS: Record<string, string> = {
+  JC: 'Jury Classic (JC)',
+  JA: 'Jury Adaptive (JA)',
+  JD: 'Jury Dynamic (JD)',
+};
+const ENSEMBLE_NAMES = Object.keys(ENSEMBLE_LABELS);
+const ALL_MODEL_NAMES = [...MODEL_NAMES, ...ENSEMBLE_NAMES];
+
+// Pairs listed in the significance table; any other pair can be picked there
+const COMPARISON_PAIRS: Array<[string, string]> = [
+  ['JD', 'JC'],
+  ['JA', 'JC'],
+  ['JD', 'JA'],
+  ['Lexicon-Wide', 'Lexicon-Base'],
+  ['Lexicon-Narrow', 'Lexicon-Base'],
+];
+
 /**
  * Formats decimal metric (0-1) to percentage string with 2 decimal places
  */
@@ -25,8 +72,22 @@ function formatMetricPercentageShort(value: number): string {
   return (Math.max(0, Math.min(1, value)) * 100).toFixed(1);
 }
 
+/**
+ * Report of a model, or an all-zero one when its confusion matrix has not loaded
+ */
+function reportOrEmpty(reports: Record<string, EvaluationReport>, name: string): EvaluationReport {
+  return reports[name] ?? evaluateCounts(name, [], []);
+}
+
+/**
+ * Formats an agreement coefficient (-1 to 1) such as Cohen's kappa or MCC
+ */
+function formatCoefficient(value: number): string {
+  return value.toFixed(3);
+}
+
 export function MetricsPage() {
-  const [selectedModel, setSelectedModel] = useState<string>('BERT');
+  const [selectedModel, setSelectedModel] = useState<string>('Lexicon-Base');
   const [selectedEnsemble, setSelectedEnsemble] = useState<string>('JC');
   const [showResetSuccess, setShowResetSuccess] = useState(false);
 
@@ -36,6 +97,9 @@ export function MetricsPage() {
   // Use selectedModel as dependency in query key to trigger reload on model change
   const { data: modelConfusionMatrix, isLoading: isLoadingModel, error: modelError } = useGetConfusionMatrix(selectedModel);
   const { data: ensembleConfusionMatrix, isLoading: isLoadingEnsemble, error: ensembleError } = useGetConfusionMatrix(selectedEnsemble);
+  const { data: confusionMatrices } = useGetConfusionMatrices(ALL_MODEL_NAMES);
+  const { data: predictionSets } = useGetModelPredictionSets(ALL_MODEL_NAMES);
+  const { data: ensembles = [] } = useListEnsembles();
   const resetAllMutation = useResetAllData();
 
   // Track document count to detect dataset changes
@@ -105,7 +169,7 @@ export function MetricsPage() {
       await resetAllMutation.mutateAsync();
       setShowResetSuccess(true);
       toast.success('Data berhasil direset', {
-        description: 'Semua visualisasi performa telah dibersihkan dan siap untuk dataset baru',
+        description: 'Dokumen dipindahkan ke tempat sampah; matriks konfusi, bobot ensemble dan log pembersihan dihapus',
       });
       
       // Hide success indicator after 3 seconds
@@ -119,66 +183,61 @@ export function MetricsPage() {
     }
   };
 
+  // Evaluation reports computed from each model's raw confusion matrix
+  const evaluations = useMemo(() => {
+    const reports: Record<string, EvaluationReport> = {};
+    confusionMatrices.forEach((result) => {
+      if (result) {
+        reports[result.model] = evaluateConfusionMatrix(result);
+      }
+    });
+    return reports;
+  }, [confusionMatrices]);
+
+  // Per-document predictions joined with gold labels, for bootstrap intervals and McNemar's test
+  const labeledPredictions = useMemo(() => {
+    const byModel: Record<string, LabeledPrediction[]> = {};
+    ALL_MODEL_NAMES.forEach((name, index) => {
+      byModel[name] = collectLabeledPredictions(documents ?? [], predictionSets[index] ?? []);
+    });
+    return byModel;
+  }, [documents, predictionSets]);
+
+  const metricIntervals = useMemo(() => {
+    const byModel: Record<string, MetricIntervals | null> = {};
+    ALL_MODEL_NAMES.forEach((name) => {
+      byModel[name] = bootstrapMetricIntervals(labeledPredictions[name]);
+    });
+    return byModel;
+  }, [labeledPredictions]);
+
+  const hasLabeledModels = MODEL_NAMES.some((name) => reportOrEmpty(evaluations, name).total > 0);
+  const hasLabeledEnsembles = ENSEMBLE_NAMES.some((name) => reportOrEmpty(evaluations, name).total > 0);
+
   // Model metrics (values in 0-1 range, will be converted to percentages in components)
-  // Only show metrics when dataset is active
+  // Only show metrics when labeled documents exist
   const modelMetrics = useMemo(() => {
-    if (!hasActiveDataset) return [];
-    return [
-      {
-        name: 'BERT',
-        precision: 0.89,
-        recall: 0.87,
-        f1Score: 0.88,
-        accuracy: 0.88,
-      },
-      {
-        name: 'RoBERTa',
-        precision: 0.91,
-        recall: 0.89,
-        f1Score: 0.90,
-        accuracy: 0.90,
-      },
-      {
-        name: 'DistilBERT',
-        precision: 0.85,
-        recall: 0.84,
-        f1Score: 0.845,
-        accuracy: 0.85,
-      },
-    ];
-  }, [hasActiveDataset]);
+    if (!hasActiveDataset || !hasLabeledModels) return [];
+    return MODEL_NAMES.map((name) => ({
+      ...toPerformanceSummary(name, reportOrEmpty(evaluations, name)),
+      intervals: metricIntervals[name],
+    }));
+  }, [hasActiveDataset, hasLabeledModels, evaluations, metricIntervals]);
 
   // Ensemble metrics (values in 0-1 range, will be converted to percentages in components)
-  // Only show metrics when dataset is active
+  // Only show metrics when labeled documents exist
   const ensembleMetrics = useMemo(() => {
-    if (!hasActiveDataset) return [];
-    return [
-      {
-        name: 'Jury Classic (JC)',
-        description: 'Voting sederhana dari ketiga model',
-        precision: 0.90,
-        recall: 0.88,
-        f1Score: 0.89,
-        accuracy: 0.89,
-      },
-      {
-        name: 'Jury Adaptive (JA)',
-        description: 'Pembelajaran memori adaptif',
-        precision: 0.92,
-        recall: 0.91,
-        f1Score: 0.915,
-        accuracy: 0.92,
-      },
-      {
-        name: 'Jury Dynamic (JD)',
-        description: 'Reinforcement learning untuk adaptasi real-time',
-        precision: 0.94,
-        recall: 0.93,
-        f1Score: 0.935,
-        accuracy: 0.94,
-      },
-    ];
-  }, [hasActiveDataset]);
+    if (!hasActiveDataset || !hasLabeledEnsembles) return [];
+    return ENSEMBLE_NAMES.map((name) => ({
+      ...toPerformanceSummary(ENSEMBLE_LABELS[name], reportOrEmpty(evaluations, name)),
+      description: ensembles.find((ensemble) => ensemble.name === name)?.description ?? '',
+      intervals: metricIntervals[name],
+    }));
+  }, [hasActiveDataset, hasLabeledEnsembles, evaluations, ensembles, metricIntervals]);
+
+  const emptyMetricsHint = hasActiveDataset
+    ? 'Belum ada dokumen berlabel. Sertakan kolom emotion pada dataset atau pilih label yang benar di halaman Analisis'
+    : null;
 
   return (
     <div className="container py-8">
@@ -186,7 +245,7 @@ export function MetricsPage() {
         <div>
           <h1 className="mb-2 text-3xl font-bold">Metrik Performa</h1>
           <p className="text-muted-foreground">
-            Evaluasi performa model transformer dan algoritma ensemble dengan metrik yang dinormalisasi dan divalidasi
+            Evaluasi performa varian klasifier leksikon dan algoritma ensemble dengan metrik yang dinormalisasi dan divalidasi
           </p>
         </div>
         
@@ -198,15 +257,27 @@ export function MetricsPage() {
               <span>Reset berhasil</span>
             </div>
           )}
-          <Button
-            onClick={handleResetAll}
-            disabled={resetAllMutation.isPending}
-            variant="outline"
-            className="gap-2"
-          >
-            <RotateCcw className={`h-4 w-4 ${resetAllMutation.isPending ? 'animate-spin' : ''}`} />
-            {resetAllMutation.isPending ? 'Mereset...' : 'Reset Data'}
-          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button disabled={resetAllMutation.isPending} variant="outline" className="gap-2">
+                <RotateCcw className={`h-4 w-4 ${resetAllMutation.isPending ? 'animate-spin' : ''}`} />
+                {resetAllMutation.isPending ? 'Mereset...' : 'Reset Data'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset semua data?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Semua dokumen dipindahkan ke tempat sampah dan dapat dipulihkan selama 30 hari. Matriks konfusi, memori dan
+                  bobot ensemble, statistik model dan log pembersihan dihapus permanen dan tidak kembali saat dokumen dipulihkan.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Batal</AlertDialogCancel>
+                <AlertDialogAction onClick={handleResetAll}>Reset data</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       </div>
 
@@ -247,7 +318,7 @@ export function MetricsPage() {
                   <CardHeader>
                     <CardTitle className="flex items-center justify-between">
                       {model.name}
-                      <Badge variant="outline">Transformer</Badge>
+                      <Badge variant="outline">Leksikon</Badge>
                     </CardTitle>
                     <CardDescription>Metrik performa model</CardDescription>
                   </CardHeader>
@@ -270,6 +341,9 @@ export function MetricsPage() {
                         {formatMetricPercentageShort(model.accuracy)}%
                       </span>
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      Kappa {formatCoefficient(model.cohensKappa)} · MCC {formatCoefficient(model.mcc)} · n = {model.total}
+                    </p>
                   </CardContent>
                 </Card>
               ))}
@@ -280,7 +354,7 @@ export function MetricsPage() {
                 <div>
                   <p className="text-lg font-semibold text-muted-foreground">Tidak ada data aktif</p>
                   <p className="text-sm text-muted-foreground/70">
-                    Upload dataset untuk melihat metrik performa model
+                    {emptyMetricsHint ?? 'Upload dataset untuk melihat metrik performa model'}
                   </p>
                 </div>
               </CardContent>
@@ -296,7 +370,7 @@ export function MetricsPage() {
               <div>
                 <h2 className="text-xl font-semibold">Confusion Matrix</h2>
                 <p className="text-sm text-muted-foreground">
-                  Visualisasi prediksi vs label aktual untuk model transformer (normalisasi per baris, setiap baris = 100%)
+                  Visualisasi prediksi vs label aktual untuk varian leksikon (normalisasi per baris, setiap baris = 100%)
                 </p>
               </div>
               <Select value={selectedModel} onValueChange={setSelectedModel}>
@@ -304,9 +378,11 @@ export function MetricsPage() {
                   <SelectValue placeholder="Pilih model" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="BERT">BERT</SelectItem>
-                  <SelectItem value="RoBERTa">RoBERTa</SelectItem>
-                  <SelectItem value="DistilBERT">DistilBERT</SelectItem>
+                  {MODEL_NAMES.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -320,12 +396,18 @@ export function MetricsPage() {
             ) : (
               <ConfusionMatrixChart
                 confusionMatrix={modelConfusionMatrix?.confusionMatrix || null}
+                rawCounts={modelConfusionMatrix?.confusionMatrixRaw || null}
                 emotions={modelConfusionMatrix?.emotions || null}
                 modelName={modelConfusionMatrix?.model || selectedModel}
                 hasActiveDataset={hasActiveDataset}
                 key={`model-${selectedModel}-${documentCount}`}
               />
             )}
+
+            <ClassificationReportTable
+              report={hasActiveDataset && modelConfusionMatrix ? evaluateConfusionMatrix(modelConfusionMatrix) : null}
+              modelName={modelConfusionMatrix?.model || selectedModel}
+            />
           </div>
 
           {/* Detailed Metrics Table */}
@@ -333,7 +415,9 @@ export function MetricsPage() {
             <Card>
               <CardHeader>
                 <CardTitle>Metrik Detail per Model</CardTitle>
-                <CardDescription>Perbandingan lengkap performa model transformer (persentase dengan 2 desimal)</CardDescription>
+                <CardDescription>
+                  Perbandingan lengkap performa varian leksikon dari confusion matrix (macro average, persentase dengan 2 desimal)
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
@@ -345,6 +429,9 @@ export function MetricsPage() {
                         <th className="pb-3 text-right font-medium">Recall</th>
                         <th className="pb-3 text-right font-medium">F1-Score</th>
                         <th className="pb-3 text-right font-medium">Accuracy</th>
+                        <th className="pb-3 text-right font-medium">Kappa</th>
+                        <th className="pb-3 text-right font-medium">MCC</th>
+                        <th className="pb-3 text-right font-medium">n</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -357,6 +444,9 @@ export function MetricsPage() {
                           <td className="py-3 text-right font-semibold">
                             {formatMetricPercentage(model.accuracy)}%
                           </td>
+                          <td className="py-3 text-right">{formatCoefficient(model.cohensKappa)}</td>
+                          <td className="py-3 text-right">{formatCoefficient(model.mcc)}</td>
+                          <td className="py-3 text-right text-muted-foreground">{model.total}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -370,7 +460,7 @@ export function MetricsPage() {
                 <div>
                   <p className="text-lg font-semibold text-muted-foreground">Tidak ada data aktif</p>
                   <p className="text-sm text-muted-foreground/70">
-                    Upload dataset untuk melihat metrik detail
+                    {emptyMetricsHint ?? 'Upload dataset untuk melihat metrik detail'}
                   </p>
                 </div>
               </CardContent>
@@ -424,7 +514,7 @@ export function MetricsPage() {
                 <div>
                   <p className="text-lg font-semibold text-muted-foreground">Tidak ada data aktif</p>
                   <p className="text-sm text-muted-foreground/70">
-                    Upload dataset untuk melihat metrik ensemble
+                    {emptyMetricsHint ?? 'Upload dataset untuk melihat metrik ensemble'}
                   </p>
                 </div>
               </CardContent>
@@ -464,12 +554,18 @@ export function MetricsPage() {
             ) : (
               <ConfusionMatrixChart
                 confusionMatrix={ensembleConfusionMatrix?.confusionMatrix || null}
+                rawCounts={ensembleConfusionMatrix?.confusionMatrixRaw || null}
                 emotions={ensembleConfusionMatrix?.emotions || null}
                 modelName={ensembleConfusionMatrix?.model || selectedEnsemble}
                 hasActiveDataset={hasActiveDataset}
                 key={`ensemble-${selectedEnsemble}-${documentCount}`}
               />
             )}
+
+            <ClassificationReportTable
+              report={hasActiveDataset && ensembleConfusionMatrix ? evaluateConfusionMatrix(ensembleConfusionMatrix) : null}
+              modelName={ensembleConfusionMatrix?.model || selectedEnsemble}
+            />
           </div>
 
           {/* Ensemble Details */}
@@ -504,6 +600,18 @@ export function MetricsPage() {
                         <span className="text-muted-foreground">F1-Score:</span>{' '}
                         <span className="font-medium">{formatMetricPercentage(ensemble.f1Score)}%</span>
                       </div>
+                      <div>
+                        <span className="text-muted-foreground">Kappa:</span>{' '}
+                        <span className="font-medium">{formatCoefficient(ensemble.cohensKappa)}</span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">MCC:</span>{' '}
+                        <span className="font-medium">{formatCoefficient(ensemble.mcc)}</span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">n:</span>{' '}
+                        <span className="font-medium">{ensemble.total}</span>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -515,7 +623,7 @@ export function MetricsPage() {
                 <div>
                   <p className="text-lg font-semibold text-muted-foreground">Tidak ada data aktif</p>
                   <p className="text-sm text-muted-foreground/70">
-                    Upload dataset untuk melihat detail ensemble
+                    {emptyMetricsHint ?? 'Upload dataset untuk melihat detail ensemble'}
                   </p>
                 </div>
               </CardContent>
@@ -523,6 +631,15 @@ export function MetricsPage() {
           )}
         </TabsContent>
       </Tabs>
+
+      <div className="mt-6">
+        <SignificanceComparisonTable
+          modelNames={ALL_MODEL_NAMES}
+          defaultPairs={COMPARISON_PAIRS}
+          labeledPredictions={labeledPredictions}
+          hasActiveDataset={hasActiveDataset}
+        />
+      </div>
     </div>
   );
 }
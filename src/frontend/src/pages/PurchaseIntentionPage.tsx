@@ -4,12 +4,13 @@ import { PurchaseIntentionChart } from '../components/PurchaseIntentionChart';
 import { IntentionBrandCorrelation } from '../components/IntentionBrandCorrelation';
 import { IntentionTrendChart } from '../components/IntentionTrendChart';
 import { IntentionDemographics } from '../components/IntentionDemographics';
-import { useGetAllDocuments } from '../hooks/useQueries';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
 import { useMemo } from 'react';
 import { computeIntentionDistribution, computeAverageIntentionScore } from '../lib/purchaseIntentionAggregation';
 
 export function PurchaseIntentionPage() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
 
   // Compute intention stats from documents
   const stats = useMemo(() => {
@@ -21,17 +22,17 @@ export function PurchaseIntentionPage() {
       };
     }
 
-    const distribution = computeIntentionDistribution(documents);
+    const distribution = computeIntentionDistribution(documents, lexicon);
     const total = distribution.high + distribution.medium + distribution.low;
     const highPercentage = total > 0 ? (distribution.high / total) * 100 : 0;
-    const avgScore = computeAverageIntentionScore(documents);
+    const avgScore = computeAverageIntentionScore(documents, lexicon);
 
     return {
       totalIntentions: total,
       highPercentage: highPercentage.toFixed(1),
       avgScore: avgScore.toFixed(0),
     };
-  }, [documents]);
+  }, [documents, lexicon]);
 
   if (isLoading) {
     return (
@@ -4,16 +4,21 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
-import { Settings, Brain, Zap, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Settings, Brain, Zap, Save, RefreshCw } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
+import { useListModels, useSetModelEnabled, useRerunModels, useListEnsembles, useSetDefaultEnsemble } from '../hooks/useQueries';
+import { AuditLogPanel } from '../components/AuditLogPanel';
 
 export function SettingsPage() {
-  const [defaultEnsemble, setDefaultEnsemble] = useState('jd');
   const [confidenceThreshold, setConfidenceThreshold] = useState([0.7]);
-  const [enableBERT, setEnableBERT] = useState(true);
-  const [enableRoBERTa, setEnableRoBERTa] = useState(true);
-  const [enableDistilBERT, setEnableDistilBERT] = useState(true);
+  const { data: models = [], isLoading: isLoadingModels } = useListModels();
+  const setModelEnabledMutation = useSetModelEnabled();
+  const rerunModelsMutation = useRerunModels();
+  const { data: ensembles = [] } = useListEnsembles();
+  const setDefaultEnsembleMutation = useSetDefaultEnsemble();
+  const defaultEnsemble = ensembles.find((ensemble) => ensemble.isDefault);
   const [adaptiveLearning, setAdaptiveLearning] = useState(true);
   const [realtimeAdaptation, setRealtimeAdaptation] = useState(true);
 
@@ -21,6 +26,33 @@ export function SettingsPage() {
     toast.success('Pengaturan berhasil disimpan');
   };
 
+  const handleToggleModel = async (name: string, enabled: boolean) => {
+    try {
+      await setModelEnabledMutation.mutateAsync({ name, enabled });
+      toast.success(`${name} ${enabled ? 'diaktifkan' : 'dinonaktifkan'}`);
+    } catch (error) {
+      toast.error(`Gagal mengubah status ${name}`);
+    }
+  };
+
+  const handleDefaultEnsembleChange = async (name: string) => {
+    try {
+      await setDefaultEnsembleMutation.mutateAsync(name);
+      toast.success(`Ensemble default diubah ke ${name}`);
+    } catch (error) {
+      toast.error('Gagal mengubah ensemble default');
+    }
+  };
+
+  const handleRerunModels = async () => {
+    try {
+      const count = await rerunModelsMutation.mutateAsync();
+      toast.success(`Prediksi diperbarui untuk ${count.toString()} dokumen`);
+    } catch (error) {
+      toast.error('Gagal menjalankan ulang model');
+    }
+  };
+
   return (
     <div className="container py-8">
       <div className="mb-8">
@@ -38,39 +70,47 @@ export function SettingsPage() {
               <Brain className="h-5 w-5 text-primary" />
               Konfigurasi Model
             </CardTitle>
-            <CardDescription>Pilih model transformer yang akan digunakan</CardDescription>
+            <CardDescription>Pilih varian klasifier leksikon yang akan digunakan; semua varian memakai leksikon yang sama dengan pengaturan negasi dan intensifier berbeda</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="bert">BERT</Label>
-                <p className="text-sm text-muted-foreground">
-                  Bidirectional Encoder Representations
-                </p>
-              </div>
-              <Switch id="bert" checked={enableBERT} onCheckedChange={setEnableBERT} />
-            </div>
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="roberta">RoBERTa</Label>
-                <p className="text-sm text-muted-foreground">
-                  Robustly Optimized BERT Approach
-                </p>
+            {isLoadingModels ? (
+              <div className="flex h-24 items-center justify-center">
+                <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
               </div>
-              <Switch id="roberta" checked={enableRoBERTa} onCheckedChange={setEnableRoBERTa} />
-            </div>
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="distilbert">DistilBERT</Label>
-                <p className="text-sm text-muted-foreground">
-                  Distilled version of BERT (faster)
-                </p>
-              </div>
-              <Switch
-                id="distilbert"
-                checked={enableDistilBERT}
-                onCheckedChange={setEnableDistilBERT}
-              />
+            ) : (
+              models.map((model) => (
+                <div key={model.name} className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`model-${model.name}`}>{model.name}</Label>
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {model.version}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{model.description}</p>
+                  </div>
+                  <Switch
+                    id={`model-${model.name}`}
+                    checked={model.enabled}
+                    disabled={setModelEnabledMutation.isPending}
+                    onCheckedChange={(checked) => handleToggleModel(model.name, checked)}
+                  />
+                </div>
+              ))
+            )}
+            <div className="flex items-center justify-between border-t pt-4">
+              <p className="text-sm text-muted-foreground">
+                Model yang diaktifkan dijalankan otomatis pada setiap dokumen baru
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRerunModels}
+                disabled={rerunModelsMutation.isPending}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${rerunModelsMutation.isPending ? 'animate-spin' : ''}`} />
+                Jalankan Ulang
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -87,21 +127,36 @@ export function SettingsPage() {
           <CardContent className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="ensemble">Algoritma Default</Label>
-              <Select value={defaultEnsemble} onValueChange={setDefaultEnsemble}>
+              <Select
+                value={defaultEnsemble?.name ?? ''}
+                onValueChange={handleDefaultEnsembleChange}
+                disabled={setDefaultEnsembleMutation.isPending}
+              >
                 <SelectTrigger id="ensemble">
-                  <SelectValue />
+                  <SelectValue placeholder="Memuat ensemble..." />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="jc">Jury Classic (JC)</SelectItem>
-                  <SelectItem value="ja">Jury Adaptive (JA)</SelectItem>
-                  <SelectItem value="jd">Jury Dynamic (JD)</SelectItem>
+                  <SelectItem value="JC">Jury Classic (JC)</SelectItem>
+                  <SelectItem value="JA">Jury Adaptive (JA)</SelectItem>
+                  <SelectItem value="JD">Jury Dynamic (JD)</SelectItem>
                 </SelectContent>
               </Select>
-              <p className="text-sm text-muted-foreground">
-                {defaultEnsemble === 'jc' && 'Voting sederhana dari ketiga model'}
-                {defaultEnsemble === 'ja' && 'Pembelajaran memori adaptif'}
-                {defaultEnsemble === 'jd' && 'Reinforcement learning untuk adaptasi real-time'}
-              </p>
+              {defaultEnsemble && (
+                <>
+                  <p className="text-sm text-muted-foreground">{defaultEnsemble.description}</p>
+                  {defaultEnsemble.weights.length > 0 && (
+                    <div className="space-y-1 rounded-md border p-3">
+                      <p className="text-xs font-medium text-muted-foreground">Bobot model saat ini</p>
+                      {defaultEnsemble.weights.map((entry) => (
+                        <div key={entry.model} className="flex justify-between text-sm">
+                          <span>{entry.model}</span>
+                          <span className="font-mono">{entry.weight.toFixed(3)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
             </div>
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -170,6 +225,10 @@ export function SettingsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <div className="mt-6">
+        <AuditLogPanel />
+      </div>
     </div>
   );
 }
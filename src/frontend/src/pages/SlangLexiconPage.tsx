@@ -0,0 +1,287 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { BookOpen, Plus, Search, RotateCcw, EyeOff, Eye, Trash2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  useGetAllDocuments,
+  useIsCallerAdministrator,
+  useListSlangEntries,
+  useSetSlangEntry,
+  useRemoveSlangEntry,
+} from '../hooks/useQueries';
+import { BUNDLED_SLANG_ENTRIES, countSlangUsage, normalizeSlang } from '../lib/slangNormalization';
+
+type EntrySource = 'bundled' | 'custom' | 'override' | 'disabled';
+
+interface LexiconRow {
+  slang: string;
+  standard: string;
+  source: EntrySource;
+}
+
+const SOURCE_LABELS: Record<EntrySource, string> = {
+  bundled: 'Bawaan',
+  custom: 'Tambahan',
+  override: 'Diubah',
+  disabled: 'Nonaktif',
+};
+
+const MAX_PREVIEW_LENGTH = 160;
+
+function truncate(text: string): string {
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Slang lexicon management: the bundled entries with the stored additions and overrides, and
+ * how many documents of the active dataset each entry rewrites before scoring
+ */
+export function SlangLexiconPage() {
+  const { data: documents = [] } = useGetAllDocuments();
+  const { data: storedEntries = [], isLoading } = useListSlangEntries();
+  const { data: isAdministrator = false } = useIsCallerAdministrator();
+  const setEntryMutation = useSetSlangEntry();
+  const removeEntryMutation = useRemoveSlangEntry();
+  const [slangInput, setSlangInput] = useState('');
+  const [standardInput, setStandardInput] = useState('');
+  const [filter, setFilter] = useState('');
+
+  const texts = useMemo(() => documents.map((doc) => doc.content), [documents]);
+
+  const rows = useMemo<LexiconRow[]>(() => {
+    const stored = new Map(storedEntries.map((entry) => [entry.slang, entry.standard]));
+    const result: LexiconRow[] = Object.entries(BUNDLED_SLANG_ENTRIES).map(([slang, standard]) => {
+      const override = stored.get(slang);
+      if (override === undefined) return { slang, standard, source: 'bundled' };
+      // A disabled entry keeps showing its bundled form so it can be turned back on
+      if (override === slang) return { slang, standard, source: 'disabled' };
+      return { slang, standard: override, source: 'override' };
+    });
+    for (const entry of storedEntries) {
+      if (!Object.prototype.hasOwnProperty.call(BUNDLED_SLANG_ENTRIES, entry.slang)) {
+        result.push({ slang: entry.slang, standard: entry.standard, source: 'custom' });
+      }
+    }
+    return result;
+  }, [storedEntries]);
+
+  // Counted with every entry switched on, so disabled entries show what they would rewrite
+  const usage = useMemo(
+    () => countSlangUsage(texts, new Map(rows.map((row) => [row.slang, row.standard]))),
+    [texts, rows]
+  );
+
+  const visibleRows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return rows
+      .filter((row) => !query || row.slang.includes(query) || row.standard.includes(query))
+      .sort((a, b) => (usage.get(b.slang) ?? 0) - (usage.get(a.slang) ?? 0) || a.slang.localeCompare(b.slang));
+  }, [rows, usage, filter]);
+
+  const draftSlang = slangInput.trim().toLowerCase();
+  const draftStandard = standardInput.trim().toLowerCase();
+  const draftValid = /^[\p{L}\p{N}]+$/u.test(draftSlang) && draftStandard.length > 0 && draftSlang !== draftStandard;
+
+  // Documents the draft entry alone would rewrite, with the first one as an example
+  const draftPreview = useMemo(() => {
+    if (!draftValid) return null;
+    const lexicon = new Map([[draftSlang, draftStandard]]);
+    const count = countSlangUsage(texts, lexicon).get(draftSlang) ?? 0;
+    const example = texts.find((text) => normalizeSlang(text, lexicon) !== text.toLowerCase());
+    return {
+      count,
+      example: example && { before: truncate(example), after: truncate(normalizeSlang(example, lexicon)) },
+    };
+  }, [texts, draftSlang, draftStandard, draftValid]);
+
+  const existingRow = rows.find((row) => row.slang === draftSlang);
+
+  const handleSave = async () => {
+    try {
+      await setEntryMutation.mutateAsync({ slang: draftSlang, standard: draftStandard });
+      toast.success(`Entri "${draftSlang}" disimpan`);
+      setSlangInput('');
+      setStandardInput('');
+    } catch (error) {
+      toast.error('Gagal menyimpan entri kamus');
+    }
+  };
+
+  const handleDisable = async (row: LexiconRow) => {
+    try {
+      await setEntryMutation.mutateAsync({ slang: row.slang, standard: row.slang });
+      toast.success(`Entri "${row.slang}" dinonaktifkan`);
+    } catch (error) {
+      toast.error('Gagal menonaktifkan entri');
+    }
+  };
+
+  // Removing the stored entry brings back the bundled one, or drops an added entry entirely
+  const handleRevert = async (row: LexiconRow) => {
+    try {
+      await removeEntryMutation.mutateAsync(row.slang);
+      toast.success(row.source === 'custom' ? `Entri "${row.slang}" dihapus` : `Entri "${row.slang}" dikembalikan`);
+    } catch (error) {
+      toast.error('Gagal mengubah entri');
+    }
+  };
+
+  const actionPending = setEntryMutation.isPending || removeEntryMutation.isPending;
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="mb-2 text-3xl font-bold">Kamus Slang</h1>
+        <p className="text-muted-foreground">
+          Kata gaul dan ejaan alay dinormalkan ke bentuk baku sebelum skor psiko-sosial, pemasaran dan intensi pembelian dihitung
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5 text-primary" />
+            Tambah atau Ubah Entri
+          </CardTitle>
+          <CardDescription>
+            Hanya administrator yang dapat mengubah kamus; perubahan berlaku untuk semua dataset. Model emosi membaca
+            entri tersimpan saat dokumen diklasifikasi, jalankan ulang model di Pengaturan untuk dokumen yang sudah ada
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="slang-word">Kata slang</Label>
+              <Input
+                id="slang-word"
+                placeholder="contoh: mantul"
+                value={slangInput}
+                onChange={(e) => setSlangInput(e.target.value)}
+                disabled={!isAdministrator}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slang-standard">Bentuk baku</Label>
+              <Input
+                id="slang-standard"
+                placeholder="contoh: mantap betul"
+                value={standardInput}
+                onChange={(e) => setStandardInput(e.target.value)}
+                disabled={!isAdministrator}
+              />
+            </div>
+          </div>
+          {draftSlang && !/^[\p{L}\p{N}]+$/u.test(draftSlang) && (
+            <p className="text-xs text-orange-600 dark:text-orange-400">Kata slang harus satu kata tanpa spasi atau tanda baca</p>
+          )}
+          {draftPreview && (
+            <div className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-3 text-sm">
+              <p>
+                Mengubah <span className="font-semibold">{draftPreview.count}</span> dari {texts.length} dokumen pada dataset aktif
+                {existingRow && (
+                  <span className="text-muted-foreground">
+                    {' '}• menggantikan "{existingRow.slang} → {existingRow.standard}"
+                  </span>
+                )}
+              </p>
+              {draftPreview.example && (
+                <div className="space-y-1 text-xs">
+                  <p className="break-words text-muted-foreground line-through">{draftPreview.example.before}</p>
+                  <p className="break-words">{draftPreview.example.after}</p>
+                </div>
+              )}
+            </div>
+          )}
+          <Button onClick={handleSave} disabled={!isAdministrator || !draftValid || actionPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Simpan Entri
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5 text-primary" />
+                Entri Kamus
+              </CardTitle>
+              <CardDescription>
+                {rows.length} entri • diurutkan menurut jumlah dokumen yang diubah pada dataset aktif
+              </CardDescription>
+            </div>
+            <div className="relative sm:w-64">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input placeholder="Cari kata" value={filter} onChange={(e) => setFilter(e.target.value)} className="pl-8" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-24 items-center justify-center">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : (
+            <div className="max-h-[600px] overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="pb-3 text-left font-medium">Slang</th>
+                    <th className="pb-3 text-left font-medium">Bentuk baku</th>
+                    <th className="pb-3 text-left font-medium">Sumber</th>
+                    <th className="pb-3 text-right font-medium">Dokumen</th>
+                    {isAdministrator && <th className="pb-3 text-right font-medium">Aksi</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.slang} className={`border-b last:border-0 ${row.source === 'disabled' ? 'text-muted-foreground' : ''}`}>
+                      <td className="py-2 pr-4 font-mono">{row.slang}</td>
+                      <td className={`py-2 pr-4 ${row.source === 'disabled' ? 'line-through' : ''}`}>{row.standard}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={row.source === 'bundled' ? 'outline' : 'secondary'}>{SOURCE_LABELS[row.source]}</Badge>
+                      </td>
+                      <td className="py-2 text-right tabular-nums">{usage.get(row.slang) ?? 0}</td>
+                      {isAdministrator && (
+                        <td className="py-2 text-right">
+                          {row.source === 'bundled' ? (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" title="Nonaktifkan" onClick={() => handleDisable(row)} disabled={actionPending}>
+                              <EyeOff className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title={row.source === 'custom' ? 'Hapus' : row.source === 'disabled' ? 'Aktifkan' : 'Kembalikan ke bawaan'}
+                              onClick={() => handleRevert(row)}
+                              disabled={actionPending}
+                            >
+                              {row.source === 'custom' ? (
+                                <Trash2 className="h-4 w-4" />
+                              ) : row.source === 'disabled' ? (
+                                <Eye className="h-4 w-4" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && <p className="py-6 text-center text-sm text-muted-foreground">Tidak ada entri yang cocok</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
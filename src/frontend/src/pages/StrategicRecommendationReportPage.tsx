@@ -3,7 +3,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { FileText, Copy, Printer, Download, AlertCircle } from 'lucide-react';
-import { useGetAllDocuments } from '../hooks/useQueries';
+import { useGetAllDocuments, useSlangLexicon } from '../hooks/useQueries';
 import { useMemo, useState } from 'react';
 import { generateStrategicReport, exportReportAsMarkdown } from '../lib/strategicReport';
 import { toast } from 'sonner';
@@ -13,12 +13,13 @@ import { getUILabels, getPriorityLabel, type Locale } from '../lib/strategicRepo
 
 export function StrategicRecommendationReportPage() {
   const { data: documents = [], isLoading } = useGetAllDocuments();
+  const lexicon = useSlangLexicon();
   const navigate = useNavigate();
   const [locale, setLocale] = useState<Locale>('en');
 
   const report = useMemo(() => {
-    return generateStrategicReport(documents, locale);
-  }, [documents, locale]);
+    return generateStrategicReport(documents, locale, lexicon);
+  }, [documents, locale, lexicon]);
 
   const uiLabels = getUILabels(locale);
 